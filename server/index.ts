@@ -2,6 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { geminiRouter } from './routes/gemini';
+import { simulationRouter } from './routes/simulation';
 
 // dotenv.config({ path: '.env'});
 
@@ -14,6 +15,7 @@ app.use(express.json());
 
 // Routes
 app.use('/api/gemini', geminiRouter);
+app.use('/api/simulation', simulationRouter);
 
 // Health check
 app.get('/api/health', (req, res) => {
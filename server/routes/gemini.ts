@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { GoogleGenAI, FunctionDeclaration, Type, FileState } from '@google/genai';
 import dotenv from 'dotenv';
 import { simulationService } from '../services/simulation';
+import { parseRenderUrl } from '../services/simulation/render';
 
 const router = Router();
 
@@ -16,51 +17,375 @@ const MODELS = {
   BACKGROUND: 'gemini-3-pro-preview'
 } as const;
 
+// Failure types accepted by fault schedules
+const FAILURE_TYPES_DESCRIPTION = "Ground robots: 'motor_overheat', 'slip_event', 'gait_mismatch', 'rollover', 'power_fluctuation', 'sensor_noise', 'joint_limit_exceeded'. Drones: 'motor_failure', 'gps_loss', 'low_battery', 'signal_lost', 'geofence_breach', 'wind_warning', 'obstacle_detected', 'flyaway'";
+
+// Mission fields shared by set_mission and run_simulation's mission override
+const MISSION_PROPERTIES = {
+  home_lat: { type: Type.NUMBER, description: "Home (takeoff) latitude in degrees (default 37.7749)" },
+  home_lon: { type: Type.NUMBER, description: "Home (takeoff) longitude in degrees (default -122.4194)" },
+  takeoff_altitude: { type: Type.NUMBER, description: "Altitude to climb to over home in metres, 1-120 (default 10)" },
+  hover_seconds: { type: Type.NUMBER, description: "Hover time over home after takeoff in seconds, 0-300 (default 5)" },
+  waypoints: {
+    type: Type.ARRAY,
+    description: "Waypoints flown in order after the hover, replacing the current list",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        lat: { type: Type.NUMBER, description: "Latitude in degrees" },
+        lon: { type: Type.NUMBER, description: "Longitude in degrees" },
+        alt: { type: Type.NUMBER, description: "Altitude above home in metres, 1-120 (default: takeoff altitude)" },
+        speed: { type: Type.NUMBER, description: "Ground speed along the leg into this waypoint in m/s, 0.5-15 (default 5)" },
+        loiter_seconds: { type: Type.NUMBER, description: "Time to hold at the waypoint after arriving in seconds, 0-300 (default 0)" }
+      },
+      required: ["lat", "lon"]
+    }
+  },
+  landing_lat: { type: Type.NUMBER, description: "Landing latitude in degrees (default: home)" },
+  landing_lon: { type: Type.NUMBER, description: "Landing longitude in degrees (default: home)" }
+};
+
+// Body dynamics integrator settings shared by the physics tools
+const INTEGRATOR_PROPERTIES = {
+  integrator: { type: Type.STRING, description: "Body dynamics integrator: 'semi_implicit_euler' (default) or 'rk4'" },
+  substeps: { type: Type.NUMBER, description: "Integration steps per telemetry sample (1 to 20, default 1). More substeps resolve stiff contacts and fast rotor dynamics more accurately" }
+};
+
 // Simulation Tools
 const SIMULATION_TOOLS: FunctionDeclaration[] = [
   {
     name: "configure_physics",
-    description: "Adjust physics parameters of the simulation environment.",
+    description: "Adjust physics parameters of the simulation environment. The robot body is simulated as a rigid body: gravity, body mass and the support joints' gains shape how it sways and settles. Legged robots walk over a ground shape: the body tilts with the ground plane under its hips, feet over holes deeper than they reach lose contact, swing feet catch on ground that rises past them, and feet slip more as the slope approaches what friction can hold (none hold once the slope's gradient exceeds friction_coefficient). The robot starts at the origin walking along +x. Each joint motor's winding heats with the I²R losses of the torque it applies and cools toward the ambient temperature; with thermal throttling on, a joint's torque_limit is derated linearly from throttle_temperature down to a quarter at max_temperature. Runs report every joint's winding temperature each frame, name the hottest joint in overheat events, and give avg_joint_temperature, max_joint_temperature, hottest_joint and throttled_time. Parameters left out keep their current values. The setting persists for subsequent ground runs.",
     parameters: {
       type: Type.OBJECT,
       properties: {
         gravity: { type: Type.NUMBER, description: "Gravity in m/s^2" },
         friction_coefficient: { type: Type.NUMBER, description: "Surface friction (0.0 to 1.0)" },
-        terrain_type: { type: Type.STRING, description: "Type of terrain: 'sand', 'concrete', 'grass'" }
-      },
-      required: ["terrain_type"]
+        terrain_type: { type: Type.STRING, description: "Surface material: 'sand', 'concrete', 'grass' or 'gravel'. On sand, gravel and grass the feet sink under load and soften the legs' support; each contact reports its ground reaction force, sinkage and the energy lost to the ground, summarised as mean_sinkage and ground_energy_loss" },
+        terrain_roughness: { type: Type.NUMBER, description: "Unevenness of the footing (0.0 to 1.0, default 0.3); scales the random tipping moments on the body" },
+        terrain: { type: Type.STRING, description: "Named ground shape: 'flat', 'ramp_10' (10° incline from 0.3 m for 3 m), 'slope_15' (standing on a long 15° incline), 'stairs' (five 4 cm steps every 0.3 m from 0.3 m), 'rubble' (blocks up to 3 cm) or 'ditch' (12 cm wide, 10 cm deep at 0.3 m). Also names a terrain_file that has no name of its own. On shaped terrain runs report elevation_gain, the height climbed, and measure max_pitch_deviation and max_roll_deviation from the slope underfoot" },
+        terrain_file: { type: Type.STRING, description: "JSON text of a terrain file, used instead of a named terrain: {\"name\", \"features\": [{\"type\": \"incline\", \"start\", \"length\", \"angle\" (degrees)} | {\"type\": \"step\", \"start\", \"height\"} | {\"type\": \"rubble\", \"start\", \"length\", \"height\", \"size\"} | {\"type\": \"ditch\", \"start\", \"width\", \"depth\"}], \"heightmap\": {\"resolution\", \"origin\": [x, y], \"heights\": [[...], ...] (rows along y)}}, lengths in metres along x. Heights of the heightmap and features add up" },
+        ambient_temperature: { type: Type.NUMBER, description: "Air temperature the motors cool toward and start at, in °C (-20 to 50, default 25)" },
+        thermal_throttling: { type: Type.BOOLEAN, description: "Derate each joint's torque_limit as its winding heats (default off)" },
+        throttle_temperature: { type: Type.NUMBER, description: "Winding temperature in °C at which throttling starts (default 50)" },
+        max_temperature: { type: Type.NUMBER, description: "Winding temperature in °C at which throttling reaches its floor of a quarter of torque_limit (default 55)" },
+        ...INTEGRATOR_PROPERTIES
+      }
+    },
+  },
+  {
+    name: "configure_battery",
+    description: "Configure the LiPo battery that powers ground robot runs. Each joint motor draws the work it does plus its copper losses; with the electronics and the energy lost to the ground, that load is drawn from the pack, whose bus voltage sags with its internal resistance and falls as it discharges. If the bus sags below brownout_voltage the motor drivers reset and the legs go limp for 0.2 s, reported as a power_fluctuation event. Every frame reports the bus voltage, current and state of charge with each joint motor's electrical power, summarised as total_energy_consumed, final_state_of_charge, min_bus_voltage and brownout_time. The setting persists for subsequent ground runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        cells: { type: Type.NUMBER, description: "Cells in series (1 to 14, default 6)" },
+        capacity: { type: Type.NUMBER, description: "Capacity in Ah (0.5 to 50, default 5)" },
+        internal_resistance: { type: Type.NUMBER, description: "Internal resistance of the whole pack in ohms (0.005 to 2, default 0.1)" },
+        initial_charge: { type: Type.NUMBER, description: "State of charge at the start of a run in % (0 to 100, default 100)" },
+        brownout_voltage: { type: Type.NUMBER, description: "Bus voltage below which the motor drivers reset, between 2.4 V and 3.0 V per cell (default 18 V)" }
+      }
     },
   },
+  {
+    name: "configure_sensors",
+    description: "Configure the sensor errors applied between the simulated truth and the reported telemetry, for ground and drone runs. The IMU's gyro and accelerometer biases wander and each sample adds white noise; its attitude filter drifts in yaw. GPS fixes arrive late and carry noise plus a slowly wandering multipath error that doubles below 5m. Foot contact switches can read contact with the foot in the air, and any sensor can miss an update and repeat its last reading. Every frame also carries a truth field with the simulated values, which the stability and flight metrics are computed from, so comparing imu with truth.imu or position with truth.position diagnoses sensor_noise and gps_loss failures; the metrics report imu_error_rms and contact_error_rate for ground runs, gps_error_rms and attitude_error_rms for flights. The setting persists for subsequent runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        accel_noise_density: { type: Type.NUMBER, description: "Accelerometer white noise in m/s²/√Hz, including frame vibration (0 to 2, default 0.07)" },
+        accel_bias_drift: { type: Type.NUMBER, description: "Accelerometer bias random walk in m/s² per √s (0 to 0.1, default 0.002)" },
+        gyro_noise_density: { type: Type.NUMBER, description: "Gyro white noise in deg/s/√Hz (0 to 1, default 0.02)" },
+        gyro_bias_drift: { type: Type.NUMBER, description: "Gyro bias random walk in deg/s per √s (0 to 0.5, default 0.01)" },
+        gps_latency: { type: Type.NUMBER, description: "Age of a GPS fix when reported, in seconds (0 to 2, default 0.2)" },
+        gps_noise: { type: Type.NUMBER, description: "Horizontal white noise of a GPS fix in metres, 1.5x vertically (0 to 10, default 0.3)" },
+        gps_multipath: { type: Type.NUMBER, description: "Slowly wandering GPS error from reflected signals in metres (0 to 20, default 0.5)" },
+        contact_false_positive_rate: { type: Type.NUMBER, description: "Chance per sample that a foot in the air reads as in contact (0 to 0.5, default 0.002)" },
+        dropout_rate: { type: Type.NUMBER, description: "Chance per sample that a sensor misses an update and repeats its last reading (0 to 0.5, default 0.005)" }
+      }
+    }
+  },
+  {
+    name: "configure_obstacles",
+    description: "Place obstacles in the world for ground and drone runs. Ground robots cannot walk through an obstacle taller than their body: they stop against it and a collision event is logged. A drone whose rotor tips touch an obstacle reaching its altitude suffers a rotor strike, cuts its motors and crashes. Range sensors (see configure_range_sensors) measure the distance to obstacles and log obstacle_detected events when one comes close. Every frame reports the nearest_obstacle with its clearance, and min_obstacle_clearance gives the closest approach over the run. Obstacles are added to those already placed, replacing any with the same id. The setting persists for subsequent runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        obstacles: {
+          type: Type.ARRAY,
+          description: "Obstacles to place. Positions are in metres: for ground robots x ahead of the start and y to its left, for drones x north and y east of home",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING, description: "Obstacle ID (default obstacle_N). Reusing an ID replaces that obstacle" },
+              type: { type: Type.STRING, description: "'box' (default) or 'cylinder'" },
+              x: { type: Type.NUMBER, description: "Centre x in metres" },
+              y: { type: Type.NUMBER, description: "Centre y in metres" },
+              length: { type: Type.NUMBER, description: "Box size along x before yaw, in metres (0.05-100, default 1)" },
+              width: { type: Type.NUMBER, description: "Box size along y before yaw, in metres (0.05-100, default 1)" },
+              radius: { type: Type.NUMBER, description: "Cylinder radius in metres (0.05-100, default 0.25)" },
+              height: { type: Type.NUMBER, description: "Height above the ground in metres (0.01-200, default 1)" },
+              yaw: { type: Type.NUMBER, description: "Box rotation in degrees from x toward y (default 0)" }
+            },
+            required: ["x", "y"]
+          }
+        },
+        clear: { type: Type.BOOLEAN, description: "Remove every obstacle already placed before adding these" }
+      }
+    }
+  },
+  {
+    name: "configure_range_sensors",
+    description: "Mount range sensors on a robot. A single_beam sensor casts one level ray; a scan_2d sensor casts evenly spaced rays across its field of view, like a 2D LIDAR. Each ray reads the distance to the first obstacle taller than the sensor, plus noise, or its maximum range with nothing in the way; readings appear in every telemetry frame's ranges field. By default the hexapod and quadruped carry a forward lidar_front beam and the drone a 16-beam 360° lidar_scan. Sensors are merged by sensor_id into those already mounted. The setting persists for subsequent runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        robot_type: { type: Type.STRING, description: "Robot to mount the sensors on: 'hexapod', 'quadruped' or 'drone'" },
+        sensors: {
+          type: Type.ARRAY,
+          description: "Sensors to add, update or remove",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              sensor_id: { type: Type.STRING, description: "Sensor ID; an existing ID updates that sensor" },
+              type: { type: Type.STRING, description: "'single_beam' (default) or 'scan_2d'" },
+              mount_x: { type: Type.NUMBER, description: "Mount position forward of the body centre in metres (-2 to 2)" },
+              mount_y: { type: Type.NUMBER, description: "Mount position sideways from the body centre in metres, left on ground robots and right on drones (-2 to 2)" },
+              mount_z: { type: Type.NUMBER, description: "Mount height above the body centre in metres (-2 to 2)" },
+              direction: { type: Type.NUMBER, description: "Centre of the beam or scan in degrees from forward, turning toward +y (default 0)" },
+              fov: { type: Type.NUMBER, description: "Scan width in degrees (1 to 360, default 360)" },
+              beams: { type: Type.NUMBER, description: "Rays across a scan (2 to 360, default 16)" },
+              max_range: { type: Type.NUMBER, description: "Maximum range in metres, reported when nothing is in the way (0.1 to 100, default 12)" },
+              noise: { type: Type.NUMBER, description: "Standard deviation of a return in metres (0 to 1, default 0.02)" },
+              remove: { type: Type.BOOLEAN, description: "Unmount this sensor" }
+            },
+            required: ["sensor_id"]
+          }
+        },
+        replace: { type: Type.BOOLEAN, description: "Unmount every sensor already on this robot before adding these" }
+      },
+      required: ["robot_type"]
+    }
+  },
+  {
+    name: "configure_drone_physics",
+    description: "Configure the flight environment for drone simulations. Wind is modelled as a mean wind that strengthens with height, discrete 1-cosine gusts and Dryden turbulence; each telemetry frame logs the sampled wind vector and gust speed. The setting persists for subsequent drone runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        air_density: { type: Type.NUMBER, description: "Air density in kg/m³ (0.3 to 1.5, 1.225 at sea level). Thinner air needs higher rotor speeds to hover" },
+        wind_speed: { type: Type.NUMBER, description: "Mean wind speed in m/s at 10m above home (0 to 30)" },
+        wind_direction: { type: Type.NUMBER, description: "Direction the wind blows toward, in degrees (0-360)" },
+        airspace_condition: { type: Type.STRING, description: "Airspace condition: 'calm', 'light_wind', 'gusty', or 'turbulent'. Sets turbulence intensity and how often gusts arrive" },
+        ...INTEGRATOR_PROPERTIES
+      }
+    }
+  },
+  {
+    name: "configure_gait",
+    description: "Configure the hexapod walking gait. Choose a preset pattern or custom per-leg phase offsets, the gait frequency, duty factor and joint swing amplitudes. Legs are numbered 1 left-front, 2 left-middle, 3 left-rear, 4 right-rear, 5 right-middle, 6 right-front. The setting persists for subsequent hexapod runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        pattern: { type: Type.STRING, description: "Gait pattern: 'tripod' (duty 0.5, fastest), 'ripple' (duty 0.67), 'wave' (duty 0.83, most stable) or 'custom'" },
+        frequency: { type: Type.NUMBER, description: "Gait cycle frequency in Hz (0.1 to 5, default 2)" },
+        duty_factor: { type: Type.NUMBER, description: "Fraction of the cycle each leg spends in stance (0.2 to 0.95)" },
+        phase_offsets: {
+          type: Type.ARRAY,
+          items: { type: Type.NUMBER },
+          description: "Custom phase offset per leg as a fraction of the cycle (0-1), six values for legs 1-6. Setting this makes the gait 'custom'."
+        },
+        coxa_amplitude: { type: Type.NUMBER, description: "Coxa sweep in radians either side of centre; sets the stride (default 0.3)" },
+        femur_amplitude: { type: Type.NUMBER, description: "Femur lift during swing in radians; sets foot clearance (default 0.6)" },
+        tibia_amplitude: { type: Type.NUMBER, description: "Tibia tuck during swing in radians (default 0.8)" },
+        joint_amplitudes: {
+          type: Type.ARRAY,
+          description: "Per-joint amplitude overrides",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              joint_id: { type: Type.STRING, description: "Hexapod joint ID (e.g., 'leg_2_femur')" },
+              amplitude: { type: Type.NUMBER, description: "Swing amplitude in radians" }
+            },
+            required: ["joint_id", "amplitude"]
+          }
+        }
+      }
+    }
+  },
   {
     name: "update_motor_params",
-    description: "Update the motor control parameters for the robot joints.",
+    description: "Update the PID control and actuator limits for a robot joint. Torque is saturated at torque_limit and joint speed at max_velocity.",
     parameters: {
       type: Type.OBJECT,
       properties: {
-        joint_id: { type: Type.STRING, description: "ID of the joint (e.g., 'leg_1_coxa')" },
+        joint_id: { type: Type.STRING, description: "ID of the joint (e.g., 'leg_1_coxa' for the hexapod, 'fl_knee' for the quadruped)" },
         torque_limit: { type: Type.NUMBER, description: "Max torque in Nm" },
-        pid_p: { type: Type.NUMBER, description: "Proportional gain" },
-        pid_d: { type: Type.NUMBER, description: "Derivative gain" }
+        pid_p: { type: Type.NUMBER, description: "Proportional gain (Nm/rad)" },
+        pid_i: { type: Type.NUMBER, description: "Integral gain (Nm/(rad·s)). Removes steady-state sag under load; the integrator is frozen while the actuator saturates" },
+        pid_d: { type: Type.NUMBER, description: "Derivative gain (Nm·s/rad), acts on joint velocity" },
+        max_velocity: { type: Type.NUMBER, description: "Joint velocity limit in rad/s" }
       },
       required: ["joint_id"]
     }
   },
+  {
+    name: "load_robot_description",
+    description: "Replace the hexapod or quadruped model with a URDF robot description: link masses and inertias, and revolute, continuous or fixed joints with their origins, axes and limits. Every chain of moving joints off the base link is a leg (six of three joints for a hexapod, four of three for a quadruped); legs and joints are renamed to the built-in IDs from where the hips sit. Joint motors take the new effort and velocity limits and keep their gains. Call with only robot_type to restore the built-in model.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        urdf: { type: Type.STRING, description: "URDF XML text of the robot" },
+        robot_type: { type: Type.STRING, description: "'hexapod' or 'quadruped'. Inferred from the leg count when a URDF is given" }
+      }
+    }
+  },
+  {
+    name: "update_flight_controller",
+    description: "Tune the drone flight controller and drive train. The cascaded controller turns position error into a tilt target (position PID), tilt error into differential rotor thrust (attitude PID) and altitude error into collective thrust (altitude PID). Settings persist for subsequent drone runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        altitude_p: { type: Type.NUMBER, description: "Altitude P gain, collective thrust fraction per metre of error (default 0.8)" },
+        altitude_i: { type: Type.NUMBER, description: "Altitude I gain (default 0.1)" },
+        altitude_d: { type: Type.NUMBER, description: "Altitude D gain, acts on climb-rate error (default 0.3)" },
+        attitude_p: { type: Type.NUMBER, description: "Roll/pitch P gain, differential thrust fraction per degree of error (default 0.01)" },
+        attitude_i: { type: Type.NUMBER, description: "Roll/pitch I gain (default 0.001)" },
+        attitude_d: { type: Type.NUMBER, description: "Roll/pitch D gain, acts on angular rate (default 0.002)" },
+        position_p: { type: Type.NUMBER, description: "Position P gain, degrees of tilt per metre of error (default 2.0)" },
+        position_i: { type: Type.NUMBER, description: "Position I gain, rejects steady wind (default 0.3)" },
+        position_d: { type: Type.NUMBER, description: "Position D gain, acts on ground-speed error (default 3.0)" },
+        yaw_p: { type: Type.NUMBER, description: "Heading P gain, differential rotor torque per degree of error (default 0.02). Zero disables heading hold" },
+        yaw_i: { type: Type.NUMBER, description: "Heading I gain (default 0.002)" },
+        yaw_d: { type: Type.NUMBER, description: "Heading D gain, acts on yaw rate (default 0.01)" },
+        rotor_loss_strategy: { type: Type.STRING, description: "Mixer behaviour once a rotor is flagged as failed: 'none' (default, keep the normal mixer) or 'reduced_attitude' (drop the failed rotor from the mix and give up heading; a quad also shuts down the opposite rotor and holds attitude on the remaining pair while spinning)" },
+        kv_rating: { type: Type.NUMBER, description: "Motor KV in RPM per volt (default 2300). Low KV caps rotor speed as the battery sags" },
+        max_current: { type: Type.NUMBER, description: "Max current per motor in A (default 25), caps rotor speed" },
+        response_time: { type: Type.NUMBER, description: "Rotor spin-up time constant in seconds (default 0.05)" }
+      }
+    }
+  },
+  {
+    name: "set_mission",
+    description: "Define the waypoint mission flown by subsequent drone runs: takeoff from home, hover, fly the waypoints in order at their altitude and speed (loitering where requested), then land at the landing point. Returns the estimated flight time; drone runs default to it when no duration is given.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: MISSION_PROPERTIES
+    }
+  },
+  {
+    name: "configure_failsafe",
+    description: "Configure the drone geofence and the failsafe the vehicle executes on its own: return-to-home (climb to rth_altitude, fly home, land) when the battery falls to rth_battery_threshold, landing in place at land_battery_threshold, breach_action when it leaves the geofence, and motor_failure_action when a rotor fails. Drone runs report whether the failsafe engaged and whether the vehicle landed safely.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        geofence_enabled: { type: Type.BOOLEAN, description: "Enforce the geofence (default true)" },
+        geofence_shape: { type: Type.STRING, description: "'cylinder' (radius around home, default) or 'polygon'" },
+        geofence_radius: { type: Type.NUMBER, description: "Cylinder radius around home in metres, 10-5000 (default 100)" },
+        geofence_polygon: {
+          type: Type.ARRAY,
+          description: "Polygon vertices in order, at least 3. Used when geofence_shape is 'polygon'",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              lat: { type: Type.NUMBER, description: "Latitude in degrees" },
+              lon: { type: Type.NUMBER, description: "Longitude in degrees" }
+            },
+            required: ["lat", "lon"]
+          }
+        },
+        max_altitude: { type: Type.NUMBER, description: "Geofence ceiling above home in metres, 5-500 (default 120)" },
+        rth_battery_threshold: { type: Type.NUMBER, description: "Battery % that triggers return-to-home (default 15)" },
+        land_battery_threshold: { type: Type.NUMBER, description: "Battery % that forces a landing in place (default 5)" },
+        rth_altitude: { type: Type.NUMBER, description: "Altitude to climb to before flying home, in metres (default 15)" },
+        breach_action: { type: Type.STRING, description: "Action on a geofence breach: 'rth' (default) or 'land' in place" },
+        motor_failure_action: { type: Type.STRING, description: "Action when a rotor stops following its command: 'land' in place (default) or 'continue' the mission" }
+      }
+    }
+  },
+  {
+    name: "configure_airframe",
+    description: "Choose the drone airframe and its physical parameters. Rotor thrust and drag torque follow kT·ω² and kQ·ω² at each rotor's mount, so mass, arm length and layout set hover RPM, attitude authority and how well the frame survives a rotor loss. Switching type loads that frame's preset. Settings persist for subsequent drone runs.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        airframe_type: { type: Type.STRING, description: "'quad_x' (default, rotor_fl/fr/bl/br), 'hex_x' or 'octo_x' (rotor_1..rotor_n clockwise from front-right) or 'coaxial_x8' (rotor_fl_upper/rotor_fl_lower etc.)" },
+        mass: { type: Type.NUMBER, description: "Take-off mass in kg, 0.2-25 (presets: quad 1.5, hex 2.5, octo 4, coaxial 3)" },
+        arm_length: { type: Type.NUMBER, description: "Centre-to-rotor distance in metres, 0.05-1.5 (presets: quad 0.25, hex 0.35, octo 0.45, coaxial 0.3)" },
+        thrust_coefficient: { type: Type.NUMBER, description: "Rotor thrust coefficient kT in N/(rad/s)² (default 1.66e-5)" },
+        torque_coefficient: { type: Type.NUMBER, description: "Rotor drag torque coefficient kQ in N·m/(rad/s)² (default 6e-7). Sets yaw authority and motor power" },
+        battery_capacity: { type: Type.NUMBER, description: "Flight pack capacity in Ah, 0.5-50 (presets: quad 5, hex 8, octo 12, coaxial 10). The state of charge falls by the current the rotors draw" }
+      }
+    }
+  },
   {
     name: "run_simulation",
-    description: "Execute a simulation run with current parameters. Returns a run ID and status. For drones/UAVs, include robot_type to get flight-specific metrics (hover_accuracy, altitude_stability, flight_path).",
+    description: "Execute a simulation run with the session's current configuration. Returns the run ID, status, seed, a telemetry summary, metrics and the notable events. Ground runs report gait and stability metrics such as stride_length, foot_clearance, distance_travelled and min_stability_margin (distance from the projected centre of mass to the edge of the support polygon; negative means statically unstable). Drone runs fly the session mission and add flight metrics, a flight_path with per-waypoint arrival times and cross-track error, and a failsafe report. video_url points to an animated PNG rendered from the telemetry, omitted when the run recorded none.",
     parameters: {
       type: Type.OBJECT,
       properties: {
         duration_seconds: { type: Type.NUMBER, description: "Duration to simulate in seconds" },
         robot_type: { type: Type.STRING, description: "Type of robot: 'hexapod', 'quadruped', 'drone', 'uav', 'quadcopter', or 'aerial'. Use drone/uav/quadcopter/aerial for flying robots." },
-        wind_speed: { type: Type.NUMBER, description: "Wind speed in m/s (for drone simulations, default: 2.0)" },
-        airspace_condition: { type: Type.STRING, description: "Airspace condition for drones: 'calm', 'light_wind', 'gusty', or 'turbulent'" }
+        gait: { type: Type.STRING, description: "Quadruped gait: 'trot' (diagonal pairs, default), 'pace' (lateral pairs) or 'bound' (front/back pairs)" },
+        wind_speed: { type: Type.NUMBER, description: "Wind speed in m/s for this drone run only (default: session setting from configure_drone_physics)" },
+        airspace_condition: { type: Type.STRING, description: "Airspace condition for this drone run only: 'calm', 'light_wind', 'gusty', or 'turbulent' (default: session setting)" },
+        seed: { type: Type.NUMBER, description: "Optional PRNG seed. Runs with the same seed and configuration produce identical telemetry and events. A seed is generated and returned if omitted." },
+        fault_schedule: {
+          type: Type.ARRAY,
+          description: "Faults to inject at fixed times in this run, replacing the session schedule set with inject_failure",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, description: `Failure type. ${FAILURE_TYPES_DESCRIPTION}` },
+              at_seconds: { type: Type.NUMBER, description: "Simulation time the fault starts, in seconds; runs reject faults that start at or after their end" },
+              component: { type: Type.STRING, description: "A joint for motor_overheat and joint_limit_exceeded, a leg for slip_event and gait_mismatch, a rotor for motor_failure (e.g., 'leg_2_femur', 'fl', 'rotor_fr', 'rotor_3' on a hex); it must exist on the robot that runs. Other failures act on the whole robot. Defaults to the failure's usual components" },
+              severity: { type: Type.STRING, description: "Override severity: 'info', 'warning', 'error' or 'critical'" },
+              magnitude: { type: Type.NUMBER, description: "Fault strength from 0 to 1 (default 1). For a drone motor_failure, the fraction of the rotor's thrust lost" },
+              duration_seconds: { type: Type.NUMBER, description: "How long the fault lasts (default 2s, or the rest of the run for rollover, flyaway and motor_failure)" }
+            },
+            required: ["type", "at_seconds"]
+          }
+        },
+        random_failures: { type: Type.BOOLEAN, description: "Keep random failure injection alongside the schedule (default: session setting, initially true). Set false for repeatable regression scenarios." },
+        mission: {
+          type: Type.OBJECT,
+          description: "Mission for this drone run only, applied over the session mission set with set_mission",
+          properties: MISSION_PROPERTIES
+        }
+      }
+    }
+  },
+  {
+    name: "inject_failure",
+    description: "Schedule a fault at a fixed time on a component for subsequent simulation runs, e.g. rotor_fr motor_failure at t=12s. Scheduled faults perturb the telemetry of the frames they cover. Faults apply to the robot kind they belong to; combine with a seed and random_failures=false for fully repeatable scenarios.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        failure_type: { type: Type.STRING, description: `Failure type. ${FAILURE_TYPES_DESCRIPTION}` },
+        at_seconds: { type: Type.NUMBER, description: "Simulation time the fault starts, in seconds; runs reject faults that start at or after their end" },
+        component: { type: Type.STRING, description: "A joint for motor_overheat and joint_limit_exceeded, a leg for slip_event and gait_mismatch, a rotor for motor_failure (e.g., 'leg_2_femur', 'fl', 'rotor_fr', 'rotor_3' on a hex); it must exist on the robot that runs. Other failures act on the whole robot. Defaults to the failure's usual components" },
+        severity: { type: Type.STRING, description: "Override severity: 'info', 'warning', 'error' or 'critical'" },
+        magnitude: { type: Type.NUMBER, description: "Fault strength from 0 to 1 (default 1). For a drone motor_failure, the fraction of the rotor's thrust lost" },
+        duration_seconds: { type: Type.NUMBER, description: "How long the fault lasts (default 2s, or the rest of the run for rollover, flyaway and motor_failure)" },
+        random_failures: { type: Type.BOOLEAN, description: "Enable or disable random failure injection for subsequent runs" },
+        clear: { type: Type.BOOLEAN, description: "Remove all previously scheduled faults first" }
       }
     }
   },
+  {
+    name: "replay_run",
+    description: "Regenerate a previous simulation run bit-for-bit from its stored seed, physics and motor configuration. Drone flights (run_id starting with 'flight_') are re-flown with their stored physics, flight controller, airframe, mission, failsafe, sensors, obstacles and fault schedule. Use this to reproduce a failure exactly.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        run_id: { type: Type.STRING, description: "The ID of the run or drone flight to replay" }
+      },
+      required: ["run_id"]
+    }
+  },
   {
     name: "analyze_simulation_video",
-    description: "Analyze the visual feed of a specific simulation run to detect failures. For drone flights (run_id starting with 'flight_'), provides flight-specific analysis including wind compensation, GPS anomalies, and rotor performance.",
+    description: "Analyze the visual feed of a specific simulation run to detect failures. For drone flights (run_id starting with 'flight_'), provides flight-specific analysis including wind compensation, GPS anomalies, and rotor performance. The run's rendering is attached for visual analysis.",
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -135,19 +460,33 @@ Structure your responses with clear Markdown headings:
 const activeInteractions = new Map<string, any>();
 
 /**
- * Upload a video from a URL to the Gemini File API.
- * Fetches bytes from the URL, uploads to Gemini, polls until ACTIVE.
- * Returns { uri, mimeType } for use in content parts.
+ * Bytes of a video: a run rendering served by this server is rendered in
+ * process, anything else is fetched
  */
-async function uploadVideoToGemini(videoUrl: string): Promise<{ uri: string; mimeType: string }> {
-  // Fetch video bytes from R2
+async function loadVideo(videoUrl: string): Promise<{ videoBuffer: Buffer; mimeType: string }> {
+  const rendering = parseRenderUrl(videoUrl);
+  if (rendering) {
+    const image = await simulationService.renderRun(rendering.sessionId, rendering.runId);
+    return { videoBuffer: image, mimeType: 'image/png' };
+  }
+
   const videoResponse = await fetch(videoUrl);
   if (!videoResponse.ok) {
     throw new Error(`Failed to fetch video from ${videoUrl}: ${videoResponse.status}`);
   }
+  return {
+    videoBuffer: Buffer.from(await videoResponse.arrayBuffer()),
+    mimeType: videoResponse.headers.get('content-type') || 'video/mp4'
+  };
+}
 
-  const videoBuffer = Buffer.from(await videoResponse.arrayBuffer());
-  const mimeType = videoResponse.headers.get('content-type') || 'video/mp4';
+/**
+ * Upload a video from a URL to the Gemini File API.
+ * Loads bytes from the URL, uploads to Gemini, polls until ACTIVE.
+ * Returns { uri, mimeType } for use in content parts.
+ */
+async function uploadVideoToGemini(videoUrl: string): Promise<{ uri: string; mimeType: string }> {
+  const { videoBuffer, mimeType } = await loadVideo(videoUrl);
 
   // Upload to Gemini File API
   const uploadedFile = await client.files.upload({
@@ -398,7 +737,9 @@ router.post('/tool-response', async (req: Request, res: Response) => {
         // Add fileData part so Gemini can see the actual video
         userParts.push({ fileData: { fileUri, mimeType } });
 
-        videoSystemAddendum = `\n\nIMPORTANT: A simulation video has been attached. Analyze the visual content in the video alongside the telemetry data. Describe what you observe in the video — robot movements, terrain interaction, failure modes, and any visual anomalies. Correlate visual observations with the telemetry findings.`;
+        videoSystemAddendum = mimeType === 'image/png'
+          ? `\n\nIMPORTANT: A rendering of the simulation has been attached as an animated PNG: the robot's pose over time beside a map of its path, with active events labelled and a progress bar marking them. Viewers that do not animate it show a grid of keyframes labelled with their times instead. Analyze what the rendering shows alongside the telemetry data — robot movements, terrain and obstacle interaction, failure modes, and any visual anomalies. Correlate visual observations with the telemetry findings.`
+          : `\n\nIMPORTANT: A simulation video has been attached. Analyze the visual content in the video alongside the telemetry data. Describe what you observe in the video — robot movements, terrain interaction, failure modes, and any visual anomalies. Correlate visual observations with the telemetry findings.`;
       } catch (videoError: any) {
         console.warn('Failed to upload video to Gemini, continuing without video:', videoError.message);
         sendSSE(res, 'status', { status: 'Video upload failed — analyzing telemetry only...' });
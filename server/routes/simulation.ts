@@ -0,0 +1,32 @@
+import { Router, Request, Response } from 'express';
+import { simulationService } from '../services/simulation';
+
+const router = Router();
+
+// HTTP status for the errors a rendering can fail with
+const RENDER_ERROR_STATUS: Record<string, number> = {
+  RUN_NOT_FOUND: 404,
+  NO_TELEMETRY: 422
+};
+
+/**
+ * GET /api/simulation/sessions/:sessionId/runs/:runId/render.png
+ * Animated rendering of a stored ground run or drone flight
+ */
+router.get('/sessions/:sessionId/runs/:runId/render.png', async (req: Request, res: Response) => {
+  try {
+    const image = await simulationService.renderRun(req.params.sessionId, req.params.runId);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(image);
+  } catch (error: any) {
+    const status = RENDER_ERROR_STATUS[error.code] ?? 500;
+    if (status === 500) {
+      console.error('Render error:', error);
+    }
+    res.status(status).json({ error: error.message || 'Failed to render run' });
+  }
+});
+
+export { router as simulationRouter };
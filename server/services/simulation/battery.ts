@@ -0,0 +1,84 @@
+// Battery - Lithium-polymer pack for ground robots: resting voltage, sag under load and charge used
+
+import { BatteryConfig } from './types';
+
+// ============================================
+// Cell Chemistry
+// ============================================
+
+/**
+ * Resting voltage of one LiPo cell against its state of charge (0-1),
+ * flat through the middle of the charge and falling away at either end
+ */
+const CELL_OPEN_CIRCUIT_VOLTAGE: [number, number][] = [
+  [0, 3.27], [0.05, 3.5], [0.1, 3.61], [0.2, 3.69], [0.3, 3.73], [0.4, 3.77],
+  [0.5, 3.8], [0.6, 3.84], [0.7, 3.9], [0.8, 3.98], [0.9, 4.08], [1, 4.2]
+];
+
+/**
+ * Open-circuit voltage of one cell at a state of charge (0-1)
+ */
+export function cellOpenCircuitVoltage(charge: number): number {
+  const table = CELL_OPEN_CIRCUIT_VOLTAGE;
+  const c = Math.min(Math.max(charge, 0), 1);
+  const k = table.findIndex(([soc]) => soc >= c);
+  if (k <= 0) return table[0][1];
+  const [[soc0, v0], [soc1, v1]] = [table[k - 1], table[k]];
+  return v0 + (v1 - v0) * (c - soc0) / (soc1 - soc0);
+}
+
+// ============================================
+// Battery Pack
+// ============================================
+
+/**
+ * What the pack delivered over one step
+ */
+export interface BatteryDraw {
+  voltage: number;     // V at the robot's power bus
+  current: number;     // A
+  collapsed: boolean;  // the load asked for more power than the pack can deliver
+}
+
+/**
+ * A pack of cells in series discharged over a run. The bus sees the
+ * open-circuit voltage less the drop across the pack's internal resistance
+ * and any resistance in series with it, such as a corroded connector.
+ */
+export class Battery {
+  private charge: number;   // 0-1
+
+  constructor(private readonly config: BatteryConfig) {
+    this.charge = config.initial_charge / 100;
+  }
+
+  /**
+   * State of charge (%)
+   */
+  get stateOfCharge(): number {
+    return this.charge * 100;
+  }
+
+  /**
+   * Pack voltage at rest (V)
+   */
+  get openCircuitVoltage(): number {
+    return this.config.cells * cellOpenCircuitVoltage(this.charge);
+  }
+
+  /**
+   * Supply a load power (W) for one step. The current solves
+   * P = (Voc - I·R)·I; a load beyond the most the pack can deliver, Voc²/4R,
+   * collapses the bus to half the open-circuit voltage.
+   */
+  draw(power: number, seriesResistance: number, dt: number): BatteryDraw {
+    const resistance = this.config.internal_resistance + seriesResistance;
+    const openCircuit = this.openCircuitVoltage;
+    const discriminant = openCircuit * openCircuit - 4 * resistance * Math.max(0, power);
+    const current = discriminant >= 0
+      ? (openCircuit - Math.sqrt(discriminant)) / (2 * resistance)
+      : openCircuit / (2 * resistance);
+    this.charge = Math.max(0, this.charge - current * dt / (3600 * this.config.capacity));
+    return { voltage: openCircuit - current * resistance, current, collapsed: discriminant < 0 };
+  }
+}
@@ -0,0 +1,158 @@
+// Rigid Body Dynamics - 6-DoF body state and fixed-step integrators shared by the robot models
+
+import { IntegratorConfig } from './types';
+
+// ============================================
+// Body State
+// ============================================
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Body state in the world frame. Attitude is carried as roll, pitch and yaw
+ * angles with their rates; the robots keep to moderate tilts, where each
+ * rate can be integrated about its own axis.
+ */
+export interface RigidBodyState {
+  position: Vector3;          // m
+  velocity: Vector3;          // m/s
+  attitude: Vector3;          // rad: roll about x, pitch about y, yaw about z
+  angularVelocity: Vector3;   // rad/s
+}
+
+export interface MassProperties {
+  mass: number;               // kg
+  inertia: Vector3;           // kg·m² about the roll, pitch and yaw axes
+}
+
+// Net force (N, world frame, gravity included) and torque (N·m) on the body
+export interface BodyLoads {
+  force: Vector3;
+  torque: Vector3;
+}
+
+// Loads on the body in a given state. RK4 evaluates it at intermediate states,
+// so it must not draw random numbers or change anything outside the step.
+export type LoadModel = (state: RigidBodyState) => BodyLoads;
+
+/**
+ * Body at rest at the origin, level and facing along x
+ */
+export function restingBody(): RigidBodyState {
+  return {
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    attitude: { x: 0, y: 0, z: 0 },
+    angularVelocity: { x: 0, y: 0, z: 0 }
+  };
+}
+
+/**
+ * Inertia of a uniform box about its centre, from its length (x), width (y) and height (z)
+ */
+export function boxInertia(mass: number, length: number, width: number, height: number): Vector3 {
+  return {
+    x: mass * (width ** 2 + height ** 2) / 12,
+    y: mass * (length ** 2 + height ** 2) / 12,
+    z: mass * (length ** 2 + width ** 2) / 12
+  };
+}
+
+// ============================================
+// Integrators
+// ============================================
+
+/**
+ * Advance a body by one sample period under the given loads. The period is
+ * split into the configured number of substeps; each uses semi-implicit
+ * Euler (velocities first, then positions from the new velocities, which
+ * keeps spring-like loads from gaining energy) or classic RK4.
+ */
+export function integrateRigidBody(
+  state: RigidBodyState,
+  body: MassProperties,
+  loads: LoadModel,
+  dt: number,
+  integrator: IntegratorConfig
+): RigidBodyState {
+  const substeps = Math.max(1, Math.round(integrator.substeps));
+  const h = dt / substeps;
+  let current = state;
+  for (let k = 0; k < substeps; k++) {
+    current = integrator.method === 'rk4'
+      ? rk4Step(current, body, loads, h)
+      : semiImplicitEulerStep(current, body, loads, h);
+  }
+  return current;
+}
+
+function semiImplicitEulerStep(state: RigidBodyState, body: MassProperties, loads: LoadModel, h: number): RigidBodyState {
+  const { force, torque } = loads(state);
+  const velocity = addScaled(state.velocity, scale(force, 1 / body.mass), h);
+  const angularVelocity = addScaled(state.angularVelocity, divide(torque, body.inertia), h);
+  return {
+    position: addScaled(state.position, velocity, h),
+    velocity,
+    attitude: addScaled(state.attitude, angularVelocity, h),
+    angularVelocity
+  };
+}
+
+function rk4Step(state: RigidBodyState, body: MassProperties, loads: LoadModel, h: number): RigidBodyState {
+  const k1 = derivative(state, body, loads);
+  const k2 = derivative(advance(state, k1, h / 2), body, loads);
+  const k3 = derivative(advance(state, k2, h / 2), body, loads);
+  const k4 = derivative(advance(state, k3, h), body, loads);
+  const blend = (pick: (d: RigidBodyState) => Vector3): Vector3 => {
+    const [a, b, c, d] = [k1, k2, k3, k4].map(pick);
+    return {
+      x: (a.x + 2 * b.x + 2 * c.x + d.x) / 6,
+      y: (a.y + 2 * b.y + 2 * c.y + d.y) / 6,
+      z: (a.z + 2 * b.z + 2 * c.z + d.z) / 6
+    };
+  };
+  return advance(state, {
+    position: blend(d => d.position),
+    velocity: blend(d => d.velocity),
+    attitude: blend(d => d.attitude),
+    angularVelocity: blend(d => d.angularVelocity)
+  }, h);
+}
+
+/**
+ * Time derivative of the state, packed in the same shape
+ */
+function derivative(state: RigidBodyState, body: MassProperties, loads: LoadModel): RigidBodyState {
+  const { force, torque } = loads(state);
+  return {
+    position: state.velocity,
+    velocity: scale(force, 1 / body.mass),
+    attitude: state.angularVelocity,
+    angularVelocity: divide(torque, body.inertia)
+  };
+}
+
+function advance(state: RigidBodyState, rate: RigidBodyState, h: number): RigidBodyState {
+  return {
+    position: addScaled(state.position, rate.position, h),
+    velocity: addScaled(state.velocity, rate.velocity, h),
+    attitude: addScaled(state.attitude, rate.attitude, h),
+    angularVelocity: addScaled(state.angularVelocity, rate.angularVelocity, h)
+  };
+}
+
+function addScaled(a: Vector3, b: Vector3, s: number): Vector3 {
+  return { x: a.x + b.x * s, y: a.y + b.y * s, z: a.z + b.z * s };
+}
+
+function scale(a: Vector3, s: number): Vector3 {
+  return { x: a.x * s, y: a.y * s, z: a.z * s };
+}
+
+function divide(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x / b.x, y: a.y / b.y, z: a.z / b.z };
+}
@@ -7,8 +7,14 @@ import {
   DronePhysicsConfig,
   DroneTelemetryFrame,
   DroneSimulationEvent,
-  DroneEventType
+  DroneEventType,
+  GroundRobotType,
+  ScheduledFault,
+  FaultSchedule,
+  RotorMount,
+  DEFAULT_FAULT_SCHEDULE
 } from './types';
+import { SeededRandom } from './random';
 
 export type FailureType =
   | 'motor_overheat'
@@ -29,6 +35,7 @@ export interface FailureScenario {
 }
 
 const BASE_FAILURE_RATE = 0.12; // 12% base chance
+const SCHEDULED_FAULT_DURATION = 2; // seconds, recoverable scheduled faults without a duration
 
 /**
  * Get terrain-adjusted failure probabilities
@@ -110,7 +117,7 @@ const FAILURE_SCENARIOS: Record<FailureType, Omit<FailureScenario, 'probability'
   power_fluctuation: {
     type: 'power_fluctuation',
     severity: 'info',
-    message: 'Minor power supply fluctuation detected',
+    message: 'Intermittent resistance in the battery connection',
     recoverable: true
   },
   sensor_noise: {
@@ -128,13 +135,41 @@ const FAILURE_SCENARIOS: Record<FailureType, Omit<FailureScenario, 'probability'
   }
 };
 
+/**
+ * Quadruped components affected by each failure (scenario defaults name hexapod parts)
+ */
+const QUADRUPED_AFFECTED_COMPONENTS: Partial<Record<FailureType, string[]>> = {
+  motor_overheat: ['fl_knee', 'br_knee'],
+  slip_event: ['fl', 'br'],
+  gait_mismatch: ['fr', 'bl'],
+  joint_limit_exceeded: ['bl_knee']
+};
+
+/**
+ * Check whether a name is a ground robot failure type
+ */
+export function isFailureType(type: string): type is FailureType {
+  return Object.keys(FAILURE_SCENARIOS).includes(type);
+}
+
+/**
+ * Components a failure affects by default on the given robot
+ */
+function defaultAffectedComponents(type: FailureType, robotType: GroundRobotType): string[] | undefined {
+  return robotType === 'quadruped' && QUADRUPED_AFFECTED_COMPONENTS[type]
+    ? QUADRUPED_AFFECTED_COMPONENTS[type]
+    : FAILURE_SCENARIOS[type].affectedComponents;
+}
+
 /**
  * Determine if a failure should be injected
  */
 export function shouldInjectFailure(
   physics: PhysicsConfig,
   simulationProgress: number,  // 0-1
-  existingEvents: SimulationEvent[]
+  existingEvents: SimulationEvent[],
+  rng: SeededRandom,
+  robotType: GroundRobotType = 'hexapod'
 ): FailureScenario | null {
   // Don't inject too many failures
   const criticalCount = existingEvents.filter(e => e.severity === 'critical').length;
@@ -144,7 +179,7 @@ export function shouldInjectFailure(
   if (warningCount >= 3) return null;
 
   // Random check against base failure rate
-  if (Math.random() > BASE_FAILURE_RATE) return null;
+  if (rng.next() > BASE_FAILURE_RATE) return null;
 
   const terrainModifiers = getTerrainModifiers(physics.terrain_type);
 
@@ -173,15 +208,15 @@ export function shouldInjectFailure(
 
   // Weighted random selection
   const totalWeight = weights.reduce((a, b) => a + b, 0);
-  let random = Math.random() * totalWeight;
+  let random = rng.next() * totalWeight;
 
   for (let i = 0; i < failureTypes.length; i++) {
     random -= weights[i];
     if (random <= 0) {
       const type = failureTypes[i];
-      const scenario = FAILURE_SCENARIOS[type];
       return {
-        ...scenario,
+        ...FAILURE_SCENARIOS[type],
+        affectedComponents: defaultAffectedComponents(type, robotType),
         probability: weights[i] / totalWeight
       };
     }
@@ -191,20 +226,183 @@ export function shouldInjectFailure(
 }
 
 /**
- * Generate simulation events based on telemetry analysis
+ * A fault active in the simulation loop, perturbing the frames it covers
+ */
+export interface ActiveFault<T extends string = FailureType> {
+  type: T;
+  severity: FailureScenario['severity'];
+  components: string[];
+  start_frame: number;
+  end_frame: number;    // inclusive
+  magnitude: number;    // 0-1 scale of the perturbation
+}
+
+/**
+ * Resolve a scheduled fault against its scenario defaults
+ */
+function activateScheduledFault<T extends string>(
+  scheduled: ScheduledFault,
+  scenario: { type: T; severity: FailureScenario['severity']; affectedComponents?: string[]; recoverable: boolean },
+  startFrame: number,
+  totalFrames: number,
+  sampleRateHz: number
+): ActiveFault<T> {
+  const durationSeconds = scheduled.duration_seconds ?? (scenario.recoverable ? SCHEDULED_FAULT_DURATION : Infinity);
+  const durationFrames = Number.isFinite(durationSeconds) ? Math.round(durationSeconds * sampleRateHz) : totalFrames;
+  return {
+    type: scenario.type,
+    severity: scheduled.severity || scenario.severity,
+    components: scheduled.component ? [scheduled.component] : scenario.affectedComponents || [],
+    start_frame: startFrame,
+    end_frame: Math.min(totalFrames - 1, startFrame + durationFrames),
+    magnitude: scheduled.magnitude ?? 1
+  };
+}
+
+/**
+ * Fault of the given type covering a frame, optionally limited to one that
+ * names the component
+ */
+function findActiveFault<T extends string>(
+  faults: ActiveFault<T>[],
+  type: T,
+  frame: number,
+  component?: string
+): ActiveFault<T> | undefined {
+  return faults.find(f =>
+    f.type === type &&
+    frame >= f.start_frame &&
+    frame <= f.end_frame &&
+    (component === undefined || f.components.includes(component))
+  );
+}
+
+/**
+ * Injects failures while telemetry is being generated so that the frames
+ * after an injected fault show its effect (temperature rise, phase lag,
+ * joint saturation, ...). The generators query active faults every frame.
+ * Faults come from the run's fault schedule and, unless disabled, from
+ * random draws at checkpoints.
+ */
+export class FaultInjector {
+  readonly events: SimulationEvent[] = [];
+  private faults: ActiveFault[] = [];
+  private currentFrame = 0;
+  private physics: PhysicsConfig;
+  private rng: SeededRandom;
+  private robotType: GroundRobotType;
+  private totalFrames: number;
+  private sampleRateHz: number;
+  private checkInterval: number;
+  private scheduled: ScheduledFault[];
+  private randomFailures: boolean;
+
+  constructor(
+    physics: PhysicsConfig,
+    rng: SeededRandom,
+    robotType: GroundRobotType,
+    durationSeconds: number,
+    sampleRateHz: number,
+    schedule: FaultSchedule = DEFAULT_FAULT_SCHEDULE
+  ) {
+    this.physics = physics;
+    this.rng = rng;
+    this.robotType = robotType;
+    this.totalFrames = Math.floor(durationSeconds * sampleRateHz);
+    this.sampleRateHz = sampleRateHz;
+    this.scheduled = schedule.faults.filter(f => isFailureType(f.type));
+    this.randomFailures = schedule.random_failures;
+
+    // Roll for a fault at ten evenly spaced checkpoints
+    this.checkInterval = Math.max(1, Math.floor(this.totalFrames / 10));
+  }
+
+  /**
+   * Advance to a frame, starting any fault scheduled for it and possibly
+   * injecting a random one at a checkpoint
+   */
+  step(frameIndex: number, timestamp: number): void {
+    this.currentFrame = frameIndex;
+
+    // Scheduled faults start on the frame nearest their start time
+    for (const scheduled of this.scheduled) {
+      if (Math.round(scheduled.at_seconds * this.sampleRateHz) !== frameIndex) continue;
+      const type = scheduled.type as FailureType;
+      const scenario = FAILURE_SCENARIOS[type];
+      const fault = activateScheduledFault(
+        scheduled,
+        { ...scenario, affectedComponents: defaultAffectedComponents(type, this.robotType) },
+        frameIndex,
+        this.totalFrames,
+        this.sampleRateHz
+      );
+      this.start(fault, scenario.message, timestamp, true);
+    }
+
+    if (!this.randomFailures || frameIndex === 0 || frameIndex % this.checkInterval !== 0) return;
+
+    const progress = frameIndex / this.totalFrames;
+    const scenario = shouldInjectFailure(this.physics, progress, this.events, this.rng, this.robotType);
+    if (!scenario) return;
+
+    // Recoverable faults last 1-3s, unrecoverable ones persist to the end of the run
+    const durationFrames = scenario.recoverable
+      ? Math.round((1 + this.rng.next() * 2) * this.sampleRateHz)
+      : this.totalFrames;
+    this.start({
+      type: scenario.type,
+      severity: scenario.severity,
+      components: scenario.affectedComponents || [],
+      start_frame: frameIndex,
+      end_frame: Math.min(this.totalFrames - 1, frameIndex + durationFrames),
+      magnitude: 0.5 + this.rng.next() * 0.5
+    }, scenario.message, timestamp, false);
+  }
+
+  /**
+   * Fault of the given type active on the current frame, optionally limited
+   * to one that names the component (joint or leg ID)
+   */
+  active(type: FailureType, component?: string): ActiveFault | undefined {
+    return findActiveFault(this.faults, type, this.currentFrame, component);
+  }
+
+  /**
+   * Activate a fault and record the event reporting it
+   */
+  private start(fault: ActiveFault, message: string, timestamp: number, scheduled: boolean): void {
+    this.faults.push(fault);
+    this.events.push({
+      timestamp,
+      type: fault.type,
+      severity: fault.severity,
+      message,
+      frame_range: { start: fault.start_frame, end: fault.end_frame },
+      data: {
+        affectedComponents: fault.components.length > 0 ? fault.components : undefined,
+        magnitude: Number(fault.magnitude.toFixed(2)),
+        ...(scheduled && { scheduled: true })
+      }
+    });
+  }
+}
+
+/**
+ * Generate simulation events from telemetry analysis and merge in the
+ * faults injected while the telemetry was generated
  */
 export function generateSimulationEvents(
   frames: TelemetryFrame[],
-  physics: PhysicsConfig
+  injectedEvents: SimulationEvent[],
+  robotType: GroundRobotType = 'hexapod'
 ): SimulationEvent[] {
   const events: SimulationEvent[] = [];
 
-  // Sample frames for potential failures (not every frame)
-  const sampleRate = Math.floor(frames.length / 10);
+  // Sample frames for telemetry anomalies (not every frame)
+  const sampleRate = Math.max(1, Math.floor(frames.length / 10));
 
   for (let i = sampleRate; i < frames.length; i += sampleRate) {
     const frame = frames[i];
-    const progress = i / frames.length;
 
     // Check for slip events in telemetry
     for (const contact of frame.contacts) {
@@ -213,61 +411,289 @@ export function generateSimulationEvents(
           timestamp: frame.timestamp,
           type: 'slip',
           severity: 'warning',
-          message: `Slippage detected on ${contact.leg_id} tarsus`,
+          message: `Slippage detected on ${contact.leg_id} ${robotType === 'quadruped' ? 'foot' : 'tarsus'}`,
           data: { leg: contact.leg_id, force: contact.force }
         });
         break; // Only one slip event per check
       }
     }
 
-    // Check for stability issues
-    if (Math.abs(frame.imu.pitch) > 20) {
+    // Check for stability issues, as tilt away from the ground underfoot
+    const pitch = frame.imu.pitch - frame.kinematics.ground_slope.pitch;
+    const roll = frame.imu.roll - frame.kinematics.ground_slope.roll;
+    if (Math.abs(pitch) > 20) {
       events.push({
         timestamp: frame.timestamp,
         type: 'stability_warning',
-        severity: frame.imu.pitch > 25 ? 'error' : 'warning',
-        message: `Body pitch deviation: ${frame.imu.pitch.toFixed(1)}°`,
-        data: { pitch: frame.imu.pitch, roll: frame.imu.roll }
+        severity: pitch > 25 ? 'error' : 'warning',
+        message: `Body pitch deviation: ${pitch.toFixed(1)}°`,
+        data: { pitch: frame.imu.pitch, roll: frame.imu.roll, true_pitch: frame.truth.imu.pitch, true_roll: frame.truth.imu.roll }
       });
     }
 
     // Check for potential rollover
-    if (Math.abs(frame.imu.pitch) > 30 || Math.abs(frame.imu.roll) > 25) {
+    if (Math.abs(pitch) > 30 || Math.abs(roll) > 25) {
       events.push({
         timestamp: frame.timestamp,
         type: 'rollover',
         severity: 'critical',
         message: 'Orientation exceeded safe limits',
-        data: { pitch: frame.imu.pitch, roll: frame.imu.roll }
+        data: { pitch: frame.imu.pitch, roll: frame.imu.roll, true_pitch: frame.truth.imu.pitch, true_roll: frame.truth.imu.roll }
       });
     }
 
-    // Check for overheat
-    if (frame.power.temperature > 50) {
+    // Check for overheat on the hottest joint winding
+    const [hottestJoint, temperature] = Object.entries(frame.joint_temperatures)
+      .reduce((hottest, entry) => entry[1] > hottest[1] ? entry : hottest, ['', -Infinity]);
+    if (temperature > 50) {
       events.push({
         timestamp: frame.timestamp,
         type: 'overheat',
+        severity: temperature > 55 ? 'error' : 'warning',
+        message: `Motor temperature elevated on ${hottestJoint}: ${temperature}°C${frame.power.throttle < 1 ? ` (throttled to ${Math.round(frame.power.throttle * 100)}% torque)` : ''}`,
+        data: { joint: hottestJoint, temperature, throttle: frame.power.throttle }
+      });
+    }
+  }
+
+  // The hexapod's gaits keep it statically stable, so flag where its centre of mass left
+  // the support polygon. Quadruped gaits stand on two feet and balance dynamically; a
+  // negative static margin is expected of them.
+  if (robotType === 'hexapod') {
+    events.push(...staticInstabilityEvents(frames));
+  }
+  events.push(...brownoutEvents(frames));
+  events.push(...imuDisagreementEvents(frames));
+  events.push(...obstacleDetectionEvents(frames, GROUND_DETECTION_RANGE));
+  events.push(...collisionEvents(frames));
+
+  // Interleave injected faults chronologically; limitEvents trims the list for the run record
+  return [...events, ...injectedEvents].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// A static instability lasting this long is an error rather than a stumble (ms)
+const SUSTAINED_INSTABILITY_MS = 500;
+
+/**
+ * One event per stretch of frames with the centre of mass outside the
+ * support polygon, carrying the worst margin reached
+ */
+function staticInstabilityEvents(frames: TelemetryFrame[]): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const framePeriod = frames.length > 1 ? frames[1].timestamp - frames[0].timestamp : 0;
+  let start = -1;
+  let worst = 0;
+
+  frames.forEach((frame, i) => {
+    const margin = frame.kinematics.stability_margin;
+    const unstable = margin !== null && margin < 0;
+    if (unstable) {
+      worst = start < 0 ? margin : Math.min(worst, margin);
+      if (start < 0) start = i;
+    }
+    if (start >= 0 && (!unstable || i === frames.length - 1)) {
+      const end = unstable ? i : i - 1;
+      const durationMs = frames[end].timestamp - frames[start].timestamp + framePeriod;
+      events.push({
+        timestamp: frames[start].timestamp,
+        type: 'static_instability',
+        severity: durationMs >= SUSTAINED_INSTABILITY_MS ? 'error' : 'warning',
+        message: `Centre of mass ${(-worst * 100).toFixed(1)}cm outside the support polygon for ${durationMs}ms`,
+        frame_range: { start, end },
+        data: {
+          min_margin: worst,
+          support_legs: frames[start].contacts.filter(c => c.in_contact).map(c => c.leg_id)
+        }
+      });
+      start = -1;
+    }
+  });
+
+  return events;
+}
+
+/**
+ * One event per brown-out: a stretch of frames with the motor drivers reset
+ * by the bus sagging below their supply limit, carrying the deepest sag
+ */
+function brownoutEvents(frames: TelemetryFrame[]): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const framePeriod = frames.length > 1 ? frames[1].timestamp - frames[0].timestamp : 0;
+  let start = -1;
+  let lowest = Infinity;
+  let peakCurrent = 0;
+
+  frames.forEach((frame, i) => {
+    const { brownout, voltage, current } = frame.power;
+    if (brownout) {
+      if (start < 0) {
+        start = i;
+        [lowest, peakCurrent] = [voltage, current];
+      }
+      lowest = Math.min(lowest, voltage);
+      peakCurrent = Math.max(peakCurrent, current);
+    }
+    if (start >= 0 && (!brownout || i === frames.length - 1)) {
+      const end = brownout ? i : i - 1;
+      const durationMs = frames[end].timestamp - frames[start].timestamp + framePeriod;
+      events.push({
+        timestamp: frames[start].timestamp,
+        type: 'power_fluctuation',
+        severity: 'error',
+        message: `Brown-out: bus sagged to ${lowest}V drawing ${peakCurrent}A at ${frames[start].power.state_of_charge}% charge - motor drivers reset for ${durationMs}ms`,
+        frame_range: { start, end },
+        data: {
+          brownout: true,
+          min_voltage: lowest,
+          peak_current: peakCurrent,
+          state_of_charge: frames[start].power.state_of_charge
+        }
+      });
+      start = -1;
+    }
+  });
+
+  return events;
+}
+
+// Range readings closer than this report an obstacle (m)
+const GROUND_DETECTION_RANGE = 1;
+const DRONE_DETECTION_RANGE = 5;
+// Clear frames shorter than this do not end a detection or collision (ms)
+const OBSTACLE_GAP_MS = 500;
+
+/**
+ * One event per stretch of frames with any range sensor reading an obstacle
+ * within the detection range, carrying the sensor and the closest reading.
+ * Readings flickering across the range merge into one stretch.
+ */
+function obstacleDetectionEvents(
+  frames: { timestamp: number; ranges: Record<string, number | number[]> }[],
+  detectionRange: number
+): (SimulationEvent & DroneSimulationEvent)[] {
+  const events: (SimulationEvent & DroneSimulationEvent)[] = [];
+  let start = -1;
+  let end = -1;
+  let closest = { sensor: '', range: Infinity };
+
+  frames.forEach((frame, i) => {
+    for (const [sensor, reading] of Object.entries(frame.ranges)) {
+      const range = Math.min(...[reading].flat());
+      if (range >= detectionRange) continue;
+      if (start < 0) {
+        start = i;
+        closest = { sensor, range };
+      } else if (range < closest.range) {
+        closest = { sensor, range };
+      }
+      end = i;
+    }
+    const cleared = start >= 0 && frame.timestamp - frames[end].timestamp > OBSTACLE_GAP_MS;
+    if (start >= 0 && (cleared || i === frames.length - 1)) {
+      events.push({
+        timestamp: frames[start].timestamp,
+        type: 'obstacle_detected',
         severity: 'warning',
-        message: `Motor temperature elevated: ${frame.power.temperature}°C`,
-        data: { temperature: frame.power.temperature }
+        message: `Obstacle ${closest.range.toFixed(2)}m away on ${closest.sensor}`,
+        frame_range: { start, end },
+        data: { sensor: closest.sensor, range: closest.range }
       });
+      start = -1;
     }
+  });
 
-    // Inject random failures based on conditions
-    const injectedFailure = shouldInjectFailure(physics, progress, events);
-    if (injectedFailure) {
+  return events;
+}
+
+/**
+ * One event per stretch of frames with the robot's outline against an
+ * obstacle, which holds it back. Stepping off and back on merges into one
+ * stretch.
+ */
+function collisionEvents(frames: TelemetryFrame[]): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  const framePeriod = frames.length > 1 ? frames[1].timestamp - frames[0].timestamp : 0;
+  let start = -1;
+  let end = -1;
+
+  frames.forEach((frame, i) => {
+    if (frame.nearest_obstacle !== null && frame.nearest_obstacle.clearance <= 0) {
+      if (start < 0) start = i;
+      end = i;
+    }
+    const cleared = start >= 0 && frame.timestamp - frames[end].timestamp > OBSTACLE_GAP_MS;
+    if (start >= 0 && (cleared || i === frames.length - 1)) {
+      const obstacle = frames[start].nearest_obstacle!.id;
+      const durationMs = frames[end].timestamp - frames[start].timestamp + framePeriod;
       events.push({
-        timestamp: frame.timestamp,
-        type: injectedFailure.type as SimulationEvent['type'],
-        severity: injectedFailure.severity,
-        message: injectedFailure.message,
-        data: { affectedComponents: injectedFailure.affectedComponents }
+        timestamp: frames[start].timestamp,
+        type: 'collision',
+        severity: 'error',
+        message: `Walked into ${obstacle} and was held against it for ${durationMs}ms`,
+        frame_range: { start, end },
+        data: { obstacle, odometry: frames[start].kinematics.odometry }
       });
+      start = -1;
     }
-  }
+  });
+
+  return events;
+}
+
+// IMU attitude this far from the true attitude is a sensor fault rather than noise (degrees)
+const IMU_DISAGREEMENT = 3;
+// Agreement shorter than this does not end a stretch of disagreement (ms)
+const IMU_AGREEMENT_GAP_MS = 500;
+
+/**
+ * One event per stretch of frames with the IMU's pitch or roll reading
+ * further from the true attitude than noise explains, carrying the worst error
+ */
+function imuDisagreementEvents(frames: TelemetryFrame[]): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+  let start = -1;
+  let end = -1;
+  let worst = 0;
+
+  frames.forEach((frame, i) => {
+    const error = Math.max(
+      Math.abs(frame.imu.pitch - frame.truth.imu.pitch),
+      Math.abs(frame.imu.roll - frame.truth.imu.roll)
+    );
+    if (error > IMU_DISAGREEMENT) {
+      worst = start < 0 ? error : Math.max(worst, error);
+      if (start < 0) start = i;
+      end = i;
+    }
+    const settled = start >= 0 && frame.timestamp - frames[end].timestamp > IMU_AGREEMENT_GAP_MS;
+    if (start >= 0 && (settled || i === frames.length - 1)) {
+      events.push({
+        timestamp: frames[start].timestamp,
+        type: 'sensor_noise',
+        severity: 'warning',
+        message: `IMU attitude up to ${worst.toFixed(1)}° off the true attitude`,
+        frame_range: { start, end },
+        data: { max_error: Number(worst.toFixed(2)) }
+      });
+      start = -1;
+    }
+  });
 
-  // Limit total events
-  return events.slice(0, 10);
+  return events;
+}
+
+// Events kept on a run record, besides scheduled faults and critical events
+const MAX_RUN_EVENTS = 10;
+
+/**
+ * Trim a run's chronological events to the earliest few, always keeping
+ * scheduled faults and critical events so a scripted or run-ending failure
+ * is never dropped
+ */
+export function limitEvents<T extends SimulationEvent | DroneSimulationEvent>(events: T[]): T[] {
+  const kept = (event: T) => event.severity === 'critical' || event.data?.scheduled === true;
+  let remaining = MAX_RUN_EVENTS - events.filter(kept).length;
+  return events.filter(event => kept(event) || remaining-- > 0);
 }
 
 /**
@@ -289,17 +715,29 @@ export function generateRecommendations(
 
   for (const event of events) {
     switch (event.type) {
-      case 'slip':
-        if (physics.friction_coefficient < 0.7) {
+      case 'slip': {
+        // Feet cannot hold on an incline whose gradient exceeds the friction coefficient
+        const steepest = Math.max(0, ...physics.terrain.features.map(f => f.type === 'incline' ? Math.abs(f.angle) : 0));
+        const gradient = Math.tan(steepest * Math.PI / 180);
+        if (steepest > 0 && gradient >= physics.friction_coefficient) {
+          recommendations.push(`The ${steepest}° incline on ${physics.terrain.name} needs friction_coefficient above ${gradient.toFixed(2)} for the feet to hold`);
+        } else if (physics.friction_coefficient < 0.7) {
           recommendations.push(`Increase friction_coefficient to ${Math.min(1.0, physics.friction_coefficient + 0.15).toFixed(2)} for ${physics.terrain_type} terrain`);
         }
         recommendations.push('Consider reducing gait speed during stance phase');
         break;
+      }
 
-      case 'overheat':
-        recommendations.push('Reduce pid_p gain to decrease motor effort');
-        recommendations.push('Consider implementing thermal throttling');
+      case 'overheat': {
+        const joint: string = event.data?.joint || 'the hot joint';
+        recommendations.push(`Reduce pid_p on ${joint} to decrease motor effort`);
+        if (!physics.thermal.throttling) {
+          recommendations.push(`Enable thermal_throttling to derate torque above ${physics.thermal.throttle_temperature}°C`);
+        } else if (physics.thermal.ambient_temperature > 35) {
+          recommendations.push(`Ambient ${physics.thermal.ambient_temperature}°C leaves little cooling headroom; shorten runs or cool the motors`);
+        }
         break;
+      }
 
       case 'stability_warning':
       case 'rollover':
@@ -307,10 +745,42 @@ export function generateRecommendations(
         recommendations.push('Increase pid_d on affected legs to dampen oscillations');
         break;
 
-      case 'gait_mismatch':
-        recommendations.push(`Reduce pid_p on ${event.data?.affectedComponents?.[0] || 'leg_2'}_femur to dampen oscillation`);
+      case 'gait_mismatch': {
+        const leg: string = event.data?.affectedComponents?.[0] || 'leg_2';
+        recommendations.push(`Reduce pid_p on ${leg}_${leg.startsWith('leg_') ? 'femur' : 'hip'} to dampen oscillation`);
         recommendations.push('Verify gait timing synchronization');
         break;
+      }
+
+      case 'static_instability':
+        recommendations.push('Raise duty_factor or switch to the ripple or wave gait to keep more feet on the ground');
+        recommendations.push('Reduce coxa_amplitude so the stance feet stay spread around the centre of mass');
+        break;
+
+      case 'power_fluctuation':
+        if (!event.data?.brownout) {
+          recommendations.push('Inspect the battery connector and power wiring for intermittent contact');
+        } else if ((event.data.state_of_charge ?? 100) < 20) {
+          recommendations.push(`Recharge the battery; at ${event.data.state_of_charge}% the pack sags below the drivers' supply limit under load`);
+        } else {
+          recommendations.push('Lower torque_limit or pid_p to cut peak current, or fit a battery with lower internal_resistance');
+        }
+        break;
+
+      case 'obstacle_detected':
+      case 'collision': {
+        const obstacle: string = event.data?.obstacle || 'the obstacle';
+        if (event.type === 'collision') {
+          recommendations.push(`Plan the route around ${obstacle}; the robot has no avoidance and stops against it`);
+        }
+        recommendations.push('Stop or turn when lidar_front reads under 1m, or mount a scan_2d sensor with configure_range_sensors to see to the sides');
+        break;
+      }
+
+      case 'sensor_noise':
+        recommendations.push('Compare imu against truth.imu in the telemetry; an error well above accel_noise_density and gyro_noise_density points to a failing IMU');
+        recommendations.push('Isolate the IMU from frame vibration or lower its noise densities with configure_sensors');
+        break;
     }
   }
 
@@ -402,7 +872,7 @@ const DRONE_FAILURE_SCENARIOS: Record<DroneFailureType, Omit<DroneFailureScenari
     severity: 'error',
     message: 'Motor RPM variance exceeded threshold - degraded performance',
     affectedComponents: ['rotor_fr'],
-    recoverable: true
+    recoverable: false
   },
   gps_loss: {
     type: 'gps_loss',
@@ -448,13 +918,142 @@ const DRONE_FAILURE_SCENARIOS: Record<DroneFailureType, Omit<DroneFailureScenari
   }
 };
 
+/**
+ * Check whether a name is a drone failure type
+ */
+export function isDroneFailureType(type: string): type is DroneFailureType {
+  return Object.keys(DRONE_FAILURE_SCENARIOS).includes(type);
+}
+
+/**
+ * Components a drone failure affects by default on an airframe. Scenarios
+ * name quadcopter rotors; other layouts use the rotor in the same
+ * (front-right) quadrant.
+ */
+function defaultDroneAffectedComponents(type: DroneFailureType, rotors: RotorMount[]): string[] | undefined {
+  const components = DRONE_FAILURE_SCENARIOS[type].affectedComponents;
+  if (!components || rotors.length === 0) return components;
+  const frontRight = rotors.find(r => r.x > 0 && r.y > 0) ?? rotors[0];
+  return components.map(id => rotors.some(r => r.id === id) ? id : frontRight.id);
+}
+
+/**
+ * Injects a drone run's faults inside the flight loop so the frames they
+ * cover show their effect (lost thrust, a climb away, a noisy fix, ...).
+ * Faults come from the run's fault schedule and, unless disabled, from
+ * random draws at checkpoints.
+ */
+export class DroneFaultInjector {
+  readonly events: DroneSimulationEvent[] = [];
+  readonly rotors: RotorMount[];
+  private faults: ActiveFault<DroneFailureType>[] = [];
+  private currentFrame = 0;
+  private physics: DronePhysicsConfig;
+  private rng: SeededRandom;
+  private totalFrames: number;
+  private sampleRateHz: number;
+  private checkInterval: number;
+  private scheduled: ScheduledFault[];
+  private randomFailures: boolean;
+
+  constructor(
+    physics: DronePhysicsConfig,
+    rng: SeededRandom,
+    durationSeconds: number,
+    sampleRateHz: number,
+    schedule: FaultSchedule = DEFAULT_FAULT_SCHEDULE,
+    rotors: RotorMount[] = []
+  ) {
+    this.physics = physics;
+    this.rng = rng;
+    this.totalFrames = Math.floor(durationSeconds * sampleRateHz);
+    this.sampleRateHz = sampleRateHz;
+    this.scheduled = schedule.faults.filter(f => isDroneFailureType(f.type));
+    this.randomFailures = schedule.random_failures;
+    this.rotors = rotors;
+
+    // Roll for a fault at ten evenly spaced checkpoints
+    this.checkInterval = Math.max(1, Math.floor(this.totalFrames / 10));
+  }
+
+  /**
+   * Advance to a frame, starting any fault scheduled for it and possibly
+   * injecting a random one at a checkpoint
+   */
+  step(frameIndex: number, timestamp: number): void {
+    this.currentFrame = frameIndex;
+
+    for (const scheduled of this.scheduled) {
+      if (Math.round(scheduled.at_seconds * this.sampleRateHz) !== frameIndex) continue;
+      const type = scheduled.type as DroneFailureType;
+      const scenario = { ...DRONE_FAILURE_SCENARIOS[type], affectedComponents: defaultDroneAffectedComponents(type, this.rotors) };
+      const fault = activateScheduledFault(scheduled, scenario, frameIndex, this.totalFrames, this.sampleRateHz);
+      this.start(fault, scenario.message, timestamp, true);
+    }
+
+    if (!this.randomFailures || frameIndex === 0 || frameIndex % this.checkInterval !== 0) return;
+
+    const progress = frameIndex / this.totalFrames;
+    const scenario = shouldInjectDroneFailure(this.physics, progress, this.events, this.rng);
+    if (!scenario) return;
+
+    // Recoverable faults last 1-3s, unrecoverable ones persist to the end of the flight
+    const durationFrames = scenario.recoverable
+      ? Math.round((1 + this.rng.next() * 2) * this.sampleRateHz)
+      : this.totalFrames;
+    this.start({
+      type: scenario.type,
+      severity: scenario.severity,
+      components: defaultDroneAffectedComponents(scenario.type, this.rotors) || [],
+      start_frame: frameIndex,
+      end_frame: Math.min(this.totalFrames - 1, frameIndex + durationFrames),
+      magnitude: 0.5 + this.rng.next() * 0.5
+    }, scenario.message, timestamp, false);
+  }
+
+  /**
+   * Activate a fault and record the event reporting it
+   */
+  private start(fault: ActiveFault<DroneFailureType>, message: string, timestamp: number, scheduled: boolean): void {
+    this.faults.push(fault);
+    this.events.push({
+      timestamp,
+      type: fault.type,
+      severity: fault.severity,
+      message,
+      frame_range: { start: fault.start_frame, end: fault.end_frame },
+      data: {
+        affectedComponents: fault.components.length > 0 ? fault.components : undefined,
+        magnitude: Number(fault.magnitude.toFixed(2)),
+        ...(scheduled && { scheduled: true })
+      }
+    });
+  }
+
+  /**
+   * Record an event raised by the vehicle itself during the flight, such as a failsafe engaging
+   */
+  record(event: DroneSimulationEvent): void {
+    this.events.push(event);
+  }
+
+  /**
+   * Fault of the given type active on the current frame, optionally limited
+   * to one that names the component (rotor ID)
+   */
+  active(type: DroneFailureType, component?: string): ActiveFault<DroneFailureType> | undefined {
+    return findActiveFault(this.faults, type, this.currentFrame, component);
+  }
+}
+
 /**
  * Determine if a drone failure should be injected
  */
 export function shouldInjectDroneFailure(
   physics: DronePhysicsConfig,
   flightProgress: number,
-  existingEvents: DroneSimulationEvent[]
+  existingEvents: DroneSimulationEvent[],
+  rng: SeededRandom
 ): DroneFailureScenario | null {
   // Don't inject too many failures
   const criticalCount = existingEvents.filter(e => e.severity === 'critical').length;
@@ -464,7 +1063,7 @@ export function shouldInjectDroneFailure(
   if (warningCount >= 3) return null;
 
   // Random check against base failure rate
-  if (Math.random() > DRONE_BASE_FAILURE_RATE) return null;
+  if (rng.next() > DRONE_BASE_FAILURE_RATE) return null;
 
   const airspaceModifiers = getAirspaceModifiers(physics.airspace_condition);
 
@@ -473,16 +1072,22 @@ export function shouldInjectDroneFailure(
   const weights = failureTypes.map(type => {
     let weight = airspaceModifiers[type];
 
+    // The range sensors detect obstacles in the world; only a scheduled fault fakes a detection
+    if (type === 'obstacle_detected') {
+      return 0;
+    }
+
+    // The battery drains and the failsafe watches the geofence in the flight itself; only a
+    // scheduled fault forces either
+    if (type === 'low_battery' || type === 'geofence_breach') {
+      return 0;
+    }
+
     // Adjust based on wind speed
     if (type === 'wind_warning') {
       weight *= (physics.wind_speed / 5); // Higher weight for stronger winds
     }
 
-    // Low battery more likely later in flight
-    if (type === 'low_battery') {
-      weight *= (0.3 + flightProgress);
-    }
-
     // GPS issues more common at low altitude
     if (type === 'gps_loss') {
       weight *= (1 - flightProgress * 0.3);
@@ -498,7 +1103,7 @@ export function shouldInjectDroneFailure(
 
   // Weighted random selection
   const totalWeight = weights.reduce((a, b) => a + b, 0);
-  let random = Math.random() * totalWeight;
+  let random = rng.next() * totalWeight;
 
   for (let i = 0; i < failureTypes.length; i++) {
     random -= weights[i];
@@ -516,20 +1121,29 @@ export function shouldInjectDroneFailure(
 }
 
 /**
- * Generate drone simulation events based on telemetry analysis
+ * Horizontal distance (m) from a frame's GPS fix to the drone's true position
+ */
+function gpsError(frame: DroneTelemetryFrame): number {
+  const north = (frame.position.lat - frame.truth.position.lat) * 111000; // ~111km per degree
+  const east = (frame.position.lon - frame.truth.position.lon) * 111000 * Math.cos(frame.truth.position.lat * Math.PI / 180);
+  return Math.hypot(north, east);
+}
+
+/**
+ * Generate drone simulation events based on telemetry analysis and merge in
+ * the faults injected during the flight
  */
 export function generateDroneSimulationEvents(
   frames: DroneTelemetryFrame[],
-  physics: DronePhysicsConfig
+  faults: DroneFaultInjector
 ): DroneSimulationEvent[] {
   const events: DroneSimulationEvent[] = [];
 
   // Sample frames for potential failures
-  const sampleRate = Math.floor(frames.length / 10);
+  const sampleRate = Math.max(1, Math.floor(frames.length / 10));
 
   for (let i = sampleRate; i < frames.length; i += sampleRate) {
     const frame = frames[i];
-    const progress = i / frames.length;
 
     // Check for GPS quality issues
     if (frame.gps_quality < 70) {
@@ -538,7 +1152,7 @@ export function generateDroneSimulationEvents(
         type: 'gps_loss',
         severity: frame.gps_quality < 50 ? 'error' : 'warning',
         message: `GPS quality degraded to ${frame.gps_quality}%`,
-        data: { gps_quality: frame.gps_quality }
+        data: { gps_quality: frame.gps_quality, gps_error: Number(gpsError(frame).toFixed(2)) }
       });
     }
 
@@ -564,46 +1178,41 @@ export function generateDroneSimulationEvents(
       });
     }
 
-    // Check for attitude anomalies (possible wind)
+    // Check for attitude anomalies (possible wind), with the wind sampled at the same moment
     if (Math.abs(frame.attitude.roll) > 15 || Math.abs(frame.attitude.pitch) > 15) {
+      const gustNote = frame.wind.gust > 1 ? ` during a ${frame.wind.gust.toFixed(1)}m/s gust` : '';
       events.push({
         timestamp: frame.timestamp,
         type: 'wind_warning',
         severity: 'warning',
-        message: `Excessive attitude deviation: roll=${frame.attitude.roll.toFixed(1)}°, pitch=${frame.attitude.pitch.toFixed(1)}°`,
-        data: { roll: frame.attitude.roll, pitch: frame.attitude.pitch }
+        message: `Excessive attitude deviation: roll=${frame.attitude.roll.toFixed(1)}°, pitch=${frame.attitude.pitch.toFixed(1)}°${gustNote}`,
+        data: { roll: frame.attitude.roll, pitch: frame.attitude.pitch, true_attitude: frame.truth.attitude, wind: frame.wind }
       });
     }
 
-    // Check for rotor RPM variance (motor issues)
-    const avgRPM = frame.rotor_speeds.reduce((a, b) => a + b, 0) / 4;
-    const maxVariance = Math.max(...frame.rotor_speeds.map(r => Math.abs(r - avgRPM)));
+    // Check for rotor RPM variance (motor issues), against the rotors in the same layer since
+    // the lower rotors of coaxial pairs run faster
+    const variances = frame.rotor_speeds.map((rpm, r) => {
+      const layer = frame.rotor_speeds.filter((_, o) => faults.rotors[o]?.z === faults.rotors[r]?.z);
+      return Math.abs(rpm - layer.reduce((a, b) => a + b, 0) / layer.length);
+    });
+    const maxVariance = Math.max(...variances);
     if (maxVariance > 500) {
-      const problemRotor = frame.rotor_speeds.findIndex(r => Math.abs(r - avgRPM) === maxVariance);
+      const problemRotor = variances.indexOf(maxVariance);
       events.push({
         timestamp: frame.timestamp,
         type: 'motor_failure',
         severity: maxVariance > 1000 ? 'error' : 'warning',
-        message: `Rotor ${problemRotor + 1} showing ${maxVariance.toFixed(0)} RPM variance`,
+        message: `${faults.rotors[problemRotor]?.id ?? `Rotor ${problemRotor + 1}`} showing ${maxVariance.toFixed(0)} RPM variance`,
         data: { rotor: problemRotor, variance: maxVariance, rpm: frame.rotor_speeds[problemRotor] }
       });
     }
-
-    // Inject random failures based on conditions
-    const injectedFailure = shouldInjectDroneFailure(physics, progress, events);
-    if (injectedFailure) {
-      events.push({
-        timestamp: frame.timestamp,
-        type: injectedFailure.type,
-        severity: injectedFailure.severity,
-        message: injectedFailure.message,
-        data: { affectedComponents: injectedFailure.affectedComponents }
-      });
-    }
   }
 
-  // Limit total events
-  return events.slice(0, 10);
+  events.push(...obstacleDetectionEvents(frames, DRONE_DETECTION_RANGE));
+
+  // Interleave injected faults chronologically; limitEvents trims the list for the run record
+  return [...events, ...faults.events].sort((a, b) => a.timestamp - b.timestamp);
 }
 
 /**
@@ -663,11 +1272,32 @@ export function generateDroneRecommendations(
         recommendations.push('Increase minimum safe distance parameter');
         break;
 
+      case 'collision':
+        recommendations.push(`Route the mission around ${event.data?.obstacle || 'the obstacle'} with waypoints, or fly above it`);
+        recommendations.push('Hold position when lidar_scan reads under 5m in the direction of travel');
+        break;
+
       case 'flyaway':
         recommendations.push('Check compass calibration and magnetic interference');
         recommendations.push('Verify failsafe settings are configured correctly');
         recommendations.push('Review flight logs for root cause analysis');
         break;
+
+      case 'crash':
+        recommendations.push('Review the flight leading up to impact for saturated or failed rotors');
+        recommendations.push('Enable the motor failure failsafe so a degraded airframe lands in place');
+        break;
+
+      case 'failsafe_rth':
+      case 'failsafe_land':
+        if (event.data?.trigger === 'motor_failure') {
+          recommendations.push('Consider a hexacopter or coaxial frame for rotor redundancy');
+        } else if (event.data?.trigger === 'geofence') {
+          recommendations.push('Keep mission waypoints well inside the geofence, allowing for wind drift');
+        } else {
+          recommendations.push('Plan missions to finish with a battery reserve above the RTH threshold');
+        }
+        break;
     }
   }
 
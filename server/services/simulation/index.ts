@@ -1,18 +1,44 @@
 // Simulation Service - Main orchestrator and tool dispatcher
 
-import { stateStore, DEFAULT_DRONE_PHYSICS } from './state';
+import {
+  stateStore,
+  DEFAULT_DRONE_PHYSICS,
+  AIRFRAME_PRESETS,
+  createAirframe,
+  cloneFlightController,
+  cloneMission,
+  cloneFailsafe,
+  cloneAirframe,
+  cloneRangeSensor
+} from './state';
+import { SeededRandom, generateSeed } from './random';
+import { BUILTIN_ROBOT_MODELS, robotModelFromUrdf, robotMass } from './robot';
+import { TERRAIN_PRESETS, terrainFromFile } from './terrain';
+import { renderGroundRun, renderDroneRun, renderUrl } from './render';
 import {
   generateTelemetryStream,
   analyzeTelemetry,
   generateTelemetrySummary,
+  minimumStanceLegs,
+  generateQuadrupedTelemetryStream,
+  analyzeQuadrupedTelemetry,
   generateDroneTelemetryStream,
   analyzeDroneTelemetry,
   analyzeDroneFlightPath,
-  generateDroneTelemetrySummary
+  generateDroneTelemetrySummary,
+  estimateMissionDuration,
+  analyzeDroneFailsafe,
+  geofenceExcursionAt,
+  airframeHoverRPM
 } from './telemetry';
 import {
+  FaultInjector,
+  DroneFaultInjector,
+  isFailureType,
+  isDroneFailureType,
   generateSimulationEvents,
   shouldSimulationFail,
+  limitEvents,
   generateRecommendations,
   generateDroneSimulationEvents,
   shouldDroneSimulationFail,
@@ -22,44 +48,74 @@ import {
   ToolExecutionResult,
   ToolError,
   ConfigurePhysicsResult,
+  ConfigureDronePhysicsResult,
+  ConfigureGaitResult,
+  GaitConfig,
+  DEFAULT_GAIT,
+  HEXAPOD_GAIT_PATTERNS,
   UpdateMotorResult,
+  LoadRobotDescriptionResult,
+  RobotModel,
+  RotorMount,
+  GROUND_ROBOT_TYPES,
+  UpdateFlightControllerResult,
+  FlightControllerConfig,
   RunSimulationResult,
   AnalyzeVideoResult,
   SearchKnowledgeBaseResult,
   StartAutonomousResearchResult,
   SimulationRun,
   PhysicsConfig,
+  IntegratorConfig,
+  ThermalConfig,
+  BatteryConfig,
+  ConfigureBatteryResult,
+  SensorConfig,
+  ConfigureSensorsResult,
+  Obstacle,
+  ConfigureObstaclesResult,
+  RangeSensorConfig,
+  RangeSensorPlatform,
+  ConfigureRangeSensorsResult,
+  IntegrationMethod,
+  INTEGRATION_METHODS,
+  MotorParams,
+  TelemetryFrame,
+  SimulationEvent,
+  SimulationMetrics,
+  ReplayRunResult,
+  InjectFailureResult,
+  ScheduledFault,
+  FaultSchedule,
+  SessionState,
+  GroundRobotType,
+  QuadrupedGait,
+  QUADRUPED_GAITS,
   EnhancedAutonomousResearchResult,
   DroneRunSimulationResult,
+  DroneReplayRunResult,
   DronePhysicsConfig,
-  DroneSimulationEvent
+  DroneSimulationRun,
+  DroneTelemetryFrame,
+  DroneSimulationEvent,
+  DroneSimulationMetrics,
+  DroneFlightPath,
+  FailsafeReport,
+  DroneMission,
+  MissionWaypoint,
+  SetMissionResult,
+  FailsafeConfig,
+  ConfigureFailsafeResult,
+  AirframeConfig,
+  AirframeType,
+  AIRFRAME_TYPES,
+  ConfigureAirframeResult
 } from './types';
 
-// R2 Video URL mapping per robot type
-const R2_VIDEO_BASE = 'https://pub-d81bd376745a4ee1b9073461f2c2651d.r2.dev';
-const R2_VIDEO_MAP: Record<string, string> = {
-  drone: `${R2_VIDEO_BASE}/uav_scenes.mp4`,
-  uav: `${R2_VIDEO_BASE}/uav_scenes.mp4`,
-  quadcopter: `${R2_VIDEO_BASE}/uav_scenes.mp4`,
-  aerial: `${R2_VIDEO_BASE}/uav_scenes.mp4`,
-  // Add more robot types as videos become available:
-  // hexapod: `${R2_VIDEO_BASE}/hexapod_scenes.mp4`,
-  // quadruped: `${R2_VIDEO_BASE}/quadruped_scenes.mp4`,
-};
-
-/**
- * Look up R2 video URL for a robot type, returns undefined if none available
- */
-function getR2VideoUrl(robotType: string): string | undefined {
-  const key = robotType.toLowerCase();
-  // Check for exact match first
-  if (R2_VIDEO_MAP[key]) return R2_VIDEO_MAP[key];
-  // Check for partial matches (e.g., "quadcopter_v2" matches "quadcopter")
-  for (const [mapKey, url] of Object.entries(R2_VIDEO_MAP)) {
-    if (key.includes(mapKey)) return url;
-  }
-  return undefined;
-}
+// Renderings kept for repeat requests: the UI and the video upload fetch the same run,
+// often while it is still being drawn
+const RENDER_CACHE_SIZE = 8;
+const renderCache = new Map<string, Promise<Buffer>>();
 
 /**
  * Generate random delay within a range
@@ -84,6 +140,333 @@ function generateRunId(): string {
   return `sim_${timestamp}_${random}`;
 }
 
+/**
+ * Generate a unique drone flight ID
+ */
+function generateFlightId(): string {
+  return `flight_${Math.floor(Date.now() / 1000)}_${Math.random().toString(36).substring(2, 6)}`;
+}
+
+/**
+ * Copy motor params so a stored run is unaffected by later tuning
+ */
+function snapshotMotors(motors: Map<string, MotorParams>): Map<string, MotorParams> {
+  const snapshot = new Map<string, MotorParams>();
+  for (const [jointId, params] of motors) {
+    snapshot.set(jointId, { ...params });
+  }
+  return snapshot;
+}
+
+/**
+ * Format events into short summary lines
+ */
+function summarizeEvents(events: { severity: string; message: string; timestamp: number }[]): string[] | undefined {
+  return events.length > 0
+    ? events.slice(0, 3).map(e => `[${e.severity.toUpperCase()}] ${e.message} at t=${(e.timestamp / 1000).toFixed(1)}s`)
+    : undefined;
+}
+
+/**
+ * Run record fields that fully determine a ground run's output
+ */
+type GroundRunConfig = Pick<
+  SimulationRun,
+  'duration_requested' | 'seed' | 'robot_type' | 'robot_model' | 'gait_config' | 'quadruped_gait' | 'physics_config' | 'motor_configs' | 'battery_config' | 'sensor_config' | 'obstacles' | 'range_sensors' | 'fault_schedule'
+>;
+
+/**
+ * Flight record fields that fully determine a drone flight's output
+ */
+type DroneRunConfig = Pick<
+  DroneSimulationRun,
+  'duration_requested' | 'seed' | 'physics_config' | 'flight_controller' | 'airframe' | 'mission' | 'failsafe' | 'sensor_config' | 'obstacles' | 'range_sensors' | 'fault_schedule'
+>;
+
+/**
+ * Arguments accepted by configure_physics
+ */
+interface ConfigurePhysicsArgs extends IntegratorArgs, ThermalArgs {
+  gravity?: number;
+  friction_coefficient?: number;
+  terrain_type?: string;
+  terrain_roughness?: number;
+  terrain?: string;
+  terrain_file?: string;
+}
+
+/**
+ * Motor thermal arguments accepted by configure_physics
+ */
+interface ThermalArgs {
+  ambient_temperature?: number;
+  thermal_throttling?: boolean;
+  throttle_temperature?: number;
+  max_temperature?: number;
+}
+
+/**
+ * Arguments accepted by configure_battery
+ */
+interface ConfigureBatteryArgs {
+  cells?: number;
+  capacity?: number;
+  internal_resistance?: number;
+  initial_charge?: number;
+  brownout_voltage?: number;
+}
+
+/**
+ * Arguments accepted by configure_sensors
+ */
+type ConfigureSensorsArgs = Partial<SensorConfig>;
+
+/**
+ * Arguments accepted by configure_obstacles
+ */
+interface ConfigureObstaclesArgs {
+  obstacles?: {
+    id?: string;
+    type?: string;
+    x?: number;
+    y?: number;
+    length?: number;
+    width?: number;
+    radius?: number;
+    height?: number;
+    yaw?: number;
+  }[];
+  clear?: boolean;
+}
+
+/**
+ * Arguments accepted by configure_range_sensors
+ */
+interface ConfigureRangeSensorsArgs {
+  robot_type?: string;
+  sensors?: {
+    sensor_id?: string;
+    type?: string;
+    mount_x?: number;
+    mount_y?: number;
+    mount_z?: number;
+    direction?: number;
+    fov?: number;
+    beams?: number;
+    max_range?: number;
+    noise?: number;
+    remove?: boolean;
+  }[];
+  replace?: boolean;
+}
+
+/**
+ * Arguments accepted by load_robot_description
+ */
+interface LoadRobotDescriptionArgs {
+  urdf?: string;
+  robot_type?: string;
+}
+
+/**
+ * Arguments accepted by configure_gait
+ */
+interface ConfigureGaitArgs {
+  pattern?: string;
+  frequency?: number;
+  duty_factor?: number;
+  phase_offsets?: number[];
+  coxa_amplitude?: number;
+  femur_amplitude?: number;
+  tibia_amplitude?: number;
+  joint_amplitudes?: { joint_id: string; amplitude: number }[];
+}
+
+/**
+ * Body dynamics integrator arguments accepted by configure_physics and configure_drone_physics
+ */
+interface IntegratorArgs {
+  integrator?: string;
+  substeps?: number;
+}
+
+/**
+ * Arguments accepted by inject_failure
+ */
+interface InjectFailureArgs {
+  failure_type?: string;
+  at_seconds?: number;
+  component?: string;
+  severity?: ScheduledFault['severity'];
+  magnitude?: number;
+  duration_seconds?: number;
+  random_failures?: boolean;
+  clear?: boolean;
+}
+
+/**
+ * Arguments accepted by update_flight_controller
+ */
+interface UpdateFlightControllerArgs {
+  altitude_p?: number;
+  altitude_i?: number;
+  altitude_d?: number;
+  attitude_p?: number;
+  attitude_i?: number;
+  attitude_d?: number;
+  position_p?: number;
+  position_i?: number;
+  position_d?: number;
+  yaw_p?: number;
+  yaw_i?: number;
+  yaw_d?: number;
+  rotor_loss_strategy?: string;
+  kv_rating?: number;
+  max_current?: number;
+  response_time?: number;
+}
+
+/**
+ * Arguments accepted by set_mission, and by run_simulation's mission override
+ */
+interface MissionArgs {
+  home_lat?: number;
+  home_lon?: number;
+  takeoff_altitude?: number;
+  hover_seconds?: number;
+  waypoints?: Partial<MissionWaypoint>[];
+  landing_lat?: number;
+  landing_lon?: number;
+}
+
+/**
+ * Arguments accepted by configure_failsafe
+ */
+interface ConfigureFailsafeArgs {
+  geofence_enabled?: boolean;
+  geofence_shape?: string;
+  geofence_radius?: number;
+  geofence_polygon?: { lat: number; lon: number }[];
+  max_altitude?: number;
+  rth_battery_threshold?: number;
+  land_battery_threshold?: number;
+  rth_altitude?: number;
+  breach_action?: string;
+  motor_failure_action?: string;
+}
+
+/**
+ * Arguments accepted by configure_airframe
+ */
+interface ConfigureAirframeArgs {
+  airframe_type?: string;
+  mass?: number;
+  arm_length?: number;
+  thrust_coefficient?: number;
+  torque_coefficient?: number;
+  battery_capacity?: number;
+}
+
+/**
+ * Fault schedule arguments accepted by run_simulation
+ */
+interface RunFaultScheduleArgs {
+  fault_schedule?: ScheduledFault[];
+  random_failures?: boolean;
+}
+
+// Integrator limits
+const INTEGRATOR_SUBSTEP_RANGE = { min: 1, max: 20 };
+
+// Battery limits
+const BATTERY_CELL_RANGE = { min: 1, max: 14 };
+const BATTERY_CAPACITY_RANGE = { min: 0.5, max: 50 };            // Ah
+const BATTERY_RESISTANCE_RANGE = { min: 0.005, max: 2 };         // Ω
+const MIN_CELL_VOLTAGE = 3.0;                                    // V, LiPo cells are damaged below this
+
+// Sensor limits
+const SENSOR_RANGES: Record<keyof SensorConfig, { min: number; max: number }> = {
+  accel_noise_density: { min: 0, max: 2 },          // m/s²/√Hz
+  accel_bias_drift: { min: 0, max: 0.1 },           // m/s² per √s
+  gyro_noise_density: { min: 0, max: 1 },           // deg/s/√Hz
+  gyro_bias_drift: { min: 0, max: 0.5 },            // deg/s per √s
+  gps_latency: { min: 0, max: 2 },                  // s
+  gps_noise: { min: 0, max: 10 },                   // m
+  gps_multipath: { min: 0, max: 20 },               // m
+  contact_false_positive_rate: { min: 0, max: 0.5 },
+  dropout_rate: { min: 0, max: 0.5 }
+};
+
+// Obstacle limits (m)
+const OBSTACLE_POSITION_RANGE = { min: -1000, max: 1000 };
+const OBSTACLE_SIZE_RANGE = { min: 0.05, max: 100 };        // box length and width, cylinder radius
+const OBSTACLE_HEIGHT_RANGE = { min: 0.01, max: 200 };
+const DEFAULT_OBSTACLE_SIZE = 1;
+const DEFAULT_OBSTACLE_RADIUS = 0.25;
+
+// Range sensor limits
+const RANGE_SENSOR_TYPES: RangeSensorConfig['type'][] = ['single_beam', 'scan_2d'];
+const RANGE_SENSOR_MOUNT_RANGE = { min: -2, max: 2 };      // m from the body centre
+const RANGE_SENSOR_RANGES: Record<'fov' | 'beams' | 'max_range' | 'noise', { min: number; max: number }> = {
+  fov: { min: 1, max: 360 },             // degrees
+  beams: { min: 2, max: 360 },           // rays across a scan
+  max_range: { min: 0.1, max: 100 },     // m
+  noise: { min: 0, max: 1 }              // m
+};
+
+// Thermal limits (Celsius)
+const AMBIENT_TEMPERATURE_RANGE = { min: -20, max: 50 };
+const WINDING_TEMPERATURE_RANGE = { min: 30, max: 120 };   // throttle and maximum winding temperatures
+
+// Mission limits
+const MISSION_ALTITUDE_RANGE = { min: 1, max: 120 };   // m, kept under typical regulatory ceilings
+const MISSION_SPEED_RANGE = { min: 0.5, max: 15 };     // m/s
+const MISSION_HOLD_RANGE = { min: 0, max: 300 };       // s, hover over home and loiter at a waypoint
+const MISSION_MAX_RANGE = 1000;                        // m from home before warning
+
+// Airframe limits
+const AIRFRAME_MASS_RANGE = { min: 0.2, max: 25 };     // kg, small quads up to heavy-lift octos
+const AIRFRAME_ARM_RANGE = { min: 0.05, max: 1.5 };    // m
+const MIN_THRUST_TO_WEIGHT = 1.5;                      // below this there is little margin to manoeuvre
+
+// Part of the robot a fault's component names; the other faults act on the whole robot
+const FAULT_COMPONENT_KINDS: Record<string, 'joint' | 'leg' | 'rotor'> = {
+  motor_overheat: 'joint',
+  joint_limit_exceeded: 'joint',
+  slip_event: 'leg',
+  gait_mismatch: 'leg',
+  motor_failure: 'rotor'
+};
+
+/**
+ * Joints, legs and rotors a scheduled fault may name
+ */
+interface FaultTargets {
+  robot: string;     // what the targets belong to, for error messages
+  joint: string[];
+  leg: string[];
+  rotor: string[];
+}
+
+/**
+ * Fault targets on ground robot models
+ */
+function groundFaultTargets(robot: string, models: RobotModel[]): FaultTargets {
+  return {
+    robot,
+    joint: models.flatMap(model => model.joints.map(joint => joint.joint_id)),
+    leg: models.flatMap(model => model.legs.map(leg => leg.leg_id)),
+    rotor: []
+  };
+}
+
+/**
+ * Fault targets on a drone airframe
+ */
+function droneFaultTargets(robot: string, rotors: RotorMount[]): FaultTargets {
+  return { robot, joint: [], leg: [], rotor: rotors.map(rotor => rotor.id) };
+}
+
 /**
  * Knowledge base mock data
  */
@@ -202,15 +585,67 @@ export class SimulationService {
 
       switch (toolName) {
         case 'configure_physics':
-          result = await this.configurePhysics(sessionId, args as { gravity?: number; friction_coefficient?: number; terrain_type?: string });
+          result = await this.configurePhysics(sessionId, args as ConfigurePhysicsArgs);
+          break;
+
+        case 'configure_battery':
+          result = await this.configureBattery(sessionId, args as ConfigureBatteryArgs);
+          break;
+
+        case 'configure_sensors':
+          result = await this.configureSensors(sessionId, args as ConfigureSensorsArgs);
+          break;
+
+        case 'configure_obstacles':
+          result = await this.configureObstacles(sessionId, args as ConfigureObstaclesArgs);
+          break;
+
+        case 'configure_range_sensors':
+          result = await this.configureRangeSensors(sessionId, args as ConfigureRangeSensorsArgs);
+          break;
+
+        case 'configure_drone_physics':
+          result = await this.configureDronePhysics(sessionId, args as { air_density?: number; wind_speed?: number; wind_direction?: number; airspace_condition?: string } & IntegratorArgs);
+          break;
+
+        case 'configure_gait':
+          result = await this.configureGait(sessionId, args as ConfigureGaitArgs);
           break;
 
         case 'update_motor_params':
-          result = await this.updateMotorParams(sessionId, args as { joint_id: string; torque_limit?: number; pid_p?: number; pid_i?: number; pid_d?: number });
+          result = await this.updateMotorParams(sessionId, args as { joint_id: string; torque_limit?: number; pid_p?: number; pid_i?: number; pid_d?: number; max_velocity?: number });
+          break;
+
+        case 'load_robot_description':
+          result = await this.loadRobotDescription(sessionId, args as LoadRobotDescriptionArgs);
+          break;
+
+        case 'set_mission':
+          result = await this.setMission(sessionId, args as MissionArgs);
+          break;
+
+        case 'configure_failsafe':
+          result = await this.configureFailsafe(sessionId, args as ConfigureFailsafeArgs);
+          break;
+
+        case 'configure_airframe':
+          result = await this.configureAirframe(sessionId, args as ConfigureAirframeArgs);
+          break;
+
+        case 'inject_failure':
+          result = await this.injectFailure(sessionId, args as InjectFailureArgs);
+          break;
+
+        case 'update_flight_controller':
+          result = await this.updateFlightController(sessionId, args as UpdateFlightControllerArgs);
           break;
 
         case 'run_simulation':
-          result = await this.runSimulation(sessionId, args as { duration_seconds?: number; robot_type?: string; wind_speed?: number; airspace_condition?: string });
+          result = await this.runSimulation(sessionId, args as { duration_seconds?: number; robot_type?: string; gait?: string; wind_speed?: number; airspace_condition?: string; seed?: number; mission?: MissionArgs } & RunFaultScheduleArgs);
+          break;
+
+        case 'replay_run':
+          result = await this.replayRun(sessionId, args as { run_id: string });
           break;
 
         case 'analyze_simulation_video':
@@ -247,66 +682,1117 @@ export class SimulationService {
   }
 
   /**
-   * Configure physics parameters
+   * Configure physics parameters
+   */
+  private async configurePhysics(
+    sessionId: string,
+    args: ConfigurePhysicsArgs
+  ): Promise<ConfigurePhysicsResult> {
+    // Variable delay: 300-700ms
+    await sleep(randomDelay(300, 700));
+
+    const warnings: string[] = [];
+
+    // Validate inputs
+    if (args.friction_coefficient !== undefined) {
+      if (args.friction_coefficient < 0 || args.friction_coefficient > 1) {
+        args.friction_coefficient = Math.max(0, Math.min(1, args.friction_coefficient));
+        warnings.push(`friction_coefficient clamped to valid range [0, 1]`);
+      }
+    }
+
+    if (args.terrain_type && !['sand', 'concrete', 'grass', 'gravel'].includes(args.terrain_type)) {
+      args.terrain_type = 'concrete';
+      warnings.push(`Unknown terrain type, defaulting to concrete`);
+    }
+
+    if (args.terrain_roughness !== undefined) {
+      if (args.terrain_roughness < 0 || args.terrain_roughness > 1) {
+        args.terrain_roughness = Math.max(0, Math.min(1, args.terrain_roughness));
+        warnings.push(`terrain_roughness clamped to valid range [0, 1]`);
+      }
+    }
+
+    // Ground shape: a terrain file, or a named terrain
+    const {
+      integrator, substeps, terrain: terrainName, terrain_file: terrainFile,
+      ambient_temperature, thermal_throttling, throttle_temperature, max_temperature, ...environment
+    } = args;
+    let terrain: PhysicsConfig['terrain'] | undefined;
+    if (terrainFile !== undefined && terrainFile.trim() !== '') {
+      try {
+        const loaded = terrainFromFile(terrainFile, terrainName);
+        terrain = loaded.terrain;
+        warnings.push(...loaded.warnings);
+      } catch (error) {
+        throw this.createError('INVALID_PARAM', `Invalid terrain file: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    } else if (terrainName !== undefined) {
+      const presetName = terrainName.toLowerCase();
+      terrain = Object.keys(TERRAIN_PRESETS).includes(presetName) ? TERRAIN_PRESETS[presetName] : undefined;
+      if (!terrain) {
+        warnings.push(`Unknown terrain '${terrainName}', keeping the current ground. Use one of: ${Object.keys(TERRAIN_PRESETS).join(', ')}, or pass terrain_file`);
+      }
+    }
+
+    const current = stateStore.getOrCreate(sessionId).physics;
+    const physics = stateStore.updatePhysics(sessionId, {
+      ...environment as Partial<PhysicsConfig>,
+      ...(terrain && { terrain }),
+      integrator: this.resolveIntegrator(current.integrator, { integrator, substeps }, warnings),
+      thermal: this.resolveThermal(current.thermal, { ambient_temperature, thermal_throttling, throttle_temperature, max_temperature }, warnings)
+    });
+    const { thermal } = physics;
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Physics configuration updated. Terrain=${physics.terrain_type} on ${physics.terrain.name} ground, Roughness=${physics.terrain_roughness}, Friction=${physics.friction_coefficient}, Gravity=${physics.gravity}m/s², Integrator=${physics.integrator.method} x${physics.integrator.substeps}, Ambient=${thermal.ambient_temperature}°C, Throttling=${thermal.throttling ? `${thermal.throttle_temperature}-${thermal.max_temperature}°C` : 'off'}`,
+      applied_config: physics,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Configure the battery that powers ground robot runs
+   */
+  private async configureBattery(
+    sessionId: string,
+    args: ConfigureBatteryArgs
+  ): Promise<ConfigureBatteryResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const battery: BatteryConfig = { ...stateStore.getOrCreate(sessionId).battery };
+    const warnings: string[] = [];
+
+    const ranges = {
+      cells: BATTERY_CELL_RANGE,
+      capacity: BATTERY_CAPACITY_RANGE,
+      internal_resistance: BATTERY_RESISTANCE_RANGE,
+      initial_charge: { min: 0, max: 100 }
+    };
+    for (const key of Object.keys(ranges) as (keyof typeof ranges)[]) {
+      const value = args[key];
+      if (value === undefined) continue;
+      const { min, max } = ranges[key];
+      battery[key] = Math.max(min, Math.min(max, key === 'cells' ? Math.round(value) : value));
+      if (battery[key] !== value) {
+        warnings.push(`${key} clamped to valid range [${min}, ${max}]`);
+      }
+    }
+
+    // Driver under-voltage lockouts sit at or a little below the cells' cut-off
+    const [lowest, highest] = [battery.cells * MIN_CELL_VOLTAGE * 0.8, battery.cells * MIN_CELL_VOLTAGE];
+    if (args.brownout_voltage !== undefined) {
+      battery.brownout_voltage = Math.max(lowest, Math.min(highest, args.brownout_voltage));
+      if (battery.brownout_voltage !== args.brownout_voltage) {
+        warnings.push(`brownout_voltage clamped to valid range [${lowest.toFixed(1)}, ${highest.toFixed(1)}] V for ${battery.cells} cells`);
+      }
+    } else if (battery.brownout_voltage < lowest || battery.brownout_voltage > highest) {
+      battery.brownout_voltage = Number(highest.toFixed(1));
+      warnings.push(`brownout_voltage set to ${battery.brownout_voltage}V to suit ${battery.cells} cells`);
+    }
+
+    const applied = stateStore.updateBattery(sessionId, battery);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Battery updated. ${applied.cells}S ${applied.capacity}Ah, ${applied.internal_resistance}Ω internal resistance, starting at ${applied.initial_charge}% charge, drivers brown out below ${applied.brownout_voltage}V`,
+      applied_battery: applied,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Configure the sensor errors between simulated truth and reported telemetry,
+   * for ground and drone runs alike
+   */
+  private async configureSensors(
+    sessionId: string,
+    args: ConfigureSensorsArgs
+  ): Promise<ConfigureSensorsResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const sensors: Partial<SensorConfig> = {};
+    const warnings: string[] = [];
+
+    for (const key of Object.keys(SENSOR_RANGES) as (keyof SensorConfig)[]) {
+      const value = args[key];
+      if (value === undefined) continue;
+      const { min, max } = SENSOR_RANGES[key];
+      sensors[key] = Math.max(min, Math.min(max, value));
+      if (sensors[key] !== value) {
+        warnings.push(`${key} clamped to valid range [${min}, ${max}]`);
+      }
+    }
+
+    const applied = stateStore.updateSensors(sessionId, sensors);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Sensors updated. IMU noise ${applied.accel_noise_density}m/s²/√Hz accel, ${applied.gyro_noise_density}°/s/√Hz gyro; GPS ${applied.gps_noise}m noise, ${applied.gps_multipath}m multipath, ${applied.gps_latency}s latency; contact false positives ${(applied.contact_false_positive_rate * 100).toFixed(1)}%, dropouts ${(applied.dropout_rate * 100).toFixed(1)}%`,
+      applied_sensors: applied,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Place obstacles in the world, for ground and drone runs alike. Obstacles
+   * are added to those already placed, replacing any with the same id.
+   */
+  private async configureObstacles(
+    sessionId: string,
+    args: ConfigureObstaclesArgs
+  ): Promise<ConfigureObstaclesResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    if (!args.obstacles?.length && !args.clear) {
+      throw this.createError('MISSING_PARAM', 'obstacles is required, or clear to remove every obstacle', true);
+    }
+
+    const warnings: string[] = [];
+    const session = stateStore.getOrCreate(sessionId);
+    const obstacles = args.clear ? [] : session.obstacles.map(obstacle => ({ ...obstacle }));
+    let nextId = obstacles.length + 1;
+
+    const clamp = (value: number, name: string, id: string, { min, max }: { min: number; max: number }): number => {
+      const clamped = Math.max(min, Math.min(max, value));
+      if (clamped !== value) {
+        warnings.push(`${id} ${name} clamped to valid range [${min}, ${max}]`);
+      }
+      return clamped;
+    };
+
+    for (const spec of args.obstacles ?? []) {
+      let id = spec.id;
+      if (!id) {
+        while (obstacles.some(o => o.id === `obstacle_${nextId}`)) nextId++;
+        id = `obstacle_${nextId++}`;
+      }
+      if (spec.x === undefined || spec.y === undefined) {
+        warnings.push(`${id} skipped: x and y are required`);
+        continue;
+      }
+      const type = spec.type?.toLowerCase() ?? (spec.radius !== undefined ? 'cylinder' : 'box');
+      if (type !== 'box' && type !== 'cylinder') {
+        warnings.push(`${id} skipped: unknown type '${spec.type}'. Use 'box' or 'cylinder'`);
+        continue;
+      }
+
+      const x = clamp(spec.x, 'x', id, OBSTACLE_POSITION_RANGE);
+      const y = clamp(spec.y, 'y', id, OBSTACLE_POSITION_RANGE);
+      const height = clamp(spec.height ?? DEFAULT_OBSTACLE_SIZE, 'height', id, OBSTACLE_HEIGHT_RANGE);
+      const obstacle: Obstacle = type === 'cylinder'
+        ? { type, id, x, y, radius: clamp(spec.radius ?? DEFAULT_OBSTACLE_RADIUS, 'radius', id, OBSTACLE_SIZE_RANGE), height }
+        : {
+          type,
+          id,
+          x,
+          y,
+          length: clamp(spec.length ?? DEFAULT_OBSTACLE_SIZE, 'length', id, OBSTACLE_SIZE_RANGE),
+          width: clamp(spec.width ?? DEFAULT_OBSTACLE_SIZE, 'width', id, OBSTACLE_SIZE_RANGE),
+          height,
+          yaw: ((((spec.yaw ?? 0) % 360) + 360) % 360)
+        };
+
+      const existing = obstacles.findIndex(o => o.id === id);
+      if (existing >= 0) {
+        obstacles[existing] = obstacle;
+      } else {
+        obstacles.push(obstacle);
+      }
+    }
+
+    const applied = stateStore.updateObstacles(sessionId, obstacles);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: applied.length > 0
+        ? `${applied.length} obstacle${applied.length === 1 ? '' : 's'} placed: ${applied.map(o => o.type === 'box'
+          ? `${o.id} (${o.length}x${o.width}x${o.height}m box at ${o.x}, ${o.y})`
+          : `${o.id} (r=${o.radius}m, ${o.height}m cylinder at ${o.x}, ${o.y})`).join(', ')}`
+        : 'All obstacles cleared',
+      obstacles: applied,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Mount range sensors on a robot. Sensors are merged by sensor_id into those
+   * already mounted, unless replace swaps out the whole set.
+   */
+  private async configureRangeSensors(
+    sessionId: string,
+    args: ConfigureRangeSensorsArgs
+  ): Promise<ConfigureRangeSensorsResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const platforms: RangeSensorPlatform[] = [...GROUND_ROBOT_TYPES, 'drone'];
+    const platform = args.robot_type?.toLowerCase() as RangeSensorPlatform | undefined;
+    if (!platform || !platforms.includes(platform)) {
+      throw this.createError('INVALID_PARAM', `robot_type must be one of: ${platforms.join(', ')}`, true);
+    }
+
+    const warnings: string[] = [];
+    const session = stateStore.getOrCreate(sessionId);
+    const sensors = args.replace ? [] : session.range_sensors[platform].map(cloneRangeSensor);
+
+    for (const spec of args.sensors ?? []) {
+      if (!spec.sensor_id) {
+        warnings.push('Sensor skipped: sensor_id is required');
+        continue;
+      }
+      const id = spec.sensor_id;
+      const index = sensors.findIndex(sensor => sensor.sensor_id === id);
+      if (spec.remove) {
+        if (index >= 0) {
+          sensors.splice(index, 1);
+        } else {
+          warnings.push(`${id} is not mounted on the ${platform}`);
+        }
+        continue;
+      }
+
+      const type = (spec.type?.toLowerCase() ?? sensors[index]?.type ?? 'single_beam') as RangeSensorConfig['type'];
+      if (!RANGE_SENSOR_TYPES.includes(type)) {
+        warnings.push(`${id} skipped: unknown type '${spec.type}'. Use one of: ${RANGE_SENSOR_TYPES.join(', ')}`);
+        continue;
+      }
+      const current: RangeSensorConfig = sensors[index] ?? {
+        sensor_id: id,
+        type: 'single_beam',
+        mount: [0, 0, 0],
+        direction: 0,
+        fov: 0,
+        beams: 1,
+        max_range: 12,
+        noise: 0.02
+      };
+      const sensor: RangeSensorConfig = { ...current, type, mount: [...current.mount] };
+
+      (['mount_x', 'mount_y', 'mount_z'] as const).forEach((key, axis) => {
+        const value = spec[key];
+        if (value === undefined) return;
+        const { min, max } = RANGE_SENSOR_MOUNT_RANGE;
+        sensor.mount[axis] = Math.max(min, Math.min(max, value));
+        if (sensor.mount[axis] !== value) {
+          warnings.push(`${id} ${key} clamped to valid range [${min}, ${max}]`);
+        }
+      });
+      if (spec.direction !== undefined) {
+        sensor.direction = ((spec.direction % 360) + 360) % 360;
+      }
+      for (const key of Object.keys(RANGE_SENSOR_RANGES) as (keyof typeof RANGE_SENSOR_RANGES)[]) {
+        const value = spec[key];
+        if (value === undefined) continue;
+        const { min, max } = RANGE_SENSOR_RANGES[key];
+        const clamped = Math.max(min, Math.min(max, key === 'beams' ? Math.round(value) : value));
+        if (clamped !== value) {
+          warnings.push(`${id} ${key} clamped to valid range [${min}, ${max}]`);
+        }
+        sensor[key] = clamped;
+      }
+      // A single beam casts one ray along its direction
+      if (type === 'single_beam') {
+        sensor.fov = 0;
+        sensor.beams = 1;
+      } else if (current.type === 'single_beam') {
+        // A beam turned into a scan sweeps a full circle unless told otherwise
+        sensor.fov = spec.fov === undefined ? 360 : sensor.fov;
+        sensor.beams = spec.beams === undefined ? 16 : sensor.beams;
+      }
+
+      if (index >= 0) {
+        sensors[index] = sensor;
+      } else {
+        sensors.push(sensor);
+      }
+    }
+
+    const applied = stateStore.updateRangeSensors(sessionId, platform, sensors);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: applied.length > 0
+        ? `${platform} range sensors: ${applied.map(sensor => sensor.type === 'scan_2d'
+          ? `${sensor.sensor_id} (${sensor.beams}-beam ${sensor.fov}° scan, ${sensor.max_range}m)`
+          : `${sensor.sensor_id} (beam at ${sensor.direction}°, ${sensor.max_range}m)`).join(', ')}`
+        : `No range sensors mounted on the ${platform}`,
+      robot_type: platform,
+      range_sensors: applied,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Configure the drone flight environment
+   */
+  private async configureDronePhysics(
+    sessionId: string,
+    args: { air_density?: number; wind_speed?: number; wind_direction?: number; airspace_condition?: string } & IntegratorArgs
+  ): Promise<ConfigureDronePhysicsResult> {
+    // Variable delay: 300-700ms
+    await sleep(randomDelay(300, 700));
+
+    const warnings: string[] = [];
+
+    // Validate inputs
+    if (args.air_density !== undefined) {
+      if (args.air_density < 0.3 || args.air_density > 1.5) {
+        args.air_density = Math.max(0.3, Math.min(1.5, args.air_density));
+        warnings.push(`air_density clamped to valid range [0.3, 1.5] kg/m³`);
+      }
+    }
+
+    if (args.wind_speed !== undefined) {
+      if (args.wind_speed < 0 || args.wind_speed > 30) {
+        args.wind_speed = Math.max(0, Math.min(30, args.wind_speed));
+        warnings.push(`wind_speed clamped to valid range [0, 30] m/s`);
+      }
+    }
+
+    if (args.wind_direction !== undefined) {
+      if (args.wind_direction < 0 || args.wind_direction >= 360) {
+        args.wind_direction = ((args.wind_direction % 360) + 360) % 360;
+        warnings.push(`wind_direction wrapped to ${args.wind_direction}°`);
+      }
+    }
+
+    if (args.airspace_condition && !['calm', 'light_wind', 'gusty', 'turbulent'].includes(args.airspace_condition)) {
+      args.airspace_condition = DEFAULT_DRONE_PHYSICS.airspace_condition;
+      warnings.push(`Unknown airspace condition, defaulting to ${DEFAULT_DRONE_PHYSICS.airspace_condition}`);
+    }
+
+    const { integrator, substeps, ...environment } = args;
+    const physics = stateStore.updateDronePhysics(sessionId, {
+      ...environment as Partial<DronePhysicsConfig>,
+      integrator: this.resolveIntegrator(stateStore.getOrCreate(sessionId).drone_physics.integrator, { integrator, substeps }, warnings)
+    });
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Drone physics updated. Airspace=${physics.airspace_condition}, Wind=${physics.wind_speed}m/s at ${physics.wind_direction}°, Air density=${physics.air_density}kg/m³, Integrator=${physics.integrator.method} x${physics.integrator.substeps}`,
+      applied_config: physics,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Apply integrator arguments over the current integrator settings
+   */
+  private resolveIntegrator(current: IntegratorConfig, args: IntegratorArgs, warnings: string[]): IntegratorConfig {
+    const integrator = { ...current };
+
+    if (args.integrator !== undefined) {
+      const method = args.integrator.toLowerCase();
+      if (INTEGRATION_METHODS.includes(method as IntegrationMethod)) {
+        integrator.method = method as IntegrationMethod;
+      } else {
+        warnings.push(`Unknown integrator '${args.integrator}', keeping ${current.method}`);
+      }
+    }
+
+    if (args.substeps !== undefined) {
+      const substeps = Math.round(args.substeps);
+      integrator.substeps = Math.max(INTEGRATOR_SUBSTEP_RANGE.min, Math.min(INTEGRATOR_SUBSTEP_RANGE.max, substeps));
+      if (integrator.substeps !== args.substeps) {
+        warnings.push(`substeps ${args.substeps} clamped to ${integrator.substeps}`);
+      }
+    }
+
+    return integrator;
+  }
+
+  /**
+   * Apply thermal arguments over the current motor thermal settings
+   */
+  private resolveThermal(current: ThermalConfig, args: ThermalArgs, warnings: string[]): ThermalConfig {
+    const thermal = { ...current };
+
+    if (args.ambient_temperature !== undefined) {
+      thermal.ambient_temperature = Math.max(AMBIENT_TEMPERATURE_RANGE.min, Math.min(AMBIENT_TEMPERATURE_RANGE.max, args.ambient_temperature));
+      if (thermal.ambient_temperature !== args.ambient_temperature) {
+        warnings.push(`ambient_temperature clamped to valid range [${AMBIENT_TEMPERATURE_RANGE.min}, ${AMBIENT_TEMPERATURE_RANGE.max}]°C`);
+      }
+    }
+
+    if (args.thermal_throttling !== undefined) {
+      thermal.throttling = args.thermal_throttling;
+    }
+
+    for (const key of ['throttle_temperature', 'max_temperature'] as const) {
+      const value = args[key];
+      if (value === undefined) continue;
+      thermal[key] = Math.max(WINDING_TEMPERATURE_RANGE.min, Math.min(WINDING_TEMPERATURE_RANGE.max, value));
+      if (thermal[key] !== value) {
+        warnings.push(`${key} clamped to valid range [${WINDING_TEMPERATURE_RANGE.min}, ${WINDING_TEMPERATURE_RANGE.max}]°C`);
+      }
+    }
+
+    // Derating needs room between where it starts and where it bottoms out
+    if (thermal.max_temperature <= thermal.throttle_temperature) {
+      thermal.max_temperature = thermal.throttle_temperature + 1;
+      warnings.push(`max_temperature must be above throttle_temperature; set to ${thermal.max_temperature}°C`);
+    }
+
+    return thermal;
+  }
+
+  /**
+   * Configure hexapod gait pattern and parameters
+   */
+  private async configureGait(
+    sessionId: string,
+    args: ConfigureGaitArgs
+  ): Promise<ConfigureGaitResult> {
+    // Variable delay: 300-700ms
+    await sleep(randomDelay(300, 700));
+
+    const session = stateStore.getOrCreate(sessionId);
+    const warnings: string[] = [];
+    const update: Partial<GaitConfig> = {};
+
+    // Named patterns bring their own phase offsets and duty factor
+    if (args.pattern !== undefined) {
+      const pattern = args.pattern.toLowerCase();
+      if (pattern === 'custom') {
+        update.pattern = 'custom';
+        if (!args.phase_offsets) {
+          warnings.push('custom pattern without phase_offsets keeps the current leg offsets');
+        }
+      } else if (pattern in HEXAPOD_GAIT_PATTERNS) {
+        const preset = HEXAPOD_GAIT_PATTERNS[pattern as keyof typeof HEXAPOD_GAIT_PATTERNS];
+        update.pattern = pattern as GaitConfig['pattern'];
+        update.duty_factor = preset.duty_factor;
+        update.phase_offsets = { ...preset.phase_offsets };
+      } else {
+        warnings.push(`Unknown gait pattern '${args.pattern}', keeping ${session.gait.pattern}`);
+      }
+    }
+
+    if (args.phase_offsets !== undefined) {
+      if (args.phase_offsets.length !== 6) {
+        warnings.push('phase_offsets must list 6 values (legs 1-6), ignoring');
+      } else {
+        if (update.pattern && update.pattern !== 'custom') {
+          warnings.push(`phase_offsets override the ${update.pattern} preset, gait marked custom`);
+        }
+        update.pattern = 'custom';
+        update.phase_offsets = Object.fromEntries(
+          args.phase_offsets.map((offset, idx) => [`leg_${idx + 1}`, offset - Math.floor(offset)])
+        );
+      }
+    }
+
+    if (args.frequency !== undefined) {
+      if (args.frequency < 0.1 || args.frequency > 5) {
+        args.frequency = Math.max(0.1, Math.min(5, args.frequency));
+        warnings.push(`frequency clamped to valid range [0.1, 5] Hz`);
+      }
+      update.frequency = args.frequency;
+    }
+
+    if (args.duty_factor !== undefined) {
+      if (args.duty_factor < 0.2 || args.duty_factor > 0.95) {
+        args.duty_factor = Math.max(0.2, Math.min(0.95, args.duty_factor));
+        warnings.push(`duty_factor clamped to valid range [0.2, 0.95]`);
+      }
+      update.duty_factor = args.duty_factor;
+    }
+
+    // Per-joint-type amplitudes
+    const amplitudes = { ...session.gait.amplitudes };
+    for (const jointType of ['coxa', 'femur', 'tibia'] as const) {
+      const value = args[`${jointType}_amplitude`];
+      if (value === undefined) continue;
+      if (value < 0 || value > 1.5) {
+        warnings.push(`${jointType}_amplitude clamped to valid range [0, 1.5] rad`);
+      }
+      amplitudes[jointType] = Math.max(0, Math.min(1.5, value));
+      update.amplitudes = amplitudes;
+    }
+
+    // Per-joint amplitude overrides
+    if (args.joint_amplitudes) {
+      const jointAmplitudes = { ...session.gait.joint_amplitudes };
+      for (const { joint_id, amplitude } of args.joint_amplitudes) {
+        if (!session.robot_models.hexapod.joints.some(joint => joint.joint_id === joint_id)) {
+          warnings.push(`Unknown hexapod joint '${joint_id}', amplitude ignored`);
+          continue;
+        }
+        if (amplitude < 0 || amplitude > 1.5) {
+          warnings.push(`${joint_id} amplitude clamped to valid range [0, 1.5] rad`);
+        }
+        jointAmplitudes[joint_id] = Math.max(0, Math.min(1.5, amplitude));
+      }
+      update.joint_amplitudes = jointAmplitudes;
+    }
+
+    const gait = stateStore.updateGait(sessionId, update);
+
+    // A hexapod needs a tripod on the ground at all times to stay statically stable
+    const minStance = minimumStanceLegs(gait);
+    if (minStance < 3) {
+      warnings.push(`Only ${minStance} leg(s) in stance at some point of the cycle - gait is not statically stable`);
+    }
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Gait configuration updated. Pattern=${gait.pattern}, Frequency=${gait.frequency}Hz, Duty factor=${gait.duty_factor.toFixed(2)}, Min legs in stance=${minStance}`,
+      applied_gait: gait,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Update motor parameters
+   */
+  private async updateMotorParams(
+    sessionId: string,
+    args: { joint_id: string; torque_limit?: number; pid_p?: number; pid_i?: number; pid_d?: number; max_velocity?: number }
+  ): Promise<UpdateMotorResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    if (!args.joint_id) {
+      throw this.createError('MISSING_PARAM', 'joint_id is required', true);
+    }
+    const session = stateStore.getOrCreate(sessionId);
+    const model = Object.values(session.robot_models).find(m => m.joints.some(joint => joint.joint_id === args.joint_id));
+    if (!model) {
+      throw this.createError('INVALID_PARAM', `Unknown joint '${args.joint_id}'. The hexapod and quadruped models have no joint with that ID`, true);
+    }
+
+    // Gains may be zero (disables that term); limits must be positive
+    const params: Partial<MotorParams> = {};
+    for (const key of ['pid_p', 'pid_i', 'pid_d'] as const) {
+      if (args[key] === undefined) continue;
+      if (args[key]! < 0) {
+        throw this.createError('INVALID_PARAM', `${key} must be >= 0`, true);
+      }
+      params[key] = args[key];
+    }
+    for (const key of ['torque_limit', 'max_velocity'] as const) {
+      if (args[key] === undefined) continue;
+      if (args[key]! <= 0) {
+        throw this.createError('INVALID_PARAM', `${key} must be > 0`, true);
+      }
+      params[key] = args[key];
+    }
+
+    const motor = stateStore.updateMotor(sessionId, args.joint_id, params);
+
+    return {
+      status: 'success',
+      message: `Motor ${args.joint_id} parameters updated. P=${motor.pid_p}, I=${motor.pid_i}, D=${motor.pid_d}, Torque=${motor.torque_limit}Nm, MaxVel=${motor.max_velocity}rad/s`,
+      joint_id: args.joint_id,
+      applied_params: motor
+    };
+  }
+
+  /**
+   * Load a ground robot's model from a URDF description, or restore its
+   * built-in model when no description is given
+   */
+  private async loadRobotDescription(
+    sessionId: string,
+    args: LoadRobotDescriptionArgs
+  ): Promise<LoadRobotDescriptionResult> {
+    // Variable delay: 300-600ms
+    await sleep(randomDelay(300, 600));
+
+    const robotType = args.robot_type?.toLowerCase() as GroundRobotType | undefined;
+    if (robotType !== undefined && !GROUND_ROBOT_TYPES.includes(robotType)) {
+      throw this.createError('INVALID_PARAM', `Unknown ground robot type '${args.robot_type}'. Use one of: ${GROUND_ROBOT_TYPES.join(', ')}`, true);
+    }
+
+    let model: RobotModel;
+    let warnings: string[] = [];
+    if (args.urdf === undefined || args.urdf.trim() === '') {
+      if (!robotType) {
+        throw this.createError('MISSING_PARAM', 'urdf is required, or robot_type to restore a built-in model', true);
+      }
+      model = BUILTIN_ROBOT_MODELS[robotType];
+    } else {
+      try {
+        ({ model, warnings } = robotModelFromUrdf(args.urdf, robotType));
+      } catch (error) {
+        throw this.createError('INVALID_PARAM', `Invalid URDF: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+
+    stateStore.updateRobotModel(sessionId, model);
+    const totalMass = robotMass(model);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Loaded ${model.source} ${model.robot_type} model '${model.name}'. Legs=${model.legs.length}, Joints=${model.joints.length}, Mass=${totalMass.toFixed(2)}kg`,
+      robot_type: model.robot_type,
+      model_name: model.name,
+      source: model.source,
+      total_mass: Number(totalMass.toFixed(3)),
+      legs: model.legs.map(leg => ({ leg_id: leg.leg_id, hip: leg.hip, joints: leg.joints })),
+      joints: model.joints.map(joint => ({ joint_id: joint.joint_id, name: joint.name, ...joint.limits })),
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Update drone flight controller gains and rotor/motor parameters
+   */
+  private async updateFlightController(
+    sessionId: string,
+    args: UpdateFlightControllerArgs
+  ): Promise<UpdateFlightControllerResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const config: FlightControllerConfig = cloneFlightController(stateStore.getOrCreate(sessionId).flight_controller);
+
+    // Gains may be zero (disables that term); physical parameters must be positive
+    for (const loop of ['altitude', 'attitude', 'position', 'yaw'] as const) {
+      for (const term of ['p', 'i', 'd'] as const) {
+        const value = args[`${loop}_${term}`];
+        if (value === undefined) continue;
+        if (value < 0) {
+          throw this.createError('INVALID_PARAM', `${loop}_${term} must be >= 0`, true);
+        }
+        config[`${loop}_pid`][term] = value;
+      }
+    }
+    for (const key of ['kv_rating', 'max_current', 'response_time'] as const) {
+      if (args[key] === undefined) continue;
+      if (args[key]! <= 0) {
+        throw this.createError('INVALID_PARAM', `${key} must be > 0`, true);
+      }
+    }
+    if (args.rotor_loss_strategy !== undefined) {
+      if (args.rotor_loss_strategy !== 'none' && args.rotor_loss_strategy !== 'reduced_attitude') {
+        throw this.createError('INVALID_PARAM', `Unknown rotor loss strategy '${args.rotor_loss_strategy}'. Use 'none' or 'reduced_attitude'`, true);
+      }
+      config.rotor_loss_strategy = args.rotor_loss_strategy;
+    }
+    if (args.kv_rating !== undefined) config.motor.kv_rating = args.kv_rating;
+    if (args.max_current !== undefined) config.motor.max_current = args.max_current;
+    if (args.response_time !== undefined) config.rotor.response_time = args.response_time;
+
+    const applied = stateStore.updateFlightController(sessionId, config);
+    const gains = (pid: { p: number; i: number; d: number }) => `P=${pid.p}, I=${pid.i}, D=${pid.d}`;
+
+    return {
+      status: 'success',
+      message: `Flight controller updated. Altitude ${gains(applied.altitude_pid)}; Attitude ${gains(applied.attitude_pid)}; Position ${gains(applied.position_pid)}; Yaw ${gains(applied.yaw_pid)}; Rotor loss strategy=${applied.rotor_loss_strategy}; KV=${applied.motor.kv_rating}, MaxCurrent=${applied.motor.max_current}A, Response=${applied.rotor.response_time}s`,
+      applied_config: applied
+    };
+  }
+
+  /**
+   * Set the waypoint mission flown by the session's drone runs
+   */
+  private async setMission(
+    sessionId: string,
+    args: MissionArgs
+  ): Promise<SetMissionResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const { mission, warnings } = this.resolveMission(stateStore.getOrCreate(sessionId).mission, args);
+    const applied = stateStore.updateMission(sessionId, mission);
+    const estimatedDuration = estimateMissionDuration(applied);
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Mission set: takeoff to ${applied.takeoff_altitude}m, ${applied.waypoints.length} waypoint(s), landing at (${applied.landing.lat}, ${applied.landing.lon}). Estimated flight time ${estimatedDuration}s`,
+      applied_mission: applied,
+      estimated_duration: estimatedDuration,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Apply mission arguments over a base mission, clamping altitudes and speeds
+   */
+  private resolveMission(base: DroneMission, args: MissionArgs): { mission: DroneMission; warnings: string[] } {
+    const warnings: string[] = [];
+    const mission = cloneMission(base);
+
+    const checkCoordinate = (name: string, value: number | undefined, limit: number) => {
+      if (value !== undefined && (!Number.isFinite(value) || Math.abs(value) > limit)) {
+        throw this.createError('INVALID_PARAM', `${name} must be between -${limit} and ${limit}`, true);
+      }
+    };
+    const clampValue = (name: string, value: number, range: { min: number; max: number }) => {
+      const clamped = Math.max(range.min, Math.min(range.max, value));
+      if (clamped !== value) {
+        warnings.push(`${name} ${value} clamped to ${clamped}`);
+      }
+      return clamped;
+    };
+
+    checkCoordinate('home_lat', args.home_lat, 90);
+    checkCoordinate('home_lon', args.home_lon, 180);
+    checkCoordinate('landing_lat', args.landing_lat, 90);
+    checkCoordinate('landing_lon', args.landing_lon, 180);
+
+    // Landing follows home unless it was set somewhere else
+    const landingAtHome = mission.landing.lat === mission.home.lat && mission.landing.lon === mission.home.lon;
+    mission.home = { lat: args.home_lat ?? mission.home.lat, lon: args.home_lon ?? mission.home.lon };
+    const landing = landingAtHome ? mission.home : mission.landing;
+    mission.landing = { lat: args.landing_lat ?? landing.lat, lon: args.landing_lon ?? landing.lon };
+
+    if (args.takeoff_altitude !== undefined) {
+      mission.takeoff_altitude = clampValue('takeoff_altitude', args.takeoff_altitude, MISSION_ALTITUDE_RANGE);
+    }
+    if (args.hover_seconds !== undefined) {
+      mission.hover_seconds = clampValue('hover_seconds', args.hover_seconds, MISSION_HOLD_RANGE);
+    }
+
+    if (args.waypoints !== undefined) {
+      mission.waypoints = args.waypoints.map((wp, i) => {
+        if (wp.lat === undefined || wp.lon === undefined) {
+          throw this.createError('MISSING_PARAM', `waypoints[${i}] requires lat and lon`, true);
+        }
+        checkCoordinate(`waypoints[${i}].lat`, wp.lat, 90);
+        checkCoordinate(`waypoints[${i}].lon`, wp.lon, 180);
+        return {
+          lat: wp.lat,
+          lon: wp.lon,
+          alt: clampValue(`waypoints[${i}].alt`, wp.alt ?? mission.takeoff_altitude, MISSION_ALTITUDE_RANGE),
+          speed: clampValue(`waypoints[${i}].speed`, wp.speed ?? 5, MISSION_SPEED_RANGE),
+          loiter_seconds: clampValue(`waypoints[${i}].loiter_seconds`, wp.loiter_seconds ?? 0, MISSION_HOLD_RANGE)
+        };
+      });
+    }
+
+    // Far-off points are allowed but almost certainly a typo
+    const metresFromHome = (lat: number, lon: number) => Math.hypot(
+      (lat - mission.home.lat) * 111000,
+      (lon - mission.home.lon) * 111000 * Math.cos(mission.home.lat * Math.PI / 180)
+    );
+    mission.waypoints.forEach((wp, i) => {
+      if (metresFromHome(wp.lat, wp.lon) > MISSION_MAX_RANGE) {
+        warnings.push(`waypoints[${i}] is more than ${MISSION_MAX_RANGE}m from home`);
+      }
+    });
+    if (metresFromHome(mission.landing.lat, mission.landing.lon) > MISSION_MAX_RANGE) {
+      warnings.push(`Landing point is more than ${MISSION_MAX_RANGE}m from home`);
+    }
+
+    return { mission, warnings };
+  }
+
+  /**
+   * Configure the drone geofence and the failsafe policy the vehicle executes on its own
+   */
+  private async configureFailsafe(
+    sessionId: string,
+    args: ConfigureFailsafeArgs
+  ): Promise<ConfigureFailsafeResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const session = stateStore.getOrCreate(sessionId);
+    const config: FailsafeConfig = cloneFailsafe(session.failsafe);
+    const fence = config.geofence;
+    const warnings: string[] = [];
+
+    if (args.geofence_shape !== undefined) {
+      if (args.geofence_shape !== 'cylinder' && args.geofence_shape !== 'polygon') {
+        throw this.createError('INVALID_PARAM', `Unknown geofence shape '${args.geofence_shape}'. Use 'cylinder' or 'polygon'`, true);
+      }
+      fence.shape = args.geofence_shape;
+    }
+    if (args.geofence_polygon !== undefined) {
+      if (args.geofence_polygon.length < 3) {
+        throw this.createError('INVALID_PARAM', 'geofence_polygon needs at least 3 vertices', true);
+      }
+      args.geofence_polygon.forEach((v, i) => {
+        if (!(Math.abs(v.lat) <= 90) || !(Math.abs(v.lon) <= 180)) {
+          throw this.createError('INVALID_PARAM', `geofence_polygon[${i}] is not a valid coordinate`, true);
+        }
+      });
+      fence.polygon = args.geofence_polygon.map(v => ({ lat: v.lat, lon: v.lon }));
+    }
+    if (fence.shape === 'polygon' && fence.polygon.length < 3) {
+      throw this.createError('MISSING_PARAM', 'geofence_polygon is required for a polygon geofence', true);
+    }
+    if (args.geofence_enabled !== undefined) {
+      fence.enabled = args.geofence_enabled;
+    }
+
+    if (args.geofence_radius !== undefined) {
+      fence.radius = Math.max(10, Math.min(5000, args.geofence_radius));
+      if (fence.radius !== args.geofence_radius) {
+        warnings.push(`geofence_radius clamped to valid range [10, 5000] m`);
+      }
+    }
+    if (args.max_altitude !== undefined) {
+      fence.max_altitude = Math.max(5, Math.min(500, args.max_altitude));
+      if (fence.max_altitude !== args.max_altitude) {
+        warnings.push(`max_altitude clamped to valid range [5, 500] m`);
+      }
+    }
+
+    for (const key of ['rth_battery_threshold', 'land_battery_threshold'] as const) {
+      if (args[key] === undefined) continue;
+      config[key] = Math.max(0, Math.min(100, args[key]!));
+      if (config[key] !== args[key]) {
+        warnings.push(`${key} clamped to valid range [0, 100] %`);
+      }
+    }
+    if (config.land_battery_threshold > config.rth_battery_threshold) {
+      config.land_battery_threshold = config.rth_battery_threshold;
+      warnings.push(`land_battery_threshold lowered to ${config.rth_battery_threshold}% so return-to-home engages first`);
+    }
+
+    if (args.rth_altitude !== undefined) {
+      config.rth_altitude = Math.max(2, args.rth_altitude);
+      if (config.rth_altitude !== args.rth_altitude) {
+        warnings.push(`rth_altitude raised to the 2 m minimum`);
+      }
+    }
+    if (fence.enabled && config.rth_altitude >= fence.max_altitude) {
+      warnings.push(`rth_altitude ${config.rth_altitude}m is at or above the ${fence.max_altitude}m ceiling; returns will fly just under the ceiling`);
+    }
+
+    if (args.breach_action !== undefined) {
+      if (args.breach_action !== 'rth' && args.breach_action !== 'land') {
+        throw this.createError('INVALID_PARAM', `Unknown breach action '${args.breach_action}'. Use 'rth' or 'land'`, true);
+      }
+      config.breach_action = args.breach_action;
+    }
+    if (args.motor_failure_action !== undefined) {
+      if (args.motor_failure_action !== 'continue' && args.motor_failure_action !== 'land') {
+        throw this.createError('INVALID_PARAM', `Unknown motor failure action '${args.motor_failure_action}'. Use 'continue' or 'land'`, true);
+      }
+      config.motor_failure_action = args.motor_failure_action;
+    }
+
+    // A mission that leaves the fence will trip the failsafe mid-flight
+    session.mission.waypoints.forEach((wp, i) => {
+      if (geofenceExcursionAt(wp, fence, session.mission.home) > 0) {
+        warnings.push(`Mission waypoints[${i}] lies outside the geofence`);
+      }
+    });
+
+    const applied = stateStore.updateFailsafe(sessionId, config);
+    const fenceDescription = !applied.geofence.enabled
+      ? 'disabled'
+      : applied.geofence.shape === 'cylinder'
+        ? `${applied.geofence.radius}m cylinder under ${applied.geofence.max_altitude}m`
+        : `${applied.geofence.polygon.length}-vertex polygon under ${applied.geofence.max_altitude}m`;
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Failsafe updated. Geofence ${fenceDescription}; RTH at ${applied.rth_battery_threshold}% battery via ${applied.rth_altitude}m, land in place at ${applied.land_battery_threshold}%; on breach: ${applied.breach_action === 'rth' ? 'return to home' : 'land in place'}; on rotor failure: ${applied.motor_failure_action === 'land' ? 'land in place' : 'continue'}`,
+      applied_failsafe: applied,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Configure the drone airframe: frame layout, mass, arm length and rotor coefficients
+   */
+  private async configureAirframe(
+    sessionId: string,
+    args: ConfigureAirframeArgs
+  ): Promise<ConfigureAirframeResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
+
+    const session = stateStore.getOrCreate(sessionId);
+    const current = session.airframe;
+    const warnings: string[] = [];
+
+    if (args.airframe_type !== undefined && !AIRFRAME_TYPES.includes(args.airframe_type as AirframeType)) {
+      throw this.createError('INVALID_PARAM', `Unknown airframe type '${args.airframe_type}'. Use one of: ${AIRFRAME_TYPES.join(', ')}`, true);
+    }
+    for (const key of ['thrust_coefficient', 'torque_coefficient'] as const) {
+      if (args[key] !== undefined && !(args[key]! > 0)) {
+        throw this.createError('INVALID_PARAM', `${key} must be > 0`, true);
+      }
+    }
+
+    // A new frame type starts from its preset; otherwise edits apply to the current frame
+    const type = (args.airframe_type as AirframeType | undefined) ?? current.type;
+    const base = type === current.type ? current : { ...current, ...AIRFRAME_PRESETS[type] };
+
+    const clampValue = (name: string, value: number, range: { min: number; max: number }, unit: string) => {
+      const clamped = Math.max(range.min, Math.min(range.max, value));
+      if (clamped !== value) {
+        warnings.push(`${name} clamped to valid range [${range.min}, ${range.max}] ${unit}`);
+      }
+      return clamped;
+    };
+
+    const airframe: AirframeConfig = createAirframe(type, {
+      mass: args.mass !== undefined ? clampValue('mass', args.mass, AIRFRAME_MASS_RANGE, 'kg') : base.mass,
+      arm_length: args.arm_length !== undefined ? clampValue('arm_length', args.arm_length, AIRFRAME_ARM_RANGE, 'm') : base.arm_length,
+      thrust_coefficient: args.thrust_coefficient ?? base.thrust_coefficient,
+      torque_coefficient: args.torque_coefficient ?? base.torque_coefficient,
+      battery_capacity: args.battery_capacity !== undefined
+        ? clampValue('battery_capacity', args.battery_capacity, BATTERY_CAPACITY_RANGE, 'Ah')
+        : base.battery_capacity
+    });
+
+    // Hover and thrust margin at sea level against the session's rotor limit
+    const maxRPM = session.flight_controller.rotor.max_rpm;
+    const hoverRPM = airframeHoverRPM(airframe);
+    const thrustToWeight = hoverRPM.reduce((sum, rpm) => sum + (maxRPM / rpm) ** 2, 0) / hoverRPM.length;
+    if (thrustToWeight < 1) {
+      warnings.push(`Rotors at ${maxRPM} RPM cannot lift ${airframe.mass}kg; the airframe will not leave the ground`);
+    } else if (thrustToWeight < MIN_THRUST_TO_WEIGHT) {
+      warnings.push(`Thrust-to-weight ${thrustToWeight.toFixed(2)} leaves little margin for attitude control or a rotor loss`);
+    }
+
+    const applied = stateStore.updateAirframe(sessionId, airframe);
+    const hoverLow = Math.round(Math.min(...hoverRPM));
+    const hoverHigh = Math.round(Math.max(...hoverRPM));
+
+    return {
+      status: warnings.length > 0 ? 'partial' : 'success',
+      message: `Airframe set to ${applied.type} with ${applied.rotors.length} rotors: ${applied.mass}kg, ${applied.arm_length}m arms, kT=${applied.thrust_coefficient}, kQ=${applied.torque_coefficient}, ${applied.battery_capacity}Ah pack. Hover ${hoverLow === hoverHigh ? hoverLow : `${hoverLow}-${hoverHigh}`} RPM, thrust-to-weight ${thrustToWeight.toFixed(2)}`,
+      applied_airframe: applied,
+      hover_rpm: hoverRPM.map(rpm => Math.round(rpm)),
+      thrust_to_weight: Number(thrustToWeight.toFixed(2)),
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  /**
+   * Add a scripted fault to the session's schedule
    */
-  private async configurePhysics(
+  private async injectFailure(
     sessionId: string,
-    args: { gravity?: number; friction_coefficient?: number; terrain_type?: string }
-  ): Promise<ConfigurePhysicsResult> {
-    // Variable delay: 300-700ms
-    await sleep(randomDelay(300, 700));
+    args: InjectFailureArgs
+  ): Promise<InjectFailureResult> {
+    // Variable delay: 200-400ms
+    await sleep(randomDelay(200, 400));
 
-    const warnings: string[] = [];
+    if (args.failure_type === undefined && !args.clear && args.random_failures === undefined) {
+      throw this.createError('MISSING_PARAM', 'failure_type is required', true);
+    }
 
-    // Validate inputs
-    if (args.friction_coefficient !== undefined) {
-      if (args.friction_coefficient < 0 || args.friction_coefficient > 1) {
-        args.friction_coefficient = Math.max(0, Math.min(1, args.friction_coefficient));
-        warnings.push(`friction_coefficient clamped to valid range [0, 1]`);
+    const session = stateStore.getOrCreate(sessionId);
+    const warnings: string[] = [];
+    let faults = args.clear ? [] : [...session.fault_schedule.faults];
+
+    if (args.failure_type !== undefined) {
+      // The fault may be for any of the session's robots; runs check it against the one they fly or walk
+      const targets: FaultTargets = {
+        ...groundFaultTargets("this session's ground robots", Object.values(session.robot_models)),
+        robot: `this session's robots (${session.airframe.type} airframe)`,
+        rotor: session.airframe.rotors.map(rotor => rotor.id)
+      };
+      const fault = this.parseScheduledFault({ ...args, type: args.failure_type }, 'any', targets);
+
+      // One fault per type, time and component; a repeat replaces the earlier entry
+      const sameSlot = (f: ScheduledFault) =>
+        f.type === fault.type && f.at_seconds === fault.at_seconds && f.component === fault.component;
+      if (faults.some(sameSlot)) {
+        warnings.push(`${fault.type} is already scheduled at t=${fault.at_seconds}s, replacing it`);
+        faults = faults.filter(f => !sameSlot(f));
       }
+      faults = [...faults, fault].sort((a, b) => a.at_seconds - b.at_seconds);
     }
 
-    if (args.terrain_type && !['sand', 'concrete', 'grass', 'gravel'].includes(args.terrain_type)) {
-      args.terrain_type = 'concrete';
-      warnings.push(`Unknown terrain type, defaulting to concrete`);
+    const update: Partial<FaultSchedule> = { faults };
+    if (args.random_failures !== undefined) {
+      update.random_failures = args.random_failures;
     }
-
-    const physics = stateStore.updatePhysics(sessionId, args as Partial<PhysicsConfig>);
+    const schedule = stateStore.updateFaultSchedule(sessionId, update);
 
     return {
       status: warnings.length > 0 ? 'partial' : 'success',
-      message: `Physics configuration updated. Terrain=${physics.terrain_type}, Friction=${physics.friction_coefficient}, Gravity=${physics.gravity}m/s²`,
-      applied_config: physics,
+      message: `Fault schedule updated. ${schedule.faults.length} scheduled fault(s), random failures ${schedule.random_failures ? 'enabled' : 'disabled'}`,
+      fault_schedule: schedule,
       warnings: warnings.length > 0 ? warnings : undefined
     };
   }
 
   /**
-   * Update motor parameters
+   * Validate a scheduled fault for a ground robot, a drone, or either, and
+   * check that its component is one of the targets
    */
-  private async updateMotorParams(
-    sessionId: string,
-    args: { joint_id: string; torque_limit?: number; pid_p?: number; pid_i?: number; pid_d?: number }
-  ): Promise<UpdateMotorResult> {
-    // Variable delay: 200-400ms
-    await sleep(randomDelay(200, 400));
-
-    if (!args.joint_id) {
-      throw this.createError('MISSING_PARAM', 'joint_id is required', true);
+  private parseScheduledFault(
+    raw: Partial<ScheduledFault>,
+    robotKind: 'ground' | 'drone' | 'any',
+    targets: FaultTargets
+  ): ScheduledFault {
+    const type = raw.type || '';
+    const isGround = isFailureType(type);
+    const isDrone = isDroneFailureType(type);
+    if (!isGround && !isDrone) {
+      throw this.createError('INVALID_PARAM', `Unknown failure type '${type}'`, true);
+    }
+    if ((robotKind === 'ground' && !isGround) || (robotKind === 'drone' && !isDrone)) {
+      throw this.createError('INVALID_PARAM', `Failure type '${type}' does not apply to ${robotKind} robots`, true);
+    }
+    if (raw.at_seconds === undefined || raw.at_seconds < 0) {
+      throw this.createError('INVALID_PARAM', `at_seconds must be >= 0 for ${type}`, true);
+    }
+    if (raw.component !== undefined) {
+      const kind = FAULT_COMPONENT_KINDS[type];
+      if (kind === undefined) {
+        throw this.createError('INVALID_PARAM', `${type} acts on the whole robot and takes no component`, true);
+      }
+      if (!targets[kind].includes(raw.component)) {
+        const known = targets[kind].length > 0 ? `. Use one of: ${targets[kind].join(', ')}` : '';
+        throw this.createError('INVALID_PARAM', `${type} needs a ${kind} of ${targets.robot}, '${raw.component}' is not one${known}`, true);
+      }
+    }
+    if (raw.severity !== undefined && !['info', 'warning', 'error', 'critical'].includes(raw.severity)) {
+      throw this.createError('INVALID_PARAM', `severity must be one of info, warning, error, critical`, true);
+    }
+    if (raw.magnitude !== undefined && (raw.magnitude < 0 || raw.magnitude > 1)) {
+      throw this.createError('INVALID_PARAM', `magnitude must be between 0 and 1`, true);
+    }
+    if (raw.duration_seconds !== undefined && raw.duration_seconds <= 0) {
+      throw this.createError('INVALID_PARAM', `duration_seconds must be > 0`, true);
     }
 
-    const motor = stateStore.updateMotor(sessionId, args.joint_id, {
-      torque_limit: args.torque_limit,
-      pid_p: args.pid_p,
-      pid_i: args.pid_i,
-      pid_d: args.pid_d
-    });
+    return {
+      type,
+      at_seconds: raw.at_seconds,
+      component: raw.component,
+      severity: raw.severity,
+      magnitude: raw.magnitude,
+      duration_seconds: raw.duration_seconds
+    };
+  }
+
+  /**
+   * Fault schedule for a run: an explicit fault_schedule replaces the
+   * session's, otherwise the session faults that apply to the robot are used.
+   * Either way every component must be on the robot that runs and every
+   * fault must start before the run ends
+   */
+  private resolveFaultSchedule(
+    session: SessionState,
+    args: RunFaultScheduleArgs,
+    robotKind: 'ground' | 'drone',
+    targets: FaultTargets,
+    durationSeconds: number
+  ): FaultSchedule {
+    const appliesToRobot = robotKind === 'ground' ? isFailureType : isDroneFailureType;
+    const requested = args.fault_schedule ?? session.fault_schedule.faults.filter(f => appliesToRobot(f.type));
+    const faults = requested.map(f => this.parseScheduledFault(f, robotKind, targets));
+
+    const late = faults.find(f => f.at_seconds >= durationSeconds);
+    if (late) {
+      throw this.createError(
+        'INVALID_PARAM',
+        `${late.type} at t=${late.at_seconds}s would never fire in a ${durationSeconds}s run. Schedule it earlier or lengthen duration_seconds`,
+        true
+      );
+    }
 
     return {
-      status: 'success',
-      message: `Motor ${args.joint_id} parameters updated. P=${motor.pid_p}, I=${motor.pid_i}, D=${motor.pid_d}, Torque=${motor.torque_limit}Nm`,
-      joint_id: args.joint_id,
-      applied_params: motor
+      faults,
+      random_failures: args.random_failures ?? session.fault_schedule.random_failures
     };
   }
 
@@ -315,8 +1801,12 @@ export class SimulationService {
    */
   private async runSimulation(
     sessionId: string,
-    args: { duration_seconds?: number; robot_type?: string; wind_speed?: number; airspace_condition?: string }
+    args: { duration_seconds?: number; robot_type?: string; gait?: string; wind_speed?: number; airspace_condition?: string; seed?: number } & RunFaultScheduleArgs
   ): Promise<RunSimulationResult | DroneRunSimulationResult> {
+    if (args.duration_seconds !== undefined && !(args.duration_seconds > 0)) {
+      throw this.createError('INVALID_PARAM', `duration_seconds must be greater than 0, got ${args.duration_seconds}`, true);
+    }
+
     // Check if this is a drone simulation
     const robotType = (args.robot_type || '').toLowerCase();
     const isDrone = robotType.includes('drone') || robotType.includes('uav') ||
@@ -326,51 +1816,62 @@ export class SimulationService {
       return this.runDroneSimulation(sessionId, args);
     }
 
-    // Ground robot simulation (original logic)
-    // Variable delay: 2000-4500ms (simulates actual computation)
-    const delay = randomDelay(2000, 4500);
-    await sleep(delay);
+    const groundRobotType: GroundRobotType = robotType.includes('quadruped') ? 'quadruped' : 'hexapod';
+    let quadrupedGait: QuadrupedGait | undefined;
+    if (groundRobotType === 'quadruped') {
+      quadrupedGait = (args.gait || 'trot').toLowerCase() as QuadrupedGait;
+      if (!QUADRUPED_GAITS.includes(quadrupedGait)) {
+        throw this.createError('INVALID_PARAM', `Unknown quadruped gait '${args.gait}'. Use one of: ${QUADRUPED_GAITS.join(', ')}`, true);
+      }
+    }
 
     const session = stateStore.getOrCreate(sessionId);
     const duration = args.duration_seconds || 5;
-    const runId = generateRunId();
-
-    // Generate telemetry
-    const telemetry = generateTelemetryStream(
-      duration,
-      session.physics,
-      session.motors,
-      50 // 50Hz sample rate for reasonable data size
+    const faultSchedule = this.resolveFaultSchedule(
+      session, args, 'ground', groundFaultTargets(`the ${groundRobotType}`, [session.robot_models[groundRobotType]]), duration
     );
 
-    // Analyze telemetry
-    const metrics = analyzeTelemetry(telemetry);
+    // Ground robot simulation (original logic)
+    // Variable delay: 2000-4500ms (simulates actual computation)
+    const delay = randomDelay(2000, 4500);
+    await sleep(delay);
 
-    // Generate events (including potential failures)
-    const events = generateSimulationEvents(telemetry, session.physics);
+    const runId = generateRunId();
+    const config: GroundRunConfig = {
+      duration_requested: duration,
+      seed: args.seed !== undefined ? Math.floor(args.seed) >>> 0 : generateSeed(),
+      robot_type: groundRobotType,
+      robot_model: session.robot_models[groundRobotType],
+      gait_config: groundRobotType === 'hexapod'
+        ? { ...session.gait, phase_offsets: { ...session.gait.phase_offsets }, amplitudes: { ...session.gait.amplitudes } }
+        : undefined,
+      quadruped_gait: quadrupedGait,
+      physics_config: { ...session.physics },
+      motor_configs: snapshotMotors(session.motors),
+      battery_config: { ...session.battery },
+      sensor_config: { ...session.sensors },
+      obstacles: session.obstacles.map(obstacle => ({ ...obstacle })),
+      range_sensors: session.range_sensors[groundRobotType].map(cloneRangeSensor),
+      fault_schedule: faultSchedule
+    };
 
-    // Determine if simulation failed
-    const failed = shouldSimulationFail(events);
+    const { telemetry, metrics, events, failed, durationActual } = this.simulateGroundRun(config);
 
-    // Resolve R2 video URL (falls back to placeholder if no R2 video for this robot type)
-    const robotTypeForVideo = (args.robot_type || 'hexapod').toLowerCase();
-    const r2VideoUrl = getR2VideoUrl(robotTypeForVideo);
-    const videoUrl = r2VideoUrl || `https://picsum.photos/800/450?grayscale&random=${runId}`;
+    // Rendered from the stored run when first requested; a run too short to sample has nothing to show
+    const videoUrl = telemetry.length > 0 ? renderUrl(sessionId, runId) : undefined;
 
     // Create run record
     const run: SimulationRun = {
+      ...config,
       run_id: runId,
       status: failed ? 'failed' : 'completed',
       started_at: Date.now() - delay,
       completed_at: Date.now(),
-      duration_requested: duration,
-      duration_actual: duration + Math.random() * 0.5,
-      physics_config: session.physics,
-      motor_configs: session.motors,
+      duration_actual: durationActual,
       telemetry,
       events,
       metrics,
-      video_url: r2VideoUrl
+      video_url: videoUrl
     };
 
     // Store run
@@ -379,19 +1880,195 @@ export class SimulationService {
     // Generate summary
     const telemetrySummary = generateTelemetrySummary(telemetry, metrics);
 
-    // Event summaries
-    const eventsSummary = events.length > 0
-      ? events.slice(0, 3).map(e => `[${e.severity.toUpperCase()}] ${e.message} at t=${(e.timestamp / 1000).toFixed(1)}s`)
-      : undefined;
-
     return {
       run_id: runId,
       status: failed ? 'failed' : 'completed',
       telemetry_summary: telemetrySummary,
       video_url: videoUrl,
       duration_actual: run.duration_actual!,
+      seed: config.seed,
+      metrics,
+      events_summary: summarizeEvents(events)
+    };
+  }
+
+  /**
+   * Generate telemetry, events and metrics for a ground run from a seed
+   */
+  private simulateGroundRun(config: GroundRunConfig): {
+    telemetry: TelemetryFrame[];
+    metrics: SimulationMetrics;
+    events: SimulationEvent[];
+    failed: boolean;
+    durationActual: number;
+  } {
+    const { duration_requested: duration, physics_config: physics, motor_configs: motors, battery_config: battery, sensor_config: sensors, obstacles, range_sensors: rangeSensors } = config;
+    const rng = new SeededRandom(config.seed);
+    const sampleRateHz = 50; // 50Hz sample rate for reasonable data size
+
+    // Generate telemetry and analyze it with the robot's own model
+    let telemetry: TelemetryFrame[];
+    let metrics: SimulationMetrics;
+    // Failures are injected inside the simulation loop so they perturb the frames
+    const faults = new FaultInjector(physics, rng, config.robot_type, duration, sampleRateHz, config.fault_schedule);
+
+    if (config.robot_type === 'quadruped') {
+      const gait = config.quadruped_gait || 'trot';
+      telemetry = generateQuadrupedTelemetryStream(duration, physics, config.robot_model, motors, battery, sensors, obstacles, rangeSensors, gait, rng, faults, sampleRateHz);
+      metrics = analyzeQuadrupedTelemetry(telemetry, gait);
+    } else {
+      const gait = config.gait_config || DEFAULT_GAIT;
+      telemetry = generateTelemetryStream(duration, physics, config.robot_model, motors, battery, sensors, obstacles, rangeSensors, gait, rng, faults, sampleRateHz);
+      metrics = analyzeTelemetry(telemetry, gait);
+    }
+
+    // Combine telemetry-derived events with the injected failures
+    const allEvents = generateSimulationEvents(telemetry, faults.events, config.robot_type);
+
+    // Determine if simulation failed from every event, before the list is trimmed
+    const failed = shouldSimulationFail(allEvents);
+    const events = limitEvents(allEvents);
+
+    return {
+      telemetry,
+      metrics,
+      events,
+      failed,
+      durationActual: duration + rng.next() * 0.5
+    };
+  }
+
+  /**
+   * Regenerate a stored run or drone flight from its seed and configuration
+   */
+  private async replayRun(
+    sessionId: string,
+    args: { run_id: string }
+  ): Promise<ReplayRunResult | DroneReplayRunResult> {
+    if (!args.run_id) {
+      throw this.createError('MISSING_PARAM', 'run_id is required', true);
+    }
+
+    const original = stateStore.getRun(sessionId, args.run_id);
+    if (!original) {
+      const originalFlight = stateStore.getDroneRun(sessionId, args.run_id);
+      if (originalFlight) {
+        return this.replayDroneRun(sessionId, originalFlight);
+      }
+      throw this.createError('RUN_NOT_FOUND', `Run ${args.run_id} not found in this session`, true);
+    }
+
+    // Variable delay: 2000-4500ms (same cost as a fresh run)
+    const delay = randomDelay(2000, 4500);
+    await sleep(delay);
+
+    const runId = generateRunId();
+    const { telemetry, metrics, events, failed, durationActual } = this.simulateGroundRun(original);
+
+    const identical =
+      JSON.stringify(telemetry) === JSON.stringify(original.telemetry) &&
+      JSON.stringify(events) === JSON.stringify(original.events) &&
+      JSON.stringify(metrics) === JSON.stringify(original.metrics);
+
+    const run: SimulationRun = {
+      run_id: runId,
+      status: failed ? 'failed' : 'completed',
+      started_at: Date.now() - delay,
+      completed_at: Date.now(),
+      duration_requested: original.duration_requested,
+      duration_actual: durationActual,
+      seed: original.seed,
+      replay_of: original.run_id,
+      robot_type: original.robot_type,
+      robot_model: original.robot_model,
+      gait_config: original.gait_config,
+      quadruped_gait: original.quadruped_gait,
+      physics_config: original.physics_config,
+      motor_configs: original.motor_configs,
+      battery_config: original.battery_config,
+      sensor_config: original.sensor_config,
+      obstacles: original.obstacles,
+      range_sensors: original.range_sensors,
+      fault_schedule: original.fault_schedule,
+      telemetry,
+      events,
+      metrics,
+      video_url: telemetry.length > 0 ? renderUrl(sessionId, runId) : undefined
+    };
+
+    stateStore.addRun(sessionId, run);
+
+    return {
+      run_id: runId,
+      replay_of: original.run_id,
+      identical,
+      status: failed ? 'failed' : 'completed',
+      telemetry_summary: generateTelemetrySummary(telemetry, metrics),
+      video_url: run.video_url,
+      duration_actual: durationActual,
+      seed: original.seed,
+      metrics,
+      events_summary: summarizeEvents(events)
+    };
+  }
+
+  /**
+   * Regenerate a stored drone flight from its seed and configuration
+   */
+  private async replayDroneRun(sessionId: string, original: DroneSimulationRun): Promise<DroneReplayRunResult> {
+    // Variable delay: 2000-4000ms (same cost as a fresh flight)
+    const delay = randomDelay(2000, 4000);
+    await sleep(delay);
+
+    const runId = generateFlightId();
+    const { telemetry, metrics, flightPath, events, failsafeReport, failed, durationActual } = this.simulateDroneRun(original);
+
+    const identical =
+      JSON.stringify(telemetry) === JSON.stringify(original.telemetry) &&
+      JSON.stringify(events) === JSON.stringify(original.events) &&
+      JSON.stringify(metrics) === JSON.stringify(original.metrics);
+
+    const run: DroneSimulationRun = {
+      run_id: runId,
+      status: failed ? 'failed' : 'completed',
+      started_at: Date.now() - delay,
+      completed_at: Date.now(),
+      duration_requested: original.duration_requested,
+      duration_actual: durationActual,
+      seed: original.seed,
+      replay_of: original.run_id,
+      physics_config: original.physics_config,
+      flight_controller: original.flight_controller,
+      airframe: original.airframe,
+      mission: original.mission,
+      failsafe: original.failsafe,
+      sensor_config: original.sensor_config,
+      obstacles: original.obstacles,
+      range_sensors: original.range_sensors,
+      fault_schedule: original.fault_schedule,
+      telemetry,
+      events,
+      metrics,
+      flight_path: flightPath,
+      failsafe_report: failsafeReport,
+      video_url: telemetry.length > 0 ? renderUrl(sessionId, runId) : undefined
+    };
+
+    stateStore.addDroneRun(sessionId, run);
+
+    return {
+      run_id: runId,
+      replay_of: original.run_id,
+      identical,
+      status: failed ? 'failed' : 'completed',
+      telemetry_summary: generateDroneTelemetrySummary(telemetry, metrics, flightPath, failsafeReport),
+      video_url: run.video_url,
+      duration_actual: durationActual,
+      seed: original.seed,
       metrics,
-      events_summary: eventsSummary
+      flight_path: flightPath,
+      failsafe: failsafeReport,
+      events_summary: summarizeEvents(events)
     };
   }
 
@@ -410,13 +2087,7 @@ export class SimulationService {
                     robotType.includes('quadcopter') || robotType.includes('aerial');
 
     if (isDrone) {
-      // Generate mock drone events for analysis
-      const mockEvents: DroneSimulationEvent[] = [
-        { timestamp: 12400, type: 'wind_warning', severity: 'warning', message: 'Wind compensation active', data: { roll: 15 } },
-        { timestamp: 17840, type: 'motor_failure', severity: 'warning', message: 'Rotor variance detected', data: { variance: 3, rotor: 1 } },
-        { timestamp: 29000, type: 'gps_loss', severity: 'warning', message: 'GPS quality degraded', data: { gps_quality: 65 } }
-      ];
-      return this.analyzeDroneSimulationVideo(sessionId, args, mockEvents, DEFAULT_DRONE_PHYSICS);
+      return this.analyzeDroneSimulationVideo(sessionId, args);
     }
 
     // Ground robot video analysis (original logic)
@@ -464,13 +2135,63 @@ export class SimulationService {
           findings.push(`Frame ${frameNum}-${frameNum + 20}: ${annotation} during recovery`);
           break;
 
-        case 'gait_mismatch':
+        case 'gait_mismatch': {
+          // Injected lag is 0.1-0.25 of a gait cycle scaled by magnitude
+          const gaitFrequency = run.gait_config?.frequency ?? 2;
+          const lagMs = ((0.1 + 0.15 * (event.data?.magnitude ?? 0.5)) / gaitFrequency) * 1000;
+          const legs: string[] = event.data?.affectedComponents || ['leg_2', 'leg_5'];
           annotation = `Gait phase lag detected`;
-          findings.push(`Frame ${frameNum}: ${annotation} between leg_2 and leg_5 (Δ=45ms)`);
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} on ${legs.join(' and ')} (Δ=${lagMs.toFixed(0)}ms)`);
+          break;
+        }
+
+        case 'motor_overheat': {
+          const joints: string[] = event.data?.affectedComponents || [];
+          annotation = `Thermal derating on ${joints.join(', ') || 'drive motors'}`;
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} - reduced joint excursion under load`);
+          break;
+        }
+
+        case 'joint_limit_exceeded': {
+          const joints: string[] = event.data?.affectedComponents || [];
+          annotation = `${joints.join(', ') || 'Joint'} pinned against mechanical stop`;
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation}`);
+          break;
+        }
+
+        case 'static_instability': {
+          const legs: string[] = event.data?.support_legs || [];
+          annotation = `Centre of mass outside the support polygon of ${legs.join(', ') || 'the stance feet'}`;
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} (margin ${((event.data?.min_margin ?? 0) * 100).toFixed(1)}cm)`);
+          break;
+        }
+
+        case 'power_fluctuation':
+          if (event.data?.brownout) {
+            annotation = 'Legs go limp as the motor drivers brown out';
+            findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} (bus at ${event.data.min_voltage}V)`);
+          }
+          break;
+
+        case 'obstacle_detected':
+          annotation = `Obstacle ${event.data?.range}m ahead on ${event.data?.sensor}`;
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} - gait continues unchanged`);
+          break;
+
+        case 'collision':
+          annotation = `Body pressed against ${event.data?.obstacle ?? 'an obstacle'}`;
+          findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} - legs keep stepping but the robot makes no headway`);
+          break;
+
+        case 'sensor_noise':
+          if (event.data?.max_error !== undefined) {
+            annotation = 'Body holds steady while the IMU reports tilt';
+            findings.push(`Frame ${frameNum}-${event.frame_range?.end ?? frameNum}: ${annotation} (up to ${event.data.max_error}° off)`);
+          }
           break;
 
         case 'overheat':
-          findings.push(`Frame ${frameNum}: Thermal signature indicates motor stress`);
+          findings.push(`Frame ${frameNum}: Thermal signature indicates motor stress${event.data?.joint ? ` at ${event.data.joint} (${event.data.temperature}°C)` : ''}`);
           break;
       }
 
@@ -689,102 +2410,244 @@ export class SimulationService {
    */
   async runDroneSimulation(
     sessionId: string,
-    args: { duration_seconds?: number; wind_speed?: number; airspace_condition?: string }
+    args: { duration_seconds?: number; wind_speed?: number; airspace_condition?: string; seed?: number; mission?: MissionArgs } & RunFaultScheduleArgs
   ): Promise<DroneRunSimulationResult> {
+    if (args.duration_seconds !== undefined && !(args.duration_seconds > 0)) {
+      throw this.createError('INVALID_PARAM', `duration_seconds must be greater than 0, got ${args.duration_seconds}`, true);
+    }
+
+    const session = stateStore.getOrCreate(sessionId);
+    const mission = args.mission ? this.resolveMission(session.mission, args.mission).mission : cloneMission(session.mission);
+    const duration = args.duration_seconds || estimateMissionDuration(mission);
+    const faultSchedule = this.resolveFaultSchedule(
+      session, args, 'drone', droneFaultTargets(`the ${session.airframe.type} airframe`, session.airframe.rotors), duration
+    );
+
     // Variable delay: 2000-4000ms
     const delay = randomDelay(2000, 4000);
     await sleep(delay);
 
-    const duration = args.duration_seconds || 30;
-    const runId = `flight_${Math.floor(Date.now() / 1000)}_${Math.random().toString(36).substring(2, 6)}`;
-
-    // Build drone physics config
-    const dronePhysics: DronePhysicsConfig = {
-      ...DEFAULT_DRONE_PHYSICS,
-      wind_speed: args.wind_speed ?? DEFAULT_DRONE_PHYSICS.wind_speed,
-      airspace_condition: (args.airspace_condition as DronePhysicsConfig['airspace_condition']) || DEFAULT_DRONE_PHYSICS.airspace_condition
+    const runId = generateFlightId();
+    const config: DroneRunConfig = {
+      duration_requested: duration,
+      seed: args.seed !== undefined ? Math.floor(args.seed) >>> 0 : generateSeed(),
+      // Session flight environment, with optional per-run wind overrides
+      physics_config: {
+        ...session.drone_physics,
+        wind_speed: args.wind_speed ?? session.drone_physics.wind_speed,
+        airspace_condition: (args.airspace_condition as DronePhysicsConfig['airspace_condition']) || session.drone_physics.airspace_condition
+      },
+      flight_controller: cloneFlightController(session.flight_controller),
+      airframe: cloneAirframe(session.airframe),
+      mission,
+      failsafe: cloneFailsafe(session.failsafe),
+      sensor_config: { ...session.sensors },
+      obstacles: session.obstacles.map(obstacle => ({ ...obstacle })),
+      range_sensors: session.range_sensors.drone.map(cloneRangeSensor),
+      fault_schedule: faultSchedule
     };
 
-    // Generate drone telemetry
-    const telemetry = generateDroneTelemetryStream(duration, dronePhysics, 50);
-
-    // Analyze telemetry
-    const metrics = analyzeDroneTelemetry(telemetry);
-    const flightPath = analyzeDroneFlightPath(telemetry);
-
-    // Generate events (including potential failures)
-    const events = generateDroneSimulationEvents(telemetry, dronePhysics);
-
-    // Determine if simulation failed
-    const failed = shouldDroneSimulationFail(events);
+    const { telemetry, metrics, flightPath, events, failsafeReport, failed, durationActual } = this.simulateDroneRun(config);
 
     // Generate summary
-    const telemetrySummary = generateDroneTelemetrySummary(telemetry, metrics, flightPath);
+    const telemetrySummary = generateDroneTelemetrySummary(telemetry, metrics, flightPath, failsafeReport);
 
-    // Resolve R2 video URL for drone
-    const r2VideoUrl = R2_VIDEO_MAP.drone;
-    const videoUrl = r2VideoUrl || `https://picsum.photos/800/450?grayscale&random=${runId}`;
+    // Rendered from the stored flight when first requested; a flight too short to sample has nothing to show
+    const videoUrl = telemetry.length > 0 ? renderUrl(sessionId, runId) : undefined;
 
-    // Event summaries
-    const eventsSummary = events.length > 0
-      ? events.slice(0, 3).map(e => `[${e.severity.toUpperCase()}] ${e.message} at t=${(e.timestamp / 1000).toFixed(1)}s`)
-      : undefined;
+    // Store the flight so it can be analyzed later
+    const run: DroneSimulationRun = {
+      ...config,
+      run_id: runId,
+      status: failed ? 'failed' : 'completed',
+      started_at: Date.now() - delay,
+      completed_at: Date.now(),
+      duration_actual: durationActual,
+      telemetry,
+      events,
+      metrics,
+      flight_path: flightPath,
+      failsafe_report: failsafeReport,
+      video_url: videoUrl
+    };
+    stateStore.addDroneRun(sessionId, run);
 
     return {
       run_id: runId,
       status: failed ? 'failed' : 'completed',
       telemetry_summary: telemetrySummary,
       video_url: videoUrl,
-      duration_actual: duration + Math.random() * 0.5,
+      duration_actual: durationActual,
+      seed: config.seed,
       metrics,
       flight_path: flightPath,
-      events_summary: eventsSummary
+      failsafe: failsafeReport,
+      events_summary: summarizeEvents(events)
+    };
+  }
+
+  /**
+   * Generate telemetry, events, metrics and the failsafe outcome for a drone
+   * flight from a seed
+   */
+  private simulateDroneRun(config: DroneRunConfig): {
+    telemetry: DroneTelemetryFrame[];
+    metrics: DroneSimulationMetrics;
+    flightPath: DroneFlightPath;
+    events: DroneSimulationEvent[];
+    failsafeReport: FailsafeReport;
+    failed: boolean;
+    durationActual: number;
+  } {
+    const { duration_requested: duration, physics_config: dronePhysics, airframe, mission, failsafe } = config;
+    const rng = new SeededRandom(config.seed);
+
+    // Generate drone telemetry, starting scheduled faults inside the flight loop
+    const faults = new DroneFaultInjector(dronePhysics, rng, duration, 50, config.fault_schedule, airframe.rotors);
+    const telemetry = generateDroneTelemetryStream(
+      duration, dronePhysics, config.flight_controller, airframe, mission, failsafe,
+      config.sensor_config, config.obstacles, config.range_sensors, rng, faults, 50
+    );
+
+    // Analyze telemetry
+    const metrics = analyzeDroneTelemetry(telemetry);
+    const flightPath = analyzeDroneFlightPath(telemetry, mission);
+
+    // Generate events (including potential failures)
+    const allEvents = generateDroneSimulationEvents(telemetry, faults);
+
+    // Failsafe outcome, from the full event record rather than the trimmed event list
+    const failsafeReport = analyzeDroneFailsafe(telemetry, faults.events, failsafe, mission);
+
+    // Determine if simulation failed from every event, before the list is trimmed
+    const failed = shouldDroneSimulationFail(allEvents);
+    const events = limitEvents(allEvents);
+
+    return {
+      telemetry,
+      metrics,
+      flightPath,
+      events,
+      failsafeReport,
+      failed,
+      durationActual: duration + rng.next() * 0.5
     };
   }
 
   /**
-   * Analyze drone simulation video
+   * Analyze drone simulation video from the stored flight
    */
   async analyzeDroneSimulationVideo(
     sessionId: string,
-    args: { run_id: string; focus_area?: string },
-    events: DroneSimulationEvent[],
-    dronePhysics: DronePhysicsConfig
+    args: { run_id: string; focus_area?: string }
   ): Promise<AnalyzeVideoResult> {
     // Variable delay: 1500-2800ms
     await sleep(randomDelay(1500, 2800));
 
+    // Try to find the referenced flight, falling back to the latest one
+    const run = stateStore.getDroneRun(sessionId, args.run_id) || stateStore.getLatestDroneRun(sessionId);
+
+    if (!run) {
+      return {
+        analysis: `Visual analysis requested for flight ${args.run_id}, but no flight data found.`,
+        findings: ['No telemetry data available for analysis'],
+        recommendations: ['Run a drone simulation first using run_simulation with a drone robot_type'],
+        confidence: 0.5
+      };
+    }
+
+    const frames = run.telemetry;
+    const rotorIds = run.airframe.rotors.map(r => r.id);
     const findings: string[] = [];
     const frameAnnotations: { frame: number; annotation: string; confidence: number }[] = [];
 
-    // Generate findings based on events
-    for (const event of events) {
-      const frameNum = Math.floor(event.timestamp / 20); // Assuming 50fps
+    // Generate findings from the flight's events, read back against its telemetry
+    for (const event of run.events) {
+      const frameNum = Math.max(0, frames.findIndex(f => f.timestamp >= event.timestamp));
+      const frame = frames[frameNum];
+
+      // Telemetry checks re-detect an injected fault while it lasts; report it once
+      const alreadyReported = !event.frame_range && run.events.some(e =>
+        e.type === event.type && e.frame_range && frameNum >= e.frame_range.start && frameNum <= e.frame_range.end
+      );
+      if (alreadyReported) continue;
+
+      const endFrame = event.frame_range?.end;
+      const span = endFrame !== undefined ? `Frame ${frameNum}-${endFrame}` : `Frame ${frameNum}`;
       let annotation = '';
 
       switch (event.type) {
         case 'wind_warning':
-          annotation = `Wind gust detected - ${Math.abs(event.data?.roll || 15).toFixed(0)}° roll compensation initiated`;
-          findings.push(`Frame ${frameNum}: ${annotation}`);
+          annotation = `Attitude excursion - roll ${frame.truth.attitude.roll.toFixed(1)}°, pitch ${frame.truth.attitude.pitch.toFixed(1)}° compensation`;
+          findings.push(`${span}: ${annotation}`);
           break;
 
-        case 'motor_failure':
-          annotation = `Rotor showing ${event.data?.variance?.toFixed(0) || '3'}% RPM variance`;
-          findings.push(`Frame ${frameNum}-${frameNum + 18}: ${annotation} (within tolerance)`);
+        case 'motor_failure': {
+          const meanRPM = frame.rotor_speeds.reduce((a, b) => a + b, 0) / frame.rotor_speeds.length;
+          const rotor: number = event.data?.rotor ??
+            Math.max(0, rotorIds.indexOf(event.data?.affectedComponents?.[0]));
+          const deviation = frame.rotor_speeds[rotor] - meanRPM;
+          annotation = `${rotorIds[rotor]} at ${frame.rotor_speeds[rotor]} RPM (${deviation >= 0 ? '+' : ''}${deviation.toFixed(0)} vs mean)`;
+          findings.push(`${span}: ${annotation}`);
           break;
+        }
 
         case 'gps_loss':
-          annotation = 'GPS multipath interference detected';
-          findings.push(`Frame ${frameNum}: ${annotation} caused position jump`);
+          annotation = `GPS quality dropped to ${frame.gps_quality}%`;
+          findings.push(`${span}: ${annotation} - position estimate degraded, fix ${(event.data?.gps_error ?? 0).toFixed(1)}m from the airframe's true position`);
           break;
 
         case 'low_battery':
-          findings.push(`Frame ${frameNum}: Battery warning - ${event.data?.battery_remaining?.toFixed(0) || '15'}% remaining`);
+          findings.push(`${span}: Battery at ${frame.battery.remaining.toFixed(0)}% (${frame.battery.voltage.toFixed(2)}V)`);
           break;
 
         case 'signal_lost':
-          findings.push(`Frame ${frameNum}: RC signal degradation to ${event.data?.signal_strength || '-70'}dBm`);
+          annotation = `RC signal degraded to ${frame.signal_strength}dBm`;
+          findings.push(`${span}: ${annotation}`);
+          break;
+
+        case 'geofence_breach':
+        case 'flyaway': {
+          const last = frames[endFrame ?? frames.length - 1];
+          const driftM = Math.hypot(
+            (last.truth.position.lat - frame.truth.position.lat) * 111000,
+            (last.truth.position.lon - frame.truth.position.lon) * 111000 * Math.cos(frame.truth.position.lat * Math.PI / 180)
+          );
+          annotation = event.type === 'flyaway' ? 'Uncommanded flight away from home' : 'Drift toward operational boundary';
+          findings.push(`${span}: ${annotation} - ${driftM.toFixed(1)}m lateral drift, altitude ${frame.truth.position.alt.toFixed(1)}m → ${last.truth.position.alt.toFixed(1)}m`);
           break;
+        }
+
+        case 'obstacle_detected':
+          if (event.data?.sensor) {
+            annotation = `Obstacle ${event.data.range}m away on ${event.data.sensor}`;
+            findings.push(`${span}: ${annotation} - flying at ${Math.hypot(frame.velocity.vx, frame.velocity.vy).toFixed(1)}m/s with no avoidance`);
+          } else {
+            annotation = `Avoidance maneuver - bank to ${frame.truth.attitude.roll.toFixed(1)}° roll`;
+            findings.push(`${span}: ${annotation}`);
+          }
+          break;
+
+        case 'collision':
+          annotation = `Rotor strike on ${event.data?.obstacle ?? 'an obstacle'}`;
+          findings.push(`${span}: ${annotation} at ${event.data?.speed ?? 0}m/s, ${event.data?.alt ?? frame.truth.position.alt.toFixed(1)}m up - motors cut and the airframe falls`);
+          break;
+
+        case 'crash':
+          annotation = `Ground impact at ${event.data?.impact_speed?.toFixed(1)}m/s`;
+          findings.push(`${span}: ${annotation}${event.data?.flipped ? ' after the airframe flipped past recovery' : ''} - rotors ${frame.rotor_speeds.join('/')} RPM`);
+          break;
+
+        case 'failsafe_rth':
+        case 'failsafe_land': {
+          const report = run.failsafe_report;
+          const outcome = !report?.landed
+            ? 'still airborne at end of run'
+            : `${report.landed_safely ? 'safe' : 'unsafe'} touchdown ${report.distance_from_home!.toFixed(1)}m from home at ${report.touchdown_speed!.toFixed(1)}m/s`;
+          annotation = event.type === 'failsafe_rth' ? 'Return-to-home engaged' : 'Land-in-place engaged';
+          findings.push(`${span}: ${annotation} at ${frame.truth.position.alt.toFixed(1)}m altitude, battery ${frame.battery.remaining.toFixed(0)}% - ${outcome}`);
+          break;
+        }
       }
 
       if (annotation) {
@@ -796,18 +2659,41 @@ export class SimulationService {
       }
     }
 
-    // Add landing analysis if no other major findings
-    if (findings.length < 3) {
-      findings.push('Frame 2100: Descent rate exceeded 2m/s during landing approach');
+    // Landing analysis: fastest descent in the final phase of the flight
+    let landingFrame = -1;
+    for (let i = Math.floor(frames.length * 0.8); i < frames.length; i++) {
+      if (landingFrame < 0 || frames[i].velocity.vz < frames[landingFrame].velocity.vz) {
+        landingFrame = i;
+      }
+    }
+    const maxDescentRate = landingFrame >= 0 ? -frames[landingFrame].velocity.vz : 0;
+    if (maxDescentRate > 1.5) {
+      findings.push(`Frame ${landingFrame}: Descent rate reached ${maxDescentRate.toFixed(1)}m/s during landing approach`);
       frameAnnotations.push({
-        frame: 2100,
+        frame: landingFrame,
         annotation: 'Fast descent warning',
         confidence: 0.92
       });
     }
 
+    // Focus area specific analysis
+    if (args.focus_area) {
+      const rotor = rotorIds.indexOf(args.focus_area);
+      if (rotor >= 0 && frames.length > 0) {
+        const avgRPM = frames.reduce((sum, f) => sum + f.rotor_speeds[rotor], 0) / frames.length;
+        findings.push(`Detailed analysis of ${args.focus_area}: average ${avgRPM.toFixed(0)} RPM against ${run.metrics?.avg_rotor_rpm ?? 0} RPM across all rotors`);
+      } else {
+        findings.push(`Detailed analysis of ${args.focus_area}: No anomalies detected in specified region`);
+      }
+    }
+
+    if (findings.length === 0) {
+      findings.push('Flight appears nominal');
+      findings.push(`Hover accuracy ${run.metrics?.hover_accuracy ?? 0}%, altitude stability ${run.metrics?.altitude_stability ?? 0}%`);
+    }
+
     // Generate recommendations
-    const recommendations = generateDroneRecommendations(events, dronePhysics);
+    const recommendations = generateDroneRecommendations(run.events, run.physics_config);
 
     // Add generic recommendations if none
     if (recommendations.length === 0) {
@@ -816,20 +2702,52 @@ export class SimulationService {
     }
 
     // Add landing-specific recommendation
-    if (!recommendations.some(r => r.includes('landing'))) {
+    if (maxDescentRate > 1.5 && !recommendations.some(r => r.includes('landing'))) {
       recommendations.push('Reduce landing descent rate to < 1.5m/s for smoother touchdown');
     }
 
     return {
-      analysis: `Visual analysis of flight ${args.run_id} complete. Analyzed ${Math.floor((args.focus_area ? 30 : 45) * 50)} frames over ${args.focus_area ? '30.0' : '45.2'}s.`,
+      analysis: `Visual analysis of flight ${run.run_id} complete. Analyzed ${frames.length} frames over ${run.duration_actual?.toFixed(2)}s.`,
       findings: findings.slice(0, 5),
       recommendations: recommendations.slice(0, 4),
       confidence: 0.88 + Math.random() * 0.08,
-      video_url: R2_VIDEO_MAP.drone,
+      video_url: run.video_url,
       frame_annotations: frameAnnotations.length > 0 ? frameAnnotations.slice(0, 5) : undefined
     };
   }
 
+
+  /**
+   * Animated PNG of a stored ground run or flight. A run never changes once
+   * stored, so its rendering is cached, and a request arriving while it is
+   * drawn waits for the same rendering.
+   */
+  async renderRun(sessionId: string, runId: string): Promise<Buffer> {
+    const key = `${sessionId}/${runId}`;
+    const cached = renderCache.get(key);
+    if (cached) return cached;
+
+    const groundRun = stateStore.getRun(sessionId, runId);
+    const droneRun = groundRun ? undefined : stateStore.getDroneRun(sessionId, runId);
+    if (!groundRun && !droneRun) {
+      throw this.createError('RUN_NOT_FOUND', `Run ${runId} not found in this session`, true);
+    }
+    if ((groundRun?.telemetry ?? droneRun!.telemetry).length === 0) {
+      throw this.createError('NO_TELEMETRY', `Run ${runId} recorded no telemetry to render`, false);
+    }
+
+    const rendering = groundRun ? renderGroundRun(groundRun) : renderDroneRun(droneRun!);
+    renderCache.set(key, rendering);
+    if (renderCache.size > RENDER_CACHE_SIZE) {
+      renderCache.delete(renderCache.keys().next().value!);
+    }
+    // A failed rendering is not kept, so the next request tries again
+    rendering.catch(() => {
+      if (renderCache.get(key) === rendering) renderCache.delete(key);
+    });
+    return rendering;
+  }
+
   /**
    * Create a standardized error
    */
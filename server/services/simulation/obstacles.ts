@@ -0,0 +1,211 @@
+// Obstacles - World obstacles: range sensing against them and keeping robots out of them
+
+import { Obstacle, RangeSensorConfig } from './types';
+import { SeededRandom } from './random';
+
+/**
+ * Where a robot stands in the ground frame
+ */
+export interface PlanarPose {
+  x: number;         // m
+  y: number;         // m
+  heading: number;   // rad, from x toward y
+  height: number;    // m, body above the ground
+}
+
+// ============================================
+// Geometry
+// ============================================
+
+/**
+ * A point in an obstacle's own frame, with x along its length
+ */
+function toObstacleFrame(obstacle: Obstacle, x: number, y: number): [number, number] {
+  const dx = x - obstacle.x;
+  const dy = y - obstacle.y;
+  if (obstacle.type === 'cylinder') return [dx, dy];
+  const yaw = obstacle.yaw * Math.PI / 180;
+  return [dx * Math.cos(yaw) + dy * Math.sin(yaw), -dx * Math.sin(yaw) + dy * Math.cos(yaw)];
+}
+
+/**
+ * Signed distance (m) from a point to an obstacle's footprint, negative
+ * inside it, with the outward direction in the ground frame
+ */
+function footprintDistance(obstacle: Obstacle, x: number, y: number): { distance: number; normal: [number, number] } {
+  const [lx, ly] = toObstacleFrame(obstacle, x, y);
+  if (obstacle.type === 'cylinder') {
+    const r = Math.hypot(lx, ly);
+    return { distance: r - obstacle.radius, normal: r > 0 ? [lx / r, ly / r] : [1, 0] };
+  }
+
+  const qx = Math.abs(lx) - obstacle.length / 2;
+  const qy = Math.abs(ly) - obstacle.width / 2;
+  let local: [number, number];
+  let distance: number;
+  if (qx > 0 || qy > 0) {
+    const [ox, oy] = [Math.max(qx, 0) * Math.sign(lx), Math.max(qy, 0) * Math.sign(ly)];
+    distance = Math.hypot(ox, oy);
+    local = [ox / distance, oy / distance];
+  } else {
+    // Inside: out through the nearest side
+    distance = Math.max(qx, qy);
+    local = qx > qy ? [Math.sign(lx) || 1, 0] : [0, Math.sign(ly) || 1];
+  }
+  const yaw = obstacle.yaw * Math.PI / 180;
+  return {
+    distance,
+    normal: [local[0] * Math.cos(yaw) - local[1] * Math.sin(yaw), local[0] * Math.sin(yaw) + local[1] * Math.cos(yaw)]
+  };
+}
+
+/**
+ * Distance (m) along a horizontal ray to where it enters an obstacle, or
+ * Infinity if it misses. A ray starting inside hits at once.
+ */
+function rayDistance(obstacle: Obstacle, x: number, y: number, angle: number): number {
+  const [ox, oy] = toObstacleFrame(obstacle, x, y);
+  const [dx, dy] = toObstacleFrame(obstacle, obstacle.x + Math.cos(angle), obstacle.y + Math.sin(angle));
+
+  if (obstacle.type === 'cylinder') {
+    // |o + t d|² = r² with d a unit vector
+    const b = ox * dx + oy * dy;
+    const c = ox * ox + oy * oy - obstacle.radius ** 2;
+    if (c <= 0) return 0;
+    const discriminant = b * b - c;
+    if (discriminant < 0) return Infinity;
+    const t = -b - Math.sqrt(discriminant);
+    return t >= 0 ? t : Infinity;
+  }
+
+  // Slab test against the box's two pairs of sides
+  let near = -Infinity;
+  let far = Infinity;
+  for (const [origin, direction, half] of [[ox, dx, obstacle.length / 2], [oy, dy, obstacle.width / 2]]) {
+    if (Math.abs(direction) < 1e-12) {
+      if (Math.abs(origin) > half) return Infinity;
+      continue;
+    }
+    const t1 = (-half - origin) / direction;
+    const t2 = (half - origin) / direction;
+    near = Math.max(near, Math.min(t1, t2));
+    far = Math.min(far, Math.max(t1, t2));
+  }
+  if (near > far || far < 0) return Infinity;
+  return Math.max(near, 0);
+}
+
+/**
+ * Obstacles standing taller than a height above the ground
+ */
+function reaching(obstacles: Obstacle[], height: number): Obstacle[] {
+  return obstacles.filter(obstacle => obstacle.height > height);
+}
+
+/**
+ * The obstacle closest to a round outline of a radius (m) about a point, and
+ * the gap (m) between them; only obstacles taller than the height count.
+ * Null if there are none.
+ */
+export function nearestObstacle(
+  obstacles: Obstacle[],
+  x: number,
+  y: number,
+  radius: number,
+  height: number = 0
+): { id: string; clearance: number } | null {
+  let nearest: { id: string; clearance: number } | null = null;
+  for (const obstacle of reaching(obstacles, height)) {
+    const clearance = footprintDistance(obstacle, x, y).distance - radius;
+    if (!nearest || clearance < nearest.clearance) {
+      nearest = { id: obstacle.id, clearance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Move a round outline out of any obstacle it overlaps, along the shortest
+ * way out, so a robot slides along an obstacle rather than passing through it
+ */
+export function pushClear(
+  obstacles: Obstacle[],
+  position: { x: number; y: number },
+  radius: number,
+  height: number = 0
+): { x: number; y: number } {
+  let { x, y } = position;
+  for (const obstacle of reaching(obstacles, height)) {
+    const { distance, normal } = footprintDistance(obstacle, x, y);
+    if (distance < radius) {
+      x += normal[0] * (radius - distance);
+      y += normal[1] * (radius - distance);
+    }
+  }
+  return { x, y };
+}
+
+// ============================================
+// Range Sensors
+// ============================================
+
+/**
+ * Headings (rad, relative to the body) of the rays a sensor casts. A full
+ * circle spaces its rays evenly around; a narrower scan spans its width edge
+ * to edge.
+ */
+export function beamAngles(sensor: RangeSensorConfig): number[] {
+  const centre = sensor.direction * Math.PI / 180;
+  if (sensor.type === 'single_beam' || sensor.beams <= 1) return [centre];
+  const fov = sensor.fov * Math.PI / 180;
+  const fullCircle = sensor.fov >= 360;
+  const spacing = fov / (fullCircle ? sensor.beams : sensor.beams - 1);
+  const first = fullCircle ? centre : centre - fov / 2;
+  return Array.from({ length: sensor.beams }, (_, k) => first + k * spacing);
+}
+
+/**
+ * The range sensors on a robot. Every ray is cast level from the sensor's
+ * mount, so it sees the obstacles that stand taller than the mount and reads
+ * the distance to the first one it meets, plus noise; with nothing in range
+ * it reads the sensor's maximum range. Noise comes from its own stream,
+ * seeded from the run's, so the number of rays never shifts the rest of the
+ * simulation.
+ */
+export class RangeSensors {
+  private readonly rng: SeededRandom;
+  private readonly beams: { sensor: RangeSensorConfig; angles: number[] }[];
+
+  constructor(sensors: RangeSensorConfig[], private readonly obstacles: Obstacle[], rng: SeededRandom) {
+    this.rng = new SeededRandom(Math.floor(rng.next() * 2 ** 32));
+    this.beams = sensors.map(sensor => ({ sensor, angles: beamAngles(sensor) }));
+  }
+
+  /**
+   * Read every sensor with the robot at a pose: one range for a beam, one per
+   * ray across a scan, in metres
+   */
+  read(pose: PlanarPose): Record<string, number | number[]> {
+    const readings: Record<string, number | number[]> = {};
+    const cos = Math.cos(pose.heading);
+    const sin = Math.sin(pose.heading);
+
+    for (const { sensor, angles } of this.beams) {
+      const [mx, my, mz] = sensor.mount;
+      const x = pose.x + mx * cos - my * sin;
+      const y = pose.y + mx * sin + my * cos;
+      const visible = reaching(this.obstacles, pose.height + mz);
+
+      const ranges = angles.map(angle => {
+        const hit = Math.min(...visible.map(obstacle => rayDistance(obstacle, x, y, pose.heading + angle)));
+        const noise = this.rng.gaussian(0, sensor.noise);
+        return hit < sensor.max_range
+          ? Number(Math.min(Math.max(0, hit + noise), sensor.max_range).toFixed(2))
+          : sensor.max_range;
+      });
+      readings[sensor.sensor_id] = sensor.type === 'single_beam' ? ranges[0] : ranges;
+    }
+
+    return readings;
+  }
+}
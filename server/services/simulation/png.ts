@@ -0,0 +1,116 @@
+// PNG Encoding - Animated palette PNGs, written with zlib alone
+
+import { deflate } from 'zlib';
+import { promisify } from 'util';
+
+const deflateAsync = promisify(deflate);
+
+// A palette image: one palette index per pixel, row by row
+export interface IndexedImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+// One frame of an animation, covering the whole image
+export interface AnimationFrame {
+  pixels: Uint8Array;
+  delay: number;               // ms shown before the next frame
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const COLOUR_TYPE_INDEXED = 3;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// ============================================
+// Chunks
+// ============================================
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Length, type, data and CRC of one chunk
+ */
+function chunk(type: string, data: Buffer): Buffer {
+  const typed = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typed));
+  return Buffer.concat([length, typed, crc]);
+}
+
+function uint32s(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+}
+
+function header(width: number, height: number, palette: [number, number, number][]): Buffer[] {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error(`A palette holds 1 to 256 colours, not ${palette.length}`);
+  }
+  const ihdr = Buffer.concat([uint32s(width, height), Buffer.from([8, COLOUR_TYPE_INDEXED, 0, 0, 0])]);
+  return [PNG_SIGNATURE, chunk('IHDR', ihdr), chunk('PLTE', Buffer.from(palette.flat()))];
+}
+
+/**
+ * Scanlines of an image, each led by filter type 0 (none), which suits flat
+ * palette art best
+ */
+function scanlines(width: number, height: number, pixels: Uint8Array): Buffer {
+  const raw = Buffer.alloc((width + 1) * height);
+  for (let row = 0; row < height; row++) {
+    raw.set(pixels.subarray(row * width, (row + 1) * width), row * (width + 1) + 1);
+  }
+  return raw;
+}
+
+// ============================================
+// Images
+// ============================================
+
+/**
+ * Encode frames as an animated PNG that loops forever. The still image is
+ * what a decoder without animation support shows; it is left out of the
+ * animation itself. Compression runs on the zlib thread pool, so long
+ * animations do not hold up the event loop.
+ */
+export async function encodeAnimatedPng(
+  still: IndexedImage,
+  frames: AnimationFrame[],
+  palette: [number, number, number][]
+): Promise<Buffer> {
+  const { width, height } = still;
+  const chunks = [
+    ...header(width, height, palette),
+    chunk('acTL', uint32s(frames.length, 0)),
+    chunk('IDAT', await deflateAsync(scanlines(width, height, still.pixels)))
+  ];
+
+  // Frame control and frame data chunks share one sequence
+  let sequence = 0;
+  for (const frame of frames) {
+    const delay = Buffer.alloc(4);
+    delay.writeUInt16BE(Math.max(1, Math.round(frame.delay)), 0);
+    delay.writeUInt16BE(1000, 2);
+    chunks.push(chunk('fcTL', Buffer.concat([uint32s(sequence++, width, height, 0, 0), delay, Buffer.from([0, 0])])));
+    chunks.push(chunk('fdAT', Buffer.concat([uint32s(sequence++), await deflateAsync(scanlines(width, height, frame.pixels))])));
+  }
+
+  chunks.push(chunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,44 @@
+// Seeded Random - Deterministic PRNG so simulation runs can be reproduced
+
+/**
+ * Seedable pseudo-random source (mulberry32).
+ * Every stochastic draw in telemetry, events and failure injection goes
+ * through one of these so a run can be regenerated from its seed.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Uniform random number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Gaussian sample (Box-Muller)
+   */
+  gaussian(mean: number = 0, stdDev: number = 1): number {
+    const u1 = this.next() || Number.EPSILON;
+    const u2 = this.next();
+    const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+    return z0 * stdDev + mean;
+  }
+}
+
+/**
+ * Generate a fresh 32-bit seed for runs that did not request one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,783 @@
+// Render - Draws a run's telemetry into an animated PNG: robot pose, terrain, obstacles and events
+
+import {
+  SimulationRun,
+  DroneSimulationRun,
+  TelemetryFrame,
+  DroneTelemetryFrame,
+  Obstacle,
+  RangeSensorConfig
+} from './types';
+import { legChains } from './robot';
+import { terrainHeight } from './terrain';
+import { levelFrame, toLocal } from './telemetry';
+import { beamAngles } from './obstacles';
+import { IndexedImage, AnimationFrame, encodeAnimatedPng } from './png';
+
+// ============================================
+// Layout and Palette
+// ============================================
+
+const WIDTH = 960;
+const HEIGHT = 540;
+const PLAYBACK_INTERVAL_MS = 100;     // shortest time between animation frames
+const MAX_ANIMATION_FRAMES = 100;     // longer runs skip more telemetry frames between them
+const EVENT_WINDOW_MS = 250;          // an event without a frame range shows this long either side
+const SHEET_SIZE = 3;                 // the still image is a 3x3 grid of keyframes
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const LEFT_PANEL: Rect = { x: 8, y: 32, width: 560, height: 468 };
+const RIGHT_PANEL: Rect = { x: 576, y: 32, width: 376, height: 468 };
+const PROGRESS_BAR: Rect = { x: 8, y: 512, width: 944, height: 16 };
+
+// Background colours come first: the keyframe grid keeps the highest index
+// in each block it shrinks, so thin foreground lines survive
+const COLOURS = {
+  sky: [226, 232, 240],
+  map: [236, 238, 230],
+  grid: [205, 210, 218],
+  earth: [181, 160, 128],
+  earthEdge: [120, 100, 75],
+  track: [200, 204, 212],
+  geofence: [150, 200, 150],
+  missionPath: [140, 170, 215],
+  trail: [59, 125, 216],
+  obstacle: [138, 143, 153],
+  obstacleEdge: [74, 79, 89],
+  ray: [240, 170, 60],
+  farLeg: [140, 147, 163],
+  body: [58, 63, 74],
+  nearLeg: [31, 36, 48],
+  footAir: [160, 167, 180],
+  footContact: [46, 160, 67],
+  footSlip: [229, 83, 61],
+  waypoint: [47, 95, 168],
+  rayHit: [208, 80, 16],
+  progress: [59, 125, 216],
+  warning: [230, 167, 0],
+  error: [209, 36, 47],
+  text: [17, 17, 17]
+} satisfies Record<string, [number, number, number]>;
+
+type Colour = keyof typeof COLOURS;
+
+// Ground heights on the map, low to high, and rotor speeds, idle to full
+const HEIGHT_SHADES = 16;
+const ROTOR_SHADES = 8;
+
+const PALETTE: [number, number, number][] = [
+  ...gradient([214, 222, 200], [150, 128, 100], HEIGHT_SHADES),
+  ...Object.values(COLOURS) as [number, number, number][],
+  ...gradient([46, 160, 67], [209, 36, 47], ROTOR_SHADES)
+];
+const HEIGHT_SHADE_BASE = 0;
+const COLOUR_INDEX = Object.fromEntries(Object.keys(COLOURS).map((name, i) => [name, HEIGHT_SHADES + i])) as Record<Colour, number>;
+const ROTOR_SHADE_BASE = HEIGHT_SHADES + Object.keys(COLOURS).length;
+
+function gradient(from: number[], to: number[], steps: number): [number, number, number][] {
+  return Array.from({ length: steps }, (_, i) =>
+    from.map((c, k) => Math.round(c + (to[k] - c) * i / (steps - 1))) as [number, number, number]);
+}
+
+// 3x5 glyphs, rows top to bottom
+const FONT: Record<string, string> = {
+  A: '.#. #.# ### #.# #.#', B: '##. #.# ##. #.# ##.', C: '.## #.. #.. #.. .##', D: '##. #.# #.# #.# ##.',
+  E: '### #.. ##. #.. ###', F: '### #.. ##. #.. #..', G: '.## #.. #.# #.# .##', H: '#.# #.# ### #.# #.#',
+  I: '### .#. .#. .#. ###', J: '..# ..# ..# #.# .#.', K: '#.# #.# ##. #.# #.#', L: '#.. #.. #.. #.. ###',
+  M: '#.# ### ### #.# #.#', N: '##. #.# #.# #.# #.#', O: '.#. #.# #.# #.# .#.', P: '##. #.# ##. #.. #..',
+  Q: '.#. #.# #.# ##. .##', R: '##. #.# ##. #.# #.#', S: '.## #.. .#. ..# ##.', T: '### .#. .#. .#. .#.',
+  U: '#.# #.# #.# #.# ###', V: '#.# #.# #.# #.# .#.', W: '#.# #.# ### ### #.#', X: '#.# #.# .#. #.# #.#',
+  Y: '#.# #.# .#. .#. .#.', Z: '### ..# .#. #.. ###',
+  0: '### #.# #.# #.# ###', 1: '.#. ##. .#. .#. ###', 2: '##. ..# .#. #.. ###', 3: '##. ..# .#. ..# ##.',
+  4: '#.# #.# ### ..# ..#', 5: '### #.. ##. ..# ##.', 6: '.## #.. ### #.# ###', 7: '### ..# .#. .#. .#.',
+  8: '### #.# ### #.# ###', 9: '### #.# ### ..# ##.',
+  '.': '... ... ... ... .#.', '-': '... ... ### ... ...', ':': '... .#. ... .#. ...',
+  '%': '#.# ..# .#. #.. #.#', '/': '..# ..# .#. #.. #..'
+};
+
+// ============================================
+// Raster Canvas
+// ============================================
+
+/**
+ * Palette image drawn with flat-coloured primitives, clipped to a rectangle
+ */
+class Canvas {
+  readonly pixels: Uint8Array;
+  private clip: Rect;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height);
+    this.clip = { x: 0, y: 0, width, height };
+  }
+
+  clipTo(rect?: Rect): void {
+    this.clip = rect ?? { x: 0, y: 0, width: this.width, height: this.height };
+  }
+
+  private span(y: number, x0: number, x1: number, index: number): void {
+    const { clip } = this;
+    y = Math.round(y);
+    if (y < clip.y || y >= clip.y + clip.height) return;
+    const start = Math.max(Math.round(x0), clip.x);
+    const end = Math.min(Math.round(x1), clip.x + clip.width - 1);
+    if (end >= start) this.pixels.fill(index, y * this.width + start, y * this.width + end + 1);
+  }
+
+  rect(rect: Rect, colour: Colour | number): void {
+    const index = typeof colour === 'number' ? colour : COLOUR_INDEX[colour];
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      this.span(y, rect.x, rect.x + rect.width - 1, index);
+    }
+  }
+
+  outline(rect: Rect, colour: Colour, width: number = 1): void {
+    this.rect({ x: rect.x, y: rect.y, width: rect.width, height: width }, colour);
+    this.rect({ x: rect.x, y: rect.y + rect.height - width, width: rect.width, height: width }, colour);
+    this.rect({ x: rect.x, y: rect.y, width, height: rect.height }, colour);
+    this.rect({ x: rect.x + rect.width - width, y: rect.y, width, height: rect.height }, colour);
+  }
+
+  disc(cx: number, cy: number, radius: number, colour: Colour | number): void {
+    const index = typeof colour === 'number' ? colour : COLOUR_INDEX[colour];
+    for (let dy = -Math.ceil(radius); dy <= Math.ceil(radius); dy++) {
+      const half = Math.sqrt(Math.max(0, radius * radius - dy * dy));
+      if (half > 0 || radius < 1) this.span(cy + dy, cx - half, cx + half, index);
+    }
+  }
+
+  line(x0: number, y0: number, x1: number, y1: number, colour: Colour | number, width: number = 1): void {
+    const index = typeof colour === 'number' ? colour : COLOUR_INDEX[colour];
+    const half = (width - 1) / 2;
+
+    // Trim the line to the clip rectangle (Liang-Barsky)
+    const { clip } = this;
+    const [dx, dy] = [x1 - x0, y1 - y0];
+    let [enter, leave] = [0, 1];
+    for (const [p, q] of [
+      [-dx, x0 - (clip.x - width)], [dx, clip.x + clip.width + width - x0],
+      [-dy, y0 - (clip.y - width)], [dy, clip.y + clip.height + width - y0]
+    ]) {
+      if (p === 0) {
+        if (q < 0) return;
+      } else if (p < 0) {
+        enter = Math.max(enter, q / p);
+      } else {
+        leave = Math.min(leave, q / p);
+      }
+    }
+    if (enter > leave) return;
+    [x0, y0, x1, y1] = [x0 + enter * dx, y0 + enter * dy, x0 + leave * dx, y0 + leave * dy];
+
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+    for (let k = 0; k <= steps; k++) {
+      const x = x0 + (x1 - x0) * k / steps;
+      const y = y0 + (y1 - y0) * k / steps;
+      for (let row = -Math.floor(half); row <= Math.ceil(half); row++) {
+        this.span(y + row, x - half, x + half, index);
+      }
+    }
+  }
+
+  polyline(points: [number, number][], colour: Colour, width: number = 1): void {
+    for (let i = 1; i < points.length; i++) {
+      this.line(points[i - 1][0], points[i - 1][1], points[i][0], points[i][1], colour, width);
+    }
+  }
+
+  /**
+   * Fill a polygon by scanlines, even-odd
+   */
+  polygon(points: [number, number][], colour: Colour): void {
+    if (points.length < 3) return;
+    const index = COLOUR_INDEX[colour];
+    const top = Math.max(Math.floor(Math.min(...points.map(p => p[1]))), this.clip.y);
+    const bottom = Math.min(Math.ceil(Math.max(...points.map(p => p[1]))), this.clip.y + this.clip.height);
+    for (let y = top; y <= bottom; y++) {
+      const crossings: number[] = [];
+      const scan = y + 0.5;
+      points.forEach(([xa, ya], i) => {
+        const [xb, yb] = points[(i + 1) % points.length];
+        if ((ya <= scan) !== (yb <= scan)) {
+          crossings.push(xa + (scan - ya) / (yb - ya) * (xb - xa));
+        }
+      });
+      crossings.sort((a, b) => a - b);
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        this.span(y, crossings[k], crossings[k + 1], index);
+      }
+    }
+  }
+
+  /**
+   * Write text in the 3x5 font, scaled up; characters it lacks are left blank
+   */
+  text(x: number, y: number, text: string, colour: Colour, scale: number = 2): void {
+    for (const char of text.toUpperCase()) {
+      const glyph = FONT[char];
+      if (glyph) {
+        glyph.split(' ').forEach((row, r) => [...row].forEach((bit, c) => {
+          if (bit === '#') this.rect({ x: x + c * scale, y: y + r * scale, width: scale, height: scale }, colour);
+        }));
+      }
+      x += 4 * scale;
+    }
+  }
+
+  /**
+   * Shrink the whole canvas by a whole factor into a cell of another,
+   * keeping the highest palette index in each block
+   */
+  shrinkInto(target: Canvas, left: number, top: number, factor: number): void {
+    for (let y = 0; y + factor <= this.height; y += factor) {
+      for (let x = 0; x + factor <= this.width; x += factor) {
+        let index = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            index = Math.max(index, this.pixels[(y + dy) * this.width + x + dx]);
+          }
+        }
+        target.pixels[(top + y / factor) * target.width + left + x / factor] = index;
+      }
+    }
+  }
+}
+
+function textWidth(text: string, scale: number = 2): number {
+  return text.length * 4 * scale - scale;
+}
+
+// ============================================
+// Views
+// ============================================
+
+/**
+ * Orthographic view of a plane onto a panel: u to the right, v up
+ */
+class View {
+  constructor(readonly rect: Rect, readonly scale: number, readonly centre: [number, number]) {}
+
+  /**
+   * View a region of the plane, with a margin, as large as the panel allows
+   */
+  static fit(rect: Rect, min: [number, number], max: [number, number], margin: number = 0.1): View {
+    const width = Math.max(max[0] - min[0], 1e-3) * (1 + 2 * margin);
+    const height = Math.max(max[1] - min[1], 1e-3) * (1 + 2 * margin);
+    const scale = Math.min(rect.width / width, rect.height / height);
+    return new View(rect, scale, [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2]);
+  }
+
+  toScreen(u: number, v: number): [number, number] {
+    return [
+      this.rect.x + this.rect.width / 2 + (u - this.centre[0]) * this.scale,
+      this.rect.y + this.rect.height / 2 - (v - this.centre[1]) * this.scale
+    ];
+  }
+
+  fromScreen(x: number, y: number): [number, number] {
+    return [
+      this.centre[0] + (x - this.rect.x - this.rect.width / 2) / this.scale,
+      this.centre[1] - (y - this.rect.y - this.rect.height / 2) / this.scale
+    ];
+  }
+
+  /**
+   * Grid lines at a round spacing, about eight across the panel
+   */
+  grid(canvas: Canvas): void {
+    const raw = this.rect.width / this.scale / 8;
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+    const [u0, v1] = this.fromScreen(this.rect.x, this.rect.y);
+    const [u1, v0] = this.fromScreen(this.rect.x + this.rect.width, this.rect.y + this.rect.height);
+    for (let u = Math.ceil(u0 / step) * step; u <= u1; u += step) {
+      const [x] = this.toScreen(u, 0);
+      canvas.line(x, this.rect.y, x, this.rect.y + this.rect.height, 'grid');
+    }
+    for (let v = Math.ceil(v0 / step) * step; v <= v1; v += step) {
+      const [, y] = this.toScreen(0, v);
+      canvas.line(this.rect.x, y, this.rect.x + this.rect.width, y, 'grid');
+    }
+  }
+}
+
+/**
+ * Corners of an obstacle's footprint in its frame's x and y, a cylinder as a
+ * polygon around its edge
+ */
+function footprint(obstacle: Obstacle): [number, number][] {
+  if (obstacle.type === 'cylinder') {
+    return Array.from({ length: 24 }, (_, k) => {
+      const angle = k / 24 * 2 * Math.PI;
+      return [obstacle.x + obstacle.radius * Math.cos(angle), obstacle.y + obstacle.radius * Math.sin(angle)];
+    });
+  }
+  const yaw = obstacle.yaw * Math.PI / 180;
+  return [[1, 1], [-1, 1], [-1, -1], [1, -1]].map(([sx, sy]) => {
+    const lx = sx * obstacle.length / 2;
+    const ly = sy * obstacle.width / 2;
+    return [obstacle.x + lx * Math.cos(yaw) - ly * Math.sin(yaw), obstacle.y + lx * Math.sin(yaw) + ly * Math.cos(yaw)];
+  });
+}
+
+function bounds(points: [number, number][]): { min: [number, number]; max: [number, number] } {
+  return {
+    min: [Math.min(...points.map(p => p[0])), Math.min(...points.map(p => p[1]))],
+    max: [Math.max(...points.map(p => p[0])), Math.max(...points.map(p => p[1]))]
+  };
+}
+
+/**
+ * Convex hull of points, anticlockwise (monotone chain)
+ */
+function hull(points: [number, number][]): [number, number][] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: number[], a: number[], b: number[]) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const build = (list: [number, number][]) => list.reduce<[number, number][]>((chain, p) => {
+    while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop();
+    chain.push(p);
+    return chain;
+  }, []);
+  const lower = build(sorted);
+  const upper = build([...sorted].reverse());
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// ============================================
+// Shared Overlays
+// ============================================
+
+type RunEvent = { timestamp: number; type: string; severity: string; frame_range?: { start: number; end: number } };
+
+/**
+ * Events under way at a frame, most severe first
+ */
+function activeEvents(events: RunEvent[], frameIndex: number, timestamp: number): RunEvent[] {
+  const rank = ['critical', 'error', 'warning', 'info'];
+  return events
+    .filter(e => e.frame_range
+      ? frameIndex >= e.frame_range.start && frameIndex <= e.frame_range.end
+      : Math.abs(e.timestamp - timestamp) <= EVENT_WINDOW_MS)
+    .sort((a, b) => rank.indexOf(a.severity) - rank.indexOf(b.severity));
+}
+
+function severityColour(severity: string): Colour | undefined {
+  return severity === 'critical' || severity === 'error' ? 'error' : severity === 'warning' ? 'warning' : undefined;
+}
+
+/**
+ * Title and time along the top, events under way at the top right with a
+ * border around the panels in the colour of the worst, and the run's
+ * progress with a tick at every event along the bottom
+ */
+function drawOverlay(canvas: Canvas, title: string, events: RunEvent[], frameIndex: number, timestamp: number, duration: number): void {
+  canvas.clipTo();
+  canvas.text(8, 10, `${title}  T ${(timestamp / 1000).toFixed(2)}S`, 'text');
+
+  const active = activeEvents(events, frameIndex, timestamp);
+  const labels = [...new Set(active.map(e => e.type.replace(/_/g, ' ')))].join('  ');
+  const worst = active.map(e => severityColour(e.severity)).find(Boolean);
+  if (labels) {
+    canvas.text(WIDTH - 8 - textWidth(labels), 10, labels, worst ?? 'text');
+  }
+  if (worst) {
+    canvas.outline({ x: LEFT_PANEL.x - 4, y: LEFT_PANEL.y - 4, width: WIDTH - 8, height: LEFT_PANEL.height + 8 }, worst, 3);
+  }
+
+  const { x, y, width, height } = PROGRESS_BAR;
+  const at = (t: number) => x + Math.min(1, Math.max(0, t / duration)) * (width - 1);
+  canvas.rect(PROGRESS_BAR, 'track');
+  canvas.rect({ x, y, width: Math.round(at(timestamp) - x) + 1, height }, 'progress');
+  for (const event of events) {
+    const colour = severityColour(event.severity);
+    if (colour) canvas.line(at(event.timestamp), y, at(event.timestamp), y + height - 1, colour, 2);
+  }
+}
+
+/**
+ * Telemetry frames to animate, evenly spaced, and the time between them
+ */
+function animationFrames(timestamps: number[]): { indices: number[]; delay: number } {
+  const interval = timestamps.length > 1 ? timestamps[1] - timestamps[0] : PLAYBACK_INTERVAL_MS;
+  const stride = Math.max(
+    Math.ceil(PLAYBACK_INTERVAL_MS / interval),
+    Math.ceil(timestamps.length / MAX_ANIMATION_FRAMES)
+  );
+  const indices: number[] = [];
+  for (let i = 0; i < timestamps.length; i += stride) indices.push(i);
+  return { indices, delay: stride * interval };
+}
+
+/**
+ * Draw every animation frame and encode the animation, with a grid of
+ * keyframes as the still image. Other work gets the event loop between
+ * frames.
+ */
+async function animate(timestamps: number[], draw: (canvas: Canvas, frameIndex: number) => void): Promise<Buffer> {
+  if (timestamps.length === 0) {
+    throw new Error('Run has no telemetry to render');
+  }
+  const { indices, delay } = animationFrames(timestamps);
+  const cells = SHEET_SIZE * SHEET_SIZE;
+  const keyframes = Array.from({ length: cells }, (_, k) =>
+    indices[Math.round(k * (indices.length - 1) / (cells - 1))]);
+
+  const sheet = new Canvas(WIDTH, HEIGHT);
+  const canvas = new Canvas(WIDTH, HEIGHT);
+  const cellWidth = WIDTH / SHEET_SIZE;
+  const cellHeight = HEIGHT / SHEET_SIZE;
+  const frames: AnimationFrame[] = [];
+
+  for (const frameIndex of indices) {
+    await new Promise(resolve => setImmediate(resolve));
+    canvas.clipTo();
+    canvas.rect({ x: 0, y: 0, width: WIDTH, height: HEIGHT }, 'sky');
+    draw(canvas, frameIndex);
+    frames.push({ pixels: canvas.pixels.slice(), delay });
+
+    keyframes.forEach((keyframe, k) => {
+      if (keyframe !== frameIndex) return;
+      const left = (k % SHEET_SIZE) * cellWidth;
+      const top = Math.floor(k / SHEET_SIZE) * cellHeight;
+      canvas.shrinkInto(sheet, left, top, SHEET_SIZE);
+      const label = `T ${(timestamps[frameIndex] / 1000).toFixed(1)}S`;
+      // The shrunken title is unreadable, so the time replaces it; event labels stay on the right
+      sheet.rect({ x: left + 1, y: top + 1, width: cellWidth / 2, height: 8 }, 'sky');
+      sheet.text(left + 4, top + 4, label, 'text', 1);
+      sheet.outline({ x: left, y: top, width: cellWidth, height: cellHeight }, 'obstacleEdge');
+    });
+  }
+
+  const still: IndexedImage = { width: WIDTH, height: HEIGHT, pixels: sheet.pixels };
+  return encodeAnimatedPng(still, frames, PALETTE);
+}
+
+// ============================================
+// Ground Robots
+// ============================================
+
+/**
+ * Animate a ground run. The left panel follows the robot from its right
+ * side: legs from the joint telemetry, the far side paler, over the terrain
+ * profile under its path. The right panel maps the run from above with the
+ * obstacles, the path walked, the feet and the range sensor beams.
+ */
+export function renderGroundRun(run: SimulationRun): Promise<Buffer> {
+  const frames = run.telemetry;
+  const model = run.robot_model;
+  const terrain = run.physics_config.terrain;
+
+  // Size of the robot, from its feet at rest
+  const rest = legChains(model, {});
+  const reach = Math.max(...Object.values(rest).map(chain => Math.hypot(chain[chain.length - 1][0], chain[chain.length - 1][1])), 0.1);
+  const sideScale = LEFT_PANEL.width / (reach * 7);
+  const leftLegs = model.legs.filter(leg => leg.hip[1] > 0).map(leg => leg.leg_id);
+  const rightLegs = model.legs.filter(leg => leg.hip[1] <= 0).map(leg => leg.leg_id);
+  const frontHip = model.legs.reduce((a, b) => b.hip[0] > a.hip[0] ? b : a).hip;
+  const rearHip = model.legs.reduce((a, b) => b.hip[0] < a.hip[0] ? b : a).hip;
+
+  // Map covering the path, the obstacles and the robot's size around the start
+  const path = frames.map(f => [f.kinematics.odometry.x, f.kinematics.odometry.y] as [number, number]);
+  const area = bounds([
+    ...path,
+    ...run.obstacles.flatMap(footprint),
+    [-2 * reach, -2 * reach],
+    [2 * reach, 2 * reach]
+  ]);
+  const map = View.fit(RIGHT_PANEL, area.min, area.max);
+  const mapBackground = terrainShading(map, terrain);
+
+  return animate(frames.map(f => f.timestamp), (canvas, i) => {
+    const frame = frames[i];
+    const pose = groundPose(frame);
+    const chains = Object.fromEntries(Object.entries(legChains(model, frame.joint_positions))
+      .map(([legId, chain]) => [legId, chain.map(point => pose.toWorld(point))]));
+    const contact = (legId: string) => frame.contacts.find(c => c.leg_id === legId)?.slip_detected
+      ? 'footSlip'
+      : frame.truth.in_contact[legId] ? 'footContact' : 'footAir';
+
+    // Side view, following the robot
+    const groundZ = terrainHeight(terrain, pose.x, pose.y);
+    const side = new View(LEFT_PANEL, sideScale, [pose.x, groundZ + reach * 0.8]);
+    canvas.clipTo(LEFT_PANEL);
+    side.grid(canvas);
+    for (let x = LEFT_PANEL.x; x < LEFT_PANEL.x + LEFT_PANEL.width; x++) {
+      const [u] = side.fromScreen(x, 0);
+      const [, y] = side.toScreen(u, terrainHeight(terrain, u, pose.y));
+      canvas.line(x, y, x, LEFT_PANEL.y + LEFT_PANEL.height, 'earth');
+      canvas.line(x, y, x, y + 1, 'earthEdge');
+    }
+    for (const obstacle of run.obstacles) {
+      const corners = footprint(obstacle);
+      const { min, max } = bounds(corners);
+      if (max[1] < pose.y - 2 * reach || min[1] > pose.y + 2 * reach) continue;
+      const base = terrainHeight(terrain, obstacle.x, obstacle.y);
+      const [x0, y0] = side.toScreen(min[0], base + obstacle.height);
+      const [x1, y1] = side.toScreen(max[0], base);
+      const rect = { x: Math.round(x0), y: Math.round(y0), width: Math.round(x1 - x0), height: Math.round(y1 - y0) };
+      canvas.rect(rect, 'obstacle');
+      canvas.outline(rect, 'obstacleEdge', 2);
+    }
+
+    // Far legs, then the body, then near legs; the camera is on the right, so left legs are far
+    const drawLeg = (legId: string, colour: Colour, width: number) => {
+      const points = chains[legId].map(([x, , z]) => side.toScreen(x, z));
+      canvas.polyline(points, colour, width);
+      points.slice(0, -1).forEach(([x, y]) => canvas.disc(x, y, width / 2 + 1, colour));
+      const [fx, fy] = points[points.length - 1];
+      canvas.disc(fx, fy, 4, contact(legId));
+    };
+    leftLegs.forEach(legId => drawLeg(legId, 'farLeg', 3));
+    const [front, rear] = [pose.toWorld(frontHip), pose.toWorld(rearHip)];
+    canvas.line(...side.toScreen(rear[0], rear[2]), ...side.toScreen(front[0], front[2]), 'body', 10);
+    rightLegs.forEach(legId => drawLeg(legId, 'nearLeg', 4));
+
+    // Map from above
+    canvas.clipTo(RIGHT_PANEL);
+    blit(canvas, mapBackground, RIGHT_PANEL);
+    map.grid(canvas);
+    drawObstacles(canvas, map, run.obstacles, (x, y) => [x, y]);
+    canvas.polyline(path.slice(0, i + 1).map(([x, y]) => map.toScreen(x, y)), 'trail', 2);
+    drawBeams(canvas, map, run.range_sensors, frame.ranges, pose.x, pose.y, pose.heading, (x, y) => [x, y]);
+    canvas.polygon(hull(model.legs.map(leg => pose.toWorld(leg.hip)).map(([x, y]) => map.toScreen(x, y))), 'body');
+    for (const legId of [...leftLegs, ...rightLegs]) {
+      const [x, y] = chains[legId][chains[legId].length - 1];
+      canvas.disc(...map.toScreen(x, y), 3, contact(legId));
+    }
+
+    drawOverlay(canvas, run.robot_type, run.events, i, frame.timestamp, frames[frames.length - 1].timestamp);
+  });
+}
+
+/**
+ * Where a ground frame puts the body, and how it turns a point in the base
+ * frame into the world
+ */
+function groundPose(frame: TelemetryFrame): {
+  x: number;
+  y: number;
+  heading: number;
+  toWorld: (point: [number, number, number]) => [number, number, number];
+} {
+  const { x, y } = frame.kinematics.odometry;
+  const heading = frame.truth.imu.yaw * Math.PI / 180;
+  const attitude = { x: frame.truth.imu.roll * Math.PI / 180, y: frame.truth.imu.pitch * Math.PI / 180, z: heading };
+  return {
+    x,
+    y,
+    heading,
+    toWorld: point => {
+      const [px, py, pz] = levelFrame(point, attitude);
+      return [x + px * Math.cos(heading) - py * Math.sin(heading), y + px * Math.sin(heading) + py * Math.cos(heading), pz];
+    }
+  };
+}
+
+/**
+ * A panel of the map shaded by ground height, or plain on level ground
+ */
+function terrainShading(view: View, terrain: SimulationRun['physics_config']['terrain']): Uint8Array {
+  const { rect } = view;
+  const heights = new Float64Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      heights[y * rect.width + x] = terrainHeight(terrain, ...view.fromScreen(rect.x + x, rect.y + y));
+    }
+  }
+  let low = Infinity;
+  let high = -Infinity;
+  for (const h of heights) {
+    low = Math.min(low, h);
+    high = Math.max(high, h);
+  }
+  const shades = new Uint8Array(heights.length).fill(COLOUR_INDEX.map);
+  if (high - low > 1e-3) {
+    heights.forEach((h, k) => {
+      shades[k] = HEIGHT_SHADE_BASE + Math.min(HEIGHT_SHADES - 1, Math.floor((h - low) / (high - low) * HEIGHT_SHADES));
+    });
+  }
+  return shades;
+}
+
+function blit(canvas: Canvas, pixels: Uint8Array, rect: Rect): void {
+  for (let y = 0; y < rect.height; y++) {
+    canvas.pixels.set(pixels.subarray(y * rect.width, (y + 1) * rect.width), (rect.y + y) * canvas.width + rect.x);
+  }
+}
+
+/**
+ * Obstacle footprints on a map, through a mapping from the obstacle frame to the map's u and v
+ */
+function drawObstacles(canvas: Canvas, view: View, obstacles: Obstacle[], toMap: (x: number, y: number) => [number, number]): void {
+  for (const obstacle of obstacles) {
+    const points = footprint(obstacle).map(([x, y]) => view.toScreen(...toMap(x, y)));
+    canvas.polygon(points, 'obstacle');
+    canvas.polyline([...points, points[0]], 'obstacleEdge', 2);
+  }
+}
+
+/**
+ * Every range sensor ray from its mount to its reading, marking returns
+ * short of the maximum range. Angles are in the obstacle frame, from x toward y.
+ */
+function drawBeams(
+  canvas: Canvas,
+  view: View,
+  sensors: RangeSensorConfig[],
+  ranges: Record<string, number | number[]>,
+  x: number,
+  y: number,
+  heading: number,
+  toMap: (x: number, y: number) => [number, number]
+): void {
+  for (const sensor of sensors) {
+    const readings = [ranges[sensor.sensor_id] ?? []].flat();
+    const [mx, my] = sensor.mount;
+    const originX = x + mx * Math.cos(heading) - my * Math.sin(heading);
+    const originY = y + mx * Math.sin(heading) + my * Math.cos(heading);
+    const start = view.toScreen(...toMap(originX, originY));
+    beamAngles(sensor).forEach((angle, k) => {
+      const range = readings[k];
+      if (range === undefined) return;
+      const end = view.toScreen(...toMap(originX + range * Math.cos(heading + angle), originY + range * Math.sin(heading + angle)));
+      canvas.line(...start, ...end, 'ray');
+      if (range < sensor.max_range) canvas.disc(...end, 2.5, 'rayHit');
+    });
+  }
+}
+
+// ============================================
+// Drones
+// ============================================
+
+const MAP_ICON_SIZE = 18;        // pixels from the drone's centre to a rotor on the map
+const CHASE_ICON_SIZE = 80;      // pixels from the drone's centre to a rotor seen from behind
+
+/**
+ * Animate a flight. The left panel maps it from above with north up: the
+ * mission, the path flown, obstacles, geofence and lidar beams, with the
+ * airframe turned to its heading and each rotor coloured by its speed. The
+ * right panel follows the drone from behind at its altitude, tilted by its
+ * true roll and pitch.
+ */
+export function renderDroneRun(run: DroneSimulationRun): Promise<Buffer> {
+  const frames = run.telemetry;
+  const { mission, airframe } = run;
+  const home = mission.home;
+  const maxRPM = run.flight_controller.rotor.max_rpm;
+  const local = (p: { lat: number; lon: number }): [number, number] => {
+    const { north, east } = toLocal(p.lat, p.lon, home);
+    return [east, north];
+  };
+
+  // Obstacles and beams are placed north (x) and east (y); the map draws east to the right
+  const toMap = (north: number, east: number): [number, number] => [east, north];
+  const path = frames.map(f => local(f.truth.position));
+  const planned = [[0, 0] as [number, number], ...mission.waypoints.map(local), local(mission.landing)];
+  const area = bounds([...path, ...planned, ...run.obstacles.flatMap(footprint).map(([x, y]) => toMap(x, y)), [-5, -5], [5, 5]]);
+  const map = View.fit(LEFT_PANEL, area.min, area.max);
+
+  const ceiling = Math.max(5, ...frames.map(f => f.truth.position.alt), ...mission.waypoints.map(w => w.alt)) * 1.15;
+  const chaseScale = (RIGHT_PANEL.height - 40) / ceiling;
+  const armLength = Math.max(...airframe.rotors.map(r => Math.hypot(r.x, r.y)), 1e-3);
+  const geofence = run.failsafe.geofence;
+
+  return animate(frames.map(f => f.timestamp), (canvas, i) => {
+    const frame = frames[i];
+    const [east, north] = path[i];
+    const yaw = frame.truth.attitude.yaw * Math.PI / 180;
+    const rotorShade = (k: number) =>
+      ROTOR_SHADE_BASE + Math.min(ROTOR_SHADES - 1, Math.floor((frame.rotor_speeds[k] ?? 0) / maxRPM * ROTOR_SHADES));
+
+    // Map from above, north up
+    canvas.clipTo(LEFT_PANEL);
+    canvas.rect(LEFT_PANEL, 'map');
+    map.grid(canvas);
+    if (geofence.enabled) {
+      const fence = geofence.shape === 'cylinder'
+        ? Array.from({ length: 73 }, (_, k) => [geofence.radius * Math.sin(k * Math.PI / 36), geofence.radius * Math.cos(k * Math.PI / 36)] as [number, number])
+        : [...geofence.polygon, geofence.polygon[0]].map(local);
+      canvas.polyline(fence.map(([u, v]) => map.toScreen(u, v)), 'geofence', 2);
+    }
+    drawObstacles(canvas, map, run.obstacles, toMap);
+    canvas.polyline(planned.map(([u, v]) => map.toScreen(u, v)), 'missionPath', 2);
+    for (const [x, y] of planned.map(([u, v]) => map.toScreen(u, v))) {
+      canvas.rect({ x: Math.round(x) - 3, y: Math.round(y) - 3, width: 7, height: 7 }, 'waypoint');
+    }
+    canvas.polyline(path.slice(0, i + 1).map(([u, v]) => map.toScreen(u, v)), 'trail', 2);
+    drawBeams(canvas, map, run.range_sensors, frame.ranges, north, east, yaw, toMap);
+
+    const [cx, cy] = map.toScreen(east, north);
+    airframe.rotors.forEach((rotor, k) => {
+      // Rotors sit forward (x) and right (y) of the centre; forward is the heading from north
+      const rotorNorth = rotor.x * Math.cos(yaw) - rotor.y * Math.sin(yaw);
+      const rotorEast = rotor.x * Math.sin(yaw) + rotor.y * Math.cos(yaw);
+      const [rx, ry] = [cx + rotorEast / armLength * MAP_ICON_SIZE, cy - rotorNorth / armLength * MAP_ICON_SIZE];
+      canvas.line(cx, cy, rx, ry, 'body', 3);
+      canvas.disc(rx, ry, 5, rotorShade(k));
+    });
+    canvas.line(cx, cy, cx + Math.sin(yaw) * MAP_ICON_SIZE * 1.5, cy - Math.cos(yaw) * MAP_ICON_SIZE * 1.5, 'nearLeg', 2);
+
+    // Behind the drone at its altitude, with the ground below
+    canvas.clipTo(RIGHT_PANEL);
+    const groundY = RIGHT_PANEL.y + RIGHT_PANEL.height - 20;
+    const chase = new View(RIGHT_PANEL, chaseScale, [0, (groundY - RIGHT_PANEL.y - RIGHT_PANEL.height / 2) / chaseScale]);
+    chase.grid(canvas);
+    canvas.rect({ x: RIGHT_PANEL.x, y: groundY, width: RIGHT_PANEL.width, height: RIGHT_PANEL.y + RIGHT_PANEL.height - groundY }, 'earth');
+    canvas.line(RIGHT_PANEL.x, groundY, RIGHT_PANEL.x + RIGHT_PANEL.width, groundY, 'earthEdge', 2);
+    const [, droneY] = chase.toScreen(0, frame.truth.position.alt);
+    const droneX = RIGHT_PANEL.x + RIGHT_PANEL.width / 2;
+    canvas.line(droneX - 20, groundY, droneX + 20, groundY, 'obstacleEdge', 3);
+
+    // Body axes x forward, y right, z up, tilted nose up by pitch and right side down by roll
+    const pitch = frame.truth.attitude.pitch * Math.PI / 180;
+    const roll = frame.truth.attitude.roll * Math.PI / 180;
+    const behind = ([x, y, z]: [number, number, number]): [number, number] => {
+      const pitchedZ = x * Math.sin(pitch) + z * Math.cos(pitch);
+      const right = y * Math.cos(roll) + pitchedZ * Math.sin(roll);
+      const up = -y * Math.sin(roll) + pitchedZ * Math.cos(roll);
+      return [droneX + right / armLength * CHASE_ICON_SIZE, droneY - up / armLength * CHASE_ICON_SIZE];
+    };
+    const discRadius = armLength * 0.35;
+    [...airframe.rotors.keys()]
+      .sort((a, b) => airframe.rotors[b].x - airframe.rotors[a].x)
+      .forEach(k => {
+        const rotor = airframe.rotors[k];
+        const mount = behind([rotor.x, rotor.y, rotor.z]);
+        canvas.line(droneX, droneY, ...mount, 'body', 4);
+        canvas.line(...behind([rotor.x, rotor.y - discRadius, rotor.z + 0.05 * armLength]),
+          ...behind([rotor.x, rotor.y + discRadius, rotor.z + 0.05 * armLength]), rotorShade(k), 4);
+      });
+    canvas.disc(droneX, droneY, 7, 'body');
+
+    drawOverlay(canvas, `drone  alt ${frame.truth.position.alt.toFixed(1)}m`, run.events, i, frame.timestamp, frames[frames.length - 1].timestamp);
+  });
+}
+
+// ============================================
+// Routes
+// ============================================
+
+const RENDER_ROUTE = /^\/api\/simulation\/sessions\/([^/]+)\/runs\/([^/]+)\/render\.png$/;
+
+/**
+ * Local URL the rendering of a run is served from
+ */
+export function renderUrl(sessionId: string, runId: string): string {
+  return `/api/simulation/sessions/${encodeURIComponent(sessionId)}/runs/${encodeURIComponent(runId)}/render.png`;
+}
+
+/**
+ * The session and run a rendering URL points at, or undefined for any other URL
+ */
+export function parseRenderUrl(url: string): { sessionId: string; runId: string } | undefined {
+  const match = RENDER_ROUTE.exec(url);
+  return match ? { sessionId: decodeURIComponent(match[1]), runId: decodeURIComponent(match[2]) } : undefined;
+}
@@ -0,0 +1,605 @@
+// Robot Model - Kinematic and inertial description of the ground robots, built in or imported from URDF
+
+import {
+  GroundRobotType,
+  RobotModel,
+  RobotLink,
+  RobotJoint,
+  RobotLeg,
+  FrameOrigin,
+  LEG_JOINT_TYPES,
+  DEFAULT_MOTOR_PARAMS,
+  DEFAULT_QUADRUPED_MOTOR_PARAMS
+} from './types';
+import { MassProperties, boxInertia } from './dynamics';
+
+type Vec3 = [number, number, number];
+
+// Actuator limits a description falls back to when a joint leaves them out
+const ROBOT_ACTUATOR_DEFAULTS: Record<GroundRobotType, { effort: number; velocity: number }> = {
+  hexapod: { effort: DEFAULT_MOTOR_PARAMS.torque_limit, velocity: DEFAULT_MOTOR_PARAMS.max_velocity },
+  quadruped: { effort: DEFAULT_QUADRUPED_MOTOR_PARAMS.torque_limit, velocity: DEFAULT_QUADRUPED_MOTOR_PARAMS.max_velocity }
+};
+
+// Legs each robot type walks on
+const ROBOT_LEG_COUNT: Record<GroundRobotType, number> = {
+  hexapod: 6,
+  quadruped: 4
+};
+
+// ============================================
+// Built-in Models
+// ============================================
+
+/**
+ * One leg segment of a built-in robot, described for a left leg: the joint
+ * at its root and the offset from that joint to the next one (or the foot).
+ * Right legs are mirrored across the body's centre line, axes included, so
+ * the same angle moves both sides alike; a shared axis is left unmirrored,
+ * so the same angle moves both feet the same way.
+ */
+interface LegSegment {
+  jointType: string;
+  axis: Vec3;
+  sharedAxis?: boolean;
+  limits: [number, number];     // rad
+  mass: number;                 // kg
+  length: Vec3;                 // m, joint to the next joint or the foot
+}
+
+function builtinModel(
+  name: string,
+  robotType: GroundRobotType,
+  base: { mass: number; size: Vec3 },
+  hips: Record<string, Vec3>,
+  segments: LegSegment[]
+): RobotModel {
+  const actuator = ROBOT_ACTUATOR_DEFAULTS[robotType];
+  const baseInertia = boxInertia(base.mass, ...base.size);
+  const links: RobotLink[] = [
+    { name: 'base_link', mass: base.mass, inertia: { ixx: baseInertia.x, iyy: baseInertia.y, izz: baseInertia.z } }
+  ];
+  const joints: RobotJoint[] = [];
+  const legs: RobotLeg[] = [];
+
+  for (const [legId, hip] of Object.entries(hips)) {
+    const side = Math.sign(hip[1]);
+    const mirror = (v: Vec3): Vec3 => [v[0], v[1] * side, v[2]];
+    let parent = 'base_link';
+    let origin: Vec3 = hip;
+    const legJoints: string[] = [];
+
+    for (const segment of segments) {
+      const jointId = `${legId}_${segment.jointType}`;
+      const child = `${jointId}_link`;
+      const length = mirror(segment.length);
+      const inertia = boxInertia(segment.mass, Math.abs(length[0]) + 0.02, Math.abs(length[1]) + 0.02, Math.abs(length[2]) + 0.02);
+      links.push({ name: child, mass: segment.mass, inertia: { ixx: inertia.x, iyy: inertia.y, izz: inertia.z } });
+      joints.push({
+        joint_id: jointId,
+        name: jointId,
+        leg_id: legId,
+        joint_type: segment.jointType,
+        parent,
+        child,
+        origin: { xyz: origin, rpy: [0, 0, 0] },
+        axis: segment.sharedAxis || side > 0 ? segment.axis : [-segment.axis[0], segment.axis[1], -segment.axis[2]],
+        limits: { lower: segment.limits[0], upper: segment.limits[1], ...actuator }
+      });
+      legJoints.push(jointId);
+      parent = child;
+      origin = length;
+    }
+
+    links.push({ name: `${legId}_foot`, mass: 0, inertia: { ixx: 0, iyy: 0, izz: 0 } });
+    legs.push({ leg_id: legId, hip, joints: legJoints, foot: { xyz: origin, rpy: [0, 0, 0] } });
+  }
+
+  return { name, robot_type: robotType, source: 'builtin', base_link: 'base_link', links, joints, legs };
+}
+
+/**
+ * The lab's own robots. Hexapod legs are numbered 1-3 front to rear on the
+ * left and 4-6 rear to front on the right; every leg reaches out sideways
+ * from a yawing coxa, which swings the foot back for positive angles, while
+ * positive femur angles press the foot down and positive tibia angles tuck
+ * it in. Quadruped legs abduct at the hip, then swing fore and aft at the
+ * hip and knee; positive hip angles swing the foot back.
+ */
+export const BUILTIN_ROBOT_MODELS: Record<GroundRobotType, RobotModel> = {
+  hexapod: builtinModel(
+    'HX-6 hexapod',
+    'hexapod',
+    { mass: 1.6, size: [0.3, 0.2, 0.08] },
+    {
+      leg_1: [0.12, 0.08, 0],
+      leg_2: [0, 0.1, 0],
+      leg_3: [-0.12, 0.08, 0],
+      leg_4: [-0.12, -0.08, 0],
+      leg_5: [0, -0.1, 0],
+      leg_6: [0.12, -0.08, 0]
+    },
+    [
+      { jointType: 'coxa', axis: [0, 0, 1], limits: [-1.0, 1.0], mass: 0.05, length: [0, 0.05, 0] },
+      { jointType: 'femur', axis: [-1, 0, 0], limits: [-1.5, 1.5], mass: 0.05, length: [0, 0.08, 0] },
+      { jointType: 'tibia', axis: [-1, 0, 0], limits: [-1.8, 1.8], mass: 0.05, length: [0, 0, -0.12] }
+    ]
+  ),
+  quadruped: builtinModel(
+    'QS-V4 quadruped',
+    'quadruped',
+    { mass: 9.6, size: [0.4, 0.2, 0.15] },
+    {
+      fl: [0.2, 0.1, 0],
+      fr: [0.2, -0.1, 0],
+      bl: [-0.2, 0.1, 0],
+      br: [-0.2, -0.1, 0]
+    },
+    [
+      { jointType: 'abad', axis: [1, 0, 0], sharedAxis: true, limits: [-0.6, 0.6], mass: 0.2, length: [0, 0.06, 0] },
+      { jointType: 'hip', axis: [0, 1, 0], limits: [-0.5, 2.0], mass: 0.2, length: [0, 0, -0.2] },
+      { jointType: 'knee', axis: [0, 1, 0], limits: [-2.7, -0.3], mass: 0.2, length: [0, 0, -0.2] }
+    ]
+  )
+};
+
+// ============================================
+// Frame Transforms
+// ============================================
+
+/**
+ * Rotation matrix of a URDF roll/pitch/yaw triple (fixed axes x, then y, then z)
+ */
+function rpyMatrix([roll, pitch, yaw]: Vec3): number[][] {
+  const [cr, sr, cp, sp, cy, sy] = [Math.cos(roll), Math.sin(roll), Math.cos(pitch), Math.sin(pitch), Math.cos(yaw), Math.sin(yaw)];
+  return [
+    [cy * cp, cy * sp * sr - sy * cr, cy * sp * cr + sy * sr],
+    [sy * cp, sy * sp * sr + cy * cr, sy * sp * cr - cy * sr],
+    [-sp, cp * sr, cp * cr]
+  ];
+}
+
+/**
+ * Roll/pitch/yaw triple of a rotation matrix
+ */
+function matrixRpy(m: number[][]): Vec3 {
+  return [Math.atan2(m[2][1], m[2][2]), Math.asin(clampUnit(-m[2][0])), Math.atan2(m[1][0], m[0][0])];
+}
+
+/**
+ * Rotation by an angle about an axis (Rodrigues' formula)
+ */
+function axisAngleMatrix(axis: Vec3, angle: number): number[][] {
+  const norm = Math.hypot(...axis) || 1;
+  const [x, y, z] = axis.map(a => a / norm);
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  return [
+    [t * x * x + c, t * x * y - s * z, t * x * z + s * y],
+    [t * x * y + s * z, t * y * y + c, t * y * z - s * x],
+    [t * x * z - s * y, t * y * z + s * x, t * z * z + c]
+  ];
+}
+
+function rotate(matrix: number[][], v: Vec3): Vec3 {
+  return matrix.map(row => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]) as Vec3;
+}
+
+function multiply(a: number[][], b: number[][]): number[][] {
+  return a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(-1, value));
+}
+
+// ============================================
+// Model Queries
+// ============================================
+
+/**
+ * Total mass of every link (kg)
+ */
+export function robotMass(model: RobotModel): number {
+  return model.links.reduce((sum, link) => sum + link.mass, 0);
+}
+
+/**
+ * Mass and inertia of the whole robot as one rigid body. Leg links are
+ * treated as point masses at their leg's hip, added to the base link's own
+ * inertia about the centre of the body.
+ */
+export function robotBodyMass(model: RobotModel): MassProperties {
+  const base = model.links.find(link => link.name === model.base_link);
+  const inertia = {
+    x: base?.inertia.ixx ?? 0,
+    y: base?.inertia.iyy ?? 0,
+    z: base?.inertia.izz ?? 0
+  };
+  for (const leg of model.legs) {
+    const [x, y, z] = leg.hip;
+    const mass = legMass(model, leg.leg_id);
+    inertia.x += mass * (y * y + z * z);
+    inertia.y += mass * (x * x + z * z);
+    inertia.z += mass * (x * x + y * y);
+  }
+  return { mass: robotMass(model), inertia };
+}
+
+/**
+ * Centre of mass in the base frame, with the leg links lumped at their hips
+ * as for the body's inertia
+ */
+export function robotCentreOfMass(model: RobotModel): Vec3 {
+  const total = robotMass(model);
+  const centre: Vec3 = [0, 0, 0];
+  for (const leg of model.legs) {
+    const mass = legMass(model, leg.leg_id);
+    leg.hip.forEach((coordinate, axis) => { centre[axis] += mass * coordinate / total; });
+  }
+  return centre;
+}
+
+/**
+ * Mass of the links moved by a leg's joints (kg)
+ */
+export function legMass(model: RobotModel, legId: string): number {
+  return model.joints
+    .filter(joint => joint.leg_id === legId)
+    .reduce((sum, joint) => sum + (model.links.find(link => link.name === joint.child)?.mass ?? 0), 0);
+}
+
+/**
+ * Forward kinematics: where each joint of every leg is in the base frame (x
+ * forward, y left, z up) for the given joint angles, from the hip down to
+ * the foot. Joints missing from the angles are taken at zero.
+ */
+export function legChains(model: RobotModel, jointAngles: Record<string, number>): Record<string, Vec3[]> {
+  const joints = new Map(model.joints.map(joint => [joint.joint_id, joint]));
+  return Object.fromEntries(model.legs.map(leg => {
+    let position: Vec3 = [0, 0, 0];
+    let rotation = rpyMatrix([0, 0, 0]);
+    const chain: Vec3[] = [];
+    for (const jointId of leg.joints) {
+      const joint = joints.get(jointId)!;
+      const offset = rotate(rotation, joint.origin.xyz);
+      position = [position[0] + offset[0], position[1] + offset[1], position[2] + offset[2]];
+      chain.push(position);
+      rotation = multiply(multiply(rotation, rpyMatrix(joint.origin.rpy)), axisAngleMatrix(joint.axis, jointAngles[jointId] ?? 0));
+    }
+    const foot = rotate(rotation, leg.foot.xyz);
+    chain.push([position[0] + foot[0], position[1] + foot[1], position[2] + foot[2]]);
+    return [leg.leg_id, chain];
+  }));
+}
+
+/**
+ * Forward kinematics: where each foot is in the base frame (x forward, y
+ * left, z up) for the given joint angles. Joints missing from the angles
+ * are taken at zero.
+ */
+export function footPositions(model: RobotModel, jointAngles: Record<string, number>): Record<string, Vec3> {
+  return Object.fromEntries(Object.entries(legChains(model, jointAngles))
+    .map(([legId, chain]) => [legId, chain[chain.length - 1]]));
+}
+
+// ============================================
+// URDF Import
+// ============================================
+
+interface XmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parse the element structure of an XML document. Text content is ignored,
+ * which is all a URDF needs.
+ */
+function parseXml(text: string): XmlElement {
+  const document: XmlElement = { tag: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const markup = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = markup.exec(text)) !== null) {
+    if (text.slice(position, match.index).includes('<')) {
+      throw new Error(`Malformed XML near character ${position + text.slice(position, match.index).indexOf('<')}`);
+    }
+    position = markup.lastIndex;
+
+    const [, closingTag, openingTag, attributeText, selfClosing] = match;
+    if (closingTag) {
+      const open = stack.pop();
+      if (!open || open === document || open.tag !== closingTag) {
+        throw new Error(`Unexpected closing tag </${closingTag}>`);
+      }
+    } else if (openingTag) {
+      const element: XmlElement = { tag: openingTag, attributes: {}, children: [] };
+      for (const [, name, doubleQuoted, singleQuoted] of attributeText.matchAll(attributePattern)) {
+        element.attributes[name] = (doubleQuoted ?? singleQuoted)
+          .replace(/&(lt|gt|amp|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+      }
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (text.slice(position).includes('<')) {
+    throw new Error(`Malformed XML near character ${position + text.slice(position).indexOf('<')}`);
+  }
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].tag}>`);
+  }
+  return document;
+}
+
+function child(element: XmlElement, tag: string): XmlElement | undefined {
+  return element.children.find(c => c.tag === tag);
+}
+
+function parseNumber(value: string | undefined, fallback: number, what: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${what} must be a number, got '${value}'`);
+  }
+  return parsed;
+}
+
+function parseVector(value: string | undefined, fallback: Vec3, what: string): Vec3 {
+  if (value === undefined) return fallback;
+  const parts = value.trim().split(/\s+/).map(Number);
+  if (parts.length !== 3 || parts.some(p => !Number.isFinite(p))) {
+    throw new Error(`${what} must be three numbers, got '${value}'`);
+  }
+  return parts as Vec3;
+}
+
+function parseOrigin(element: XmlElement | undefined, what: string): FrameOrigin {
+  return {
+    xyz: parseVector(element?.attributes.xyz, [0, 0, 0], `${what} origin xyz`),
+    rpy: parseVector(element?.attributes.rpy, [0, 0, 0], `${what} origin rpy`)
+  };
+}
+
+interface UrdfJoint {
+  name: string;
+  type: 'revolute' | 'continuous' | 'fixed';
+  parent: string;
+  child: string;
+  origin: FrameOrigin;
+  axis: Vec3;
+  limit?: XmlElement;
+}
+
+/**
+ * Build a robot model from a URDF document. The supported subset is links
+ * with their inertials, and revolute, continuous and fixed joints with their
+ * origins, axes and limits; visuals, collisions and transmissions are
+ * ignored. Every chain of moving joints hanging off the base link is a leg:
+ * a hexapod needs six of three joints, a quadruped four. Legs are named from
+ * where their hips sit, and their joints from the body outward, so an
+ * imported robot shares the built-in joint IDs; fixed mounts between the
+ * base and a leg are folded into the leg's first joint. Throws on anything
+ * the simulation cannot drive.
+ */
+export function robotModelFromUrdf(
+  urdf: string,
+  robotType?: GroundRobotType
+): { model: RobotModel; warnings: string[] } {
+  const warnings: string[] = [];
+  const robot = child(parseXml(urdf), 'robot');
+  if (!robot) {
+    throw new Error('URDF must have a <robot> root element');
+  }
+
+  // Links and their inertials
+  const links: RobotLink[] = [];
+  for (const element of robot.children.filter(c => c.tag === 'link')) {
+    const name = element.attributes.name;
+    if (!name) throw new Error('Every <link> needs a name');
+    if (links.some(link => link.name === name)) throw new Error(`Duplicate link '${name}'`);
+    const inertial = child(element, 'inertial');
+    const mass = parseNumber(inertial && child(inertial, 'mass')?.attributes.value, 0, `Link '${name}' mass`);
+    const inertia = inertial && child(inertial, 'inertia');
+    if (mass < 0) throw new Error(`Link '${name}' has negative mass`);
+    links.push({
+      name,
+      mass,
+      inertia: {
+        ixx: parseNumber(inertia?.attributes.ixx, 0, `Link '${name}' ixx`),
+        iyy: parseNumber(inertia?.attributes.iyy, 0, `Link '${name}' iyy`),
+        izz: parseNumber(inertia?.attributes.izz, 0, `Link '${name}' izz`)
+      }
+    });
+  }
+
+  // Joints, checked against the links they connect
+  const linkNames = new Set(links.map(link => link.name));
+  const joints: UrdfJoint[] = [];
+  for (const element of robot.children.filter(c => c.tag === 'joint')) {
+    const { name, type } = element.attributes;
+    if (!name) throw new Error('Every <joint> needs a name');
+    if (type !== 'revolute' && type !== 'continuous' && type !== 'fixed') {
+      throw new Error(`Joint '${name}' is ${type ?? 'untyped'}; only revolute, continuous and fixed joints are supported`);
+    }
+    const parent = child(element, 'parent')?.attributes.link;
+    const childLink = child(element, 'child')?.attributes.link;
+    if (!parent || !linkNames.has(parent)) throw new Error(`Joint '${name}' has unknown parent link '${parent ?? ''}'`);
+    if (!childLink || !linkNames.has(childLink)) throw new Error(`Joint '${name}' has unknown child link '${childLink ?? ''}'`);
+    if (joints.some(j => j.child === childLink)) throw new Error(`Link '${childLink}' has more than one parent joint`);
+    joints.push({
+      name,
+      type,
+      parent,
+      child: childLink,
+      origin: parseOrigin(child(element, 'origin'), `Joint '${name}'`),
+      axis: parseVector(child(element, 'axis')?.attributes.xyz, [1, 0, 0], `Joint '${name}' axis`),
+      limit: child(element, 'limit')
+    });
+  }
+
+  const roots = links.filter(link => !joints.some(j => j.child === link.name));
+  if (roots.length !== 1) {
+    throw new Error(`URDF must form a single tree, found ${roots.length} root links`);
+  }
+  const baseLink = roots[0].name;
+  const childJoints = (link: string) => joints.filter(j => j.parent === link);
+
+  // Each moving joint reached from the base through fixed joints starts a leg
+  const legRoots: { joint: UrdfJoint; hip: Vec3; mount: number[][] }[] = [];
+  const findLegs = (link: string, position: Vec3, rotation: number[][]) => {
+    for (const joint of childJoints(link)) {
+      const offset = rotate(rotation, joint.origin.xyz);
+      const hip: Vec3 = [position[0] + offset[0], position[1] + offset[1], position[2] + offset[2]];
+      if (joint.type === 'fixed') {
+        findLegs(joint.child, hip, multiply(rotation, rpyMatrix(joint.origin.rpy)));
+      } else {
+        legRoots.push({ joint, hip, mount: multiply(rotation, rpyMatrix(joint.origin.rpy)) });
+      }
+    }
+  };
+  findLegs(baseLink, [0, 0, 0], rpyMatrix([0, 0, 0]));
+
+  const type = robotType ?? (legRoots.length === 6 ? 'hexapod' : legRoots.length === 4 ? 'quadruped' : undefined);
+  if (!type) {
+    throw new Error(`Found ${legRoots.length} legs; a hexapod needs 6 and a quadruped 4`);
+  }
+  if (legRoots.length !== ROBOT_LEG_COUNT[type]) {
+    throw new Error(`Found ${legRoots.length} legs; a ${type} needs ${ROBOT_LEG_COUNT[type]}`);
+  }
+  const jointTypes = LEG_JOINT_TYPES[type];
+
+  // Follow each leg out to its foot
+  const chains = legRoots.map(({ joint, hip, mount }) => {
+    const chain = [joint];
+    let foot: FrameOrigin = { xyz: [0, 0, 0], rpy: [0, 0, 0] };
+    for (;;) {
+      const next = childJoints(chain[chain.length - 1].child);
+      const moving = next.filter(j => j.type !== 'fixed');
+      if (moving.length > 1) {
+        throw new Error(`Link '${chain[chain.length - 1].child}' branches; legs must be serial chains`);
+      }
+      if (moving.length === 0) {
+        const tip = next.find(j => j.type === 'fixed');
+        if (tip) foot = tip.origin;
+        break;
+      }
+      chain.push(moving[0]);
+    }
+    if (chain.length !== jointTypes.length) {
+      throw new Error(`Leg starting at joint '${joint.name}' has ${chain.length} moving joints; ${type} legs need ${jointTypes.length}`);
+    }
+    return { chain, hip, mount, foot };
+  });
+
+  // Name legs from their hip positions
+  const legIds = type === 'hexapod' ? hexapodLegIds(chains.map(c => c.hip)) : quadrupedLegIds(chains.map(c => c.hip));
+  const actuator = ROBOT_ACTUATOR_DEFAULTS[type];
+  const modelJoints: RobotJoint[] = [];
+  const legs: RobotLeg[] = [];
+
+  chains.forEach(({ chain, hip, mount, foot }, index) => {
+    const legId = legIds[index];
+    chain.forEach((joint, depth) => {
+      const jointId = `${legId}_${jointTypes[depth]}`;
+      const limit = joint.limit?.attributes ?? {};
+      if (joint.type === 'revolute' && !joint.limit) {
+        throw new Error(`Revolute joint '${joint.name}' needs a <limit>`);
+      }
+      const lower = joint.type === 'continuous' ? -Math.PI : parseNumber(limit.lower, 0, `Joint '${joint.name}' lower limit`);
+      const upper = joint.type === 'continuous' ? Math.PI : parseNumber(limit.upper, 0, `Joint '${joint.name}' upper limit`);
+      if (lower >= upper) {
+        throw new Error(`Joint '${joint.name}' lower limit ${lower} is not below its upper limit ${upper}`);
+      }
+      let effort = parseNumber(limit.effort, 0, `Joint '${joint.name}' effort`);
+      let velocity = parseNumber(limit.velocity, 0, `Joint '${joint.name}' velocity`);
+      if (effort <= 0) {
+        effort = actuator.effort;
+        warnings.push(`Joint '${joint.name}' has no effort limit, using ${effort} N·m`);
+      }
+      if (velocity <= 0) {
+        velocity = actuator.velocity;
+        warnings.push(`Joint '${joint.name}' has no velocity limit, using ${velocity} rad/s`);
+      }
+      // A leg's first joint hangs straight off the base, through any fixed mounts between them
+      modelJoints.push({
+        joint_id: jointId,
+        name: joint.name,
+        leg_id: legId,
+        joint_type: jointTypes[depth],
+        parent: depth === 0 ? baseLink : joint.parent,
+        child: joint.child,
+        origin: depth === 0 ? { xyz: hip, rpy: matrixRpy(mount) } : joint.origin,
+        axis: joint.axis,
+        limits: { lower, upper, effort, velocity }
+      });
+    });
+    legs.push({ leg_id: legId, hip, joints: chain.map((_, depth) => `${legId}_${jointTypes[depth]}`), foot });
+  });
+
+  const model: RobotModel = {
+    name: robot.attributes.name || `imported ${type}`,
+    robot_type: type,
+    source: 'urdf',
+    base_link: baseLink,
+    links,
+    joints: modelJoints,
+    legs
+  };
+
+  if (robotMass(model) <= 0) {
+    throw new Error('URDF has no link masses; add <inertial> elements');
+  }
+  const base = links.find(link => link.name === baseLink)!;
+  if (base.inertia.ixx <= 0 || base.inertia.iyy <= 0 || base.inertia.izz <= 0) {
+    // Estimate the body as a slab spanning the hips
+    const xs = legs.map(leg => leg.hip[0]);
+    const ys = legs.map(leg => leg.hip[1]);
+    const estimate = boxInertia(base.mass, Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys), 0.1);
+    base.inertia = { ixx: estimate.x, iyy: estimate.y, izz: estimate.z };
+    warnings.push(`Base link '${baseLink}' has no inertia, estimated from the hip layout`);
+  }
+
+  return { model, warnings };
+}
+
+/**
+ * Hexapod leg IDs: 1-3 front to rear on the left, 4-6 rear to front on the right
+ */
+function hexapodLegIds(hips: Vec3[]): string[] {
+  const order = hips.map((hip, index) => ({ hip, index }));
+  const left = order.filter(h => h.hip[1] > 0).sort((a, b) => b.hip[0] - a.hip[0]);
+  const right = order.filter(h => h.hip[1] < 0).sort((a, b) => a.hip[0] - b.hip[0]);
+  if (left.length !== 3 || right.length !== 3) {
+    throw new Error(`Hexapod needs three hips on each side of the body, found ${left.length} left and ${right.length} right`);
+  }
+  const ids: string[] = [];
+  [...left, ...right].forEach(({ index }, n) => { ids[index] = `leg_${n + 1}`; });
+  return ids;
+}
+
+/**
+ * Quadruped leg IDs from the quadrant each hip sits in
+ */
+function quadrupedLegIds(hips: Vec3[]): string[] {
+  const ids = hips.map(([x, y]) => {
+    if (x === 0 || y === 0) {
+      throw new Error('Quadruped hips must sit off both body centre lines');
+    }
+    return `${x > 0 ? 'f' : 'b'}${y > 0 ? 'l' : 'r'}`;
+  });
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Quadruped needs one hip in each corner of the body');
+  }
+  return ids;
+}
@@ -0,0 +1,194 @@
+// Sensors - IMU, GPS and foot contact errors between the simulated truth and the reported telemetry
+
+import { SensorConfig, TelemetryFrame } from './types';
+import { SeededRandom } from './random';
+
+// ============================================
+// Sensor Constants
+// ============================================
+
+const GRAVITY = 9.81;                   // m/s^2
+const AHRS_TIME_CONSTANT = 1;           // s, how fast the attitude filter trusts the accelerometer over the gyro
+const MULTIPATH_TIME_CONSTANT = 30;     // s, correlation time of the multipath error
+const MULTIPATH_LOW_ALTITUDE = 5;       // m, below this reflections off the ground double the multipath error
+const GPS_VERTICAL_FACTOR = 1.5;        // vertical GPS error relative to horizontal
+const IMU_FAULT_NOISE_GAIN = 10;        // IMU noise multiplier per unit of sensor_noise fault magnitude
+const GPS_FAULT_NOISE_GAIN = 5;         // GPS noise multiplier per unit of gps_loss fault magnitude
+const GPS_FAULT_DROPOUT_RATE = 0.5;     // chance per sample of a stale fix per unit of gps_loss fault magnitude
+
+type ImuReading = TelemetryFrame['imu'];
+
+/**
+ * Position in metres north/east of home and above it
+ */
+export interface GpsFix {
+  north: number;
+  east: number;
+  alt: number;
+}
+
+// ============================================
+// IMU
+// ============================================
+
+/**
+ * MEMS IMU with an attitude filter. Gyro and accelerometer biases wander as
+ * random walks and each sample adds white noise of the configured density.
+ * Pitch and roll come from a complementary filter: the gyro integrates its
+ * bias and noise into the attitude, and the accelerometer's view of gravity,
+ * offset by its own bias and noise, pulls it back. Nothing corrects yaw, so
+ * it drifts with the gyro bias. A missed update repeats the last reading.
+ */
+export class ImuSensor {
+  private gyroBias = { pitch: 0, roll: 0, yaw: 0 };   // deg/s
+  private accelBias = { x: 0, y: 0, z: 0 };           // m/s^2
+  private attitudeError = { pitch: 0, roll: 0, yaw: 0 };   // degrees
+  private last: ImuReading | null = null;
+
+  constructor(
+    private readonly config: SensorConfig,
+    private readonly rng: SeededRandom,
+    private readonly dt: number
+  ) {}
+
+  /**
+   * Advance one step and read the true attitude and specific force. An
+   * injected sensor_noise fault of the given severity inflates the noise.
+   */
+  read(truth: ImuReading, severity: number = 0): ImuReading {
+    const { config, rng, dt } = this;
+    const noiseScale = 1 + IMU_FAULT_NOISE_GAIN * severity;
+    const gyroSigma = config.gyro_noise_density * Math.sqrt(1 / dt) * noiseScale;
+    const accelSigma = config.accel_noise_density * Math.sqrt(1 / dt) * noiseScale;
+    const walk = (value: number, drift: number) => value + drift * Math.sqrt(dt) * rng.gaussian();
+
+    this.gyroBias = {
+      pitch: walk(this.gyroBias.pitch, config.gyro_bias_drift),
+      roll: walk(this.gyroBias.roll, config.gyro_bias_drift),
+      yaw: walk(this.gyroBias.yaw, config.gyro_bias_drift)
+    };
+    this.accelBias = {
+      x: walk(this.accelBias.x, config.accel_bias_drift),
+      y: walk(this.accelBias.y, config.accel_bias_drift),
+      z: walk(this.accelBias.z, config.accel_bias_drift)
+    };
+    const accelError = {
+      x: this.accelBias.x + rng.gaussian(0, accelSigma),
+      y: this.accelBias.y + rng.gaussian(0, accelSigma),
+      z: this.accelBias.z + rng.gaussian(0, accelSigma)
+    };
+
+    // Gyro integration, corrected toward the tilt the accelerometer sees
+    const toDegrees = 180 / Math.PI;
+    const correction = dt / AHRS_TIME_CONSTANT;
+    const tiltError = { pitch: accelError.x / GRAVITY * toDegrees, roll: accelError.y / GRAVITY * toDegrees };
+    for (const axis of ['pitch', 'roll'] as const) {
+      const integrated = this.attitudeError[axis] + (this.gyroBias[axis] + rng.gaussian(0, gyroSigma)) * dt;
+      this.attitudeError[axis] = integrated + (tiltError[axis] - integrated) * correction;
+    }
+    this.attitudeError.yaw += (this.gyroBias.yaw + rng.gaussian(0, gyroSigma)) * dt;
+
+    const dropped = rng.next() < config.dropout_rate;
+    if (dropped && this.last) return this.last;
+    this.last = {
+      pitch: truth.pitch + this.attitudeError.pitch,
+      roll: truth.roll + this.attitudeError.roll,
+      yaw: truth.yaw + this.attitudeError.yaw,
+      accel_x: truth.accel_x + accelError.x,
+      accel_y: truth.accel_y + accelError.y,
+      accel_z: truth.accel_z + accelError.z
+    };
+    return this.last;
+  }
+}
+
+// ============================================
+// GPS
+// ============================================
+
+/**
+ * GPS receiver reporting fixes that are the configured latency old. Each fix
+ * carries white noise and a multipath error that wanders slowly as a
+ * first-order Gauss-Markov process, doubling near the ground. Vertical error
+ * is larger than horizontal. A missed update repeats the last fix.
+ */
+export class GpsSensor {
+  private history: { time: number; fix: GpsFix }[] = [];
+  private multipath: GpsFix = { north: 0, east: 0, alt: 0 };
+  private last: GpsFix | null = null;
+  private time = 0;
+
+  constructor(
+    private readonly config: SensorConfig,
+    private readonly rng: SeededRandom,
+    private readonly dt: number
+  ) {}
+
+  /**
+   * Advance one step with the true position and read the fix. An injected
+   * gps_loss fault of the given severity inflates the noise and drops fixes.
+   */
+  read(truth: GpsFix, severity: number = 0): GpsFix {
+    const { config, rng, dt } = this;
+
+    // The fix reported now is the position the latency ago
+    this.history.push({ time: this.time, fix: { ...truth } });
+    while (this.history.length > 1 && this.history[1].time <= this.time - config.gps_latency) {
+      this.history.shift();
+    }
+    const delayed = this.history[0].fix;
+    this.time += dt;
+
+    const decay = Math.exp(-dt / MULTIPATH_TIME_CONSTANT);
+    const multipathSigma = config.gps_multipath * (truth.alt < MULTIPATH_LOW_ALTITUDE ? 2 : 1);
+    const wander = (value: number, sigma: number) => decay * value + sigma * Math.sqrt(1 - decay * decay) * rng.gaussian();
+    this.multipath = {
+      north: wander(this.multipath.north, multipathSigma),
+      east: wander(this.multipath.east, multipathSigma),
+      alt: wander(this.multipath.alt, multipathSigma * GPS_VERTICAL_FACTOR)
+    };
+
+    const noise = config.gps_noise * (1 + GPS_FAULT_NOISE_GAIN * severity);
+    const fix = {
+      north: delayed.north + this.multipath.north + rng.gaussian(0, noise),
+      east: delayed.east + this.multipath.east + rng.gaussian(0, noise),
+      alt: delayed.alt + this.multipath.alt + rng.gaussian(0, noise * GPS_VERTICAL_FACTOR)
+    };
+
+    const dropped = rng.next() < config.dropout_rate + GPS_FAULT_DROPOUT_RATE * severity;
+    if (dropped && this.last) return this.last;
+    this.last = fix;
+    return fix;
+  }
+}
+
+// ============================================
+// Foot Contact Switches
+// ============================================
+
+/**
+ * Contact switch on each foot. A foot in the air can read as in contact, and
+ * a missed update repeats the leg's last reading.
+ */
+export class ContactSensors {
+  private last: Record<string, boolean> = {};
+
+  constructor(
+    private readonly config: SensorConfig,
+    private readonly rng: SeededRandom
+  ) {}
+
+  /**
+   * Read the true contact state of every leg
+   */
+  read(truth: Record<string, boolean>): Record<string, boolean> {
+    const readings: Record<string, boolean> = {};
+    for (const [legId, inContact] of Object.entries(truth)) {
+      const falsePositive = this.rng.next() < this.config.contact_false_positive_rate;
+      const dropped = this.rng.next() < this.config.dropout_rate;
+      readings[legId] = dropped && legId in this.last ? this.last[legId] : inContact || falsePositive;
+    }
+    this.last = readings;
+    return readings;
+  }
+}
@@ -5,12 +5,38 @@ import {
   PhysicsConfig,
   MotorParams,
   SimulationRun,
+  DroneSimulationRun,
+  GaitConfig,
+  FaultSchedule,
+  BatteryConfig,
+  SensorConfig,
+  Obstacle,
+  RangeSensorConfig,
+  RangeSensorPlatform,
   DEFAULT_PHYSICS,
+  DEFAULT_BATTERY,
+  DEFAULT_SENSORS,
+  DEFAULT_RANGE_SENSORS,
+  DEFAULT_INTEGRATOR,
+  DEFAULT_GAIT,
+  DEFAULT_FAULT_SCHEDULE,
   DEFAULT_MOTOR_PARAMS,
-  HEXAPOD_JOINTS,
+  QUADRUPED_JOINTS,
+  DEFAULT_QUADRUPED_MOTOR_PARAMS,
+  GroundRobotType,
+  RobotModel,
+  RobotJoint,
   DronePhysicsConfig,
-  QUADCOPTER_ROTORS
+  RotorParams,
+  DroneMotorParams,
+  FlightControllerConfig,
+  DroneMission,
+  FailsafeConfig,
+  AirframeConfig,
+  AirframeType,
+  RotorMount
 } from './types';
+import { BUILTIN_ROBOT_MODELS } from './robot';
 
 // ============================================
 // Drone Defaults
@@ -20,21 +46,199 @@ export const DEFAULT_DRONE_PHYSICS: DronePhysicsConfig = {
   air_density: 1.225,
   wind_speed: 2.0,
   wind_direction: 180,
-  airspace_condition: 'light_wind'
+  airspace_condition: 'light_wind',
+  integrator: DEFAULT_INTEGRATOR
 };
 
-export const DEFAULT_ROTOR_PARAMS = {
+export const DEFAULT_ROTOR_PARAMS: RotorParams = {
   max_rpm: 8000,
   min_rpm: 1000,
   response_time: 0.05  // seconds
 };
 
-export const DEFAULT_DRONE_MOTOR_PARAMS = {
+export const DEFAULT_DRONE_MOTOR_PARAMS: DroneMotorParams = {
   kv_rating: 2300,      // RPM per volt
   max_current: 25,      // Amps
   efficiency: 0.85      // 85%
 };
 
+export const DEFAULT_FLIGHT_CONTROLLER: FlightControllerConfig = {
+  altitude_pid: { p: 0.8, i: 0.1, d: 0.3 },
+  attitude_pid: { p: 0.01, i: 0.001, d: 0.002 },
+  position_pid: { p: 2.0, i: 0.3, d: 3.0 },
+  yaw_pid: { p: 0.02, i: 0.002, d: 0.01 },
+  rotor_loss_strategy: 'none',
+  rotor: DEFAULT_ROTOR_PARAMS,
+  motor: DEFAULT_DRONE_MOTOR_PARAMS
+};
+
+// All-up mass and arm length typical of each frame class
+export const AIRFRAME_PRESETS: Record<AirframeType, { mass: number; arm_length: number; battery_capacity: number }> = {
+  quad_x: { mass: 1.5, arm_length: 0.25, battery_capacity: 5 },
+  hex_x: { mass: 2.5, arm_length: 0.35, battery_capacity: 8 },
+  octo_x: { mass: 4.0, arm_length: 0.45, battery_capacity: 12 },
+  coaxial_x8: { mass: 3.0, arm_length: 0.3, battery_capacity: 10 }
+};
+
+const COAXIAL_ROTOR_SPACING = 0.1;            // meters between the upper and lower rotor of a pair
+
+// 10-inch propellers: the 1.5 kg quad hovers near 4500 RPM
+const DEFAULT_THRUST_COEFFICIENT = 1.66e-5;   // N/(rad/s)²
+const DEFAULT_TORQUE_COEFFICIENT = 6e-7;      // N·m/(rad/s)²
+
+/**
+ * Rotor mounts for a frame type. Arms are evenly spaced clockwise from the
+ * nose with spin directions alternating, so reaction torques cancel in
+ * hover; a coaxial pair spins in opposite directions. Quad rotors keep the
+ * QUADCOPTER_ROTORS names and order, coaxial ones add an _upper/_lower
+ * suffix, and hex and octo rotors are numbered clockwise from the nose.
+ */
+export function airframeRotors(type: AirframeType, armLength: number): RotorMount[] {
+  const mount = (id: string, angle: number, spin: RotorMount['spin'], z = 0): RotorMount => ({
+    id,
+    x: Number((armLength * Math.cos(angle * Math.PI / 180)).toFixed(4)),
+    y: Number((armLength * Math.sin(angle * Math.PI / 180)).toFixed(4)),
+    z,
+    spin
+  });
+  const quadArms: [string, number, RotorMount['spin']][] = [
+    ['fl', 315, 'ccw'], ['fr', 45, 'cw'], ['bl', 225, 'cw'], ['br', 135, 'ccw']
+  ];
+
+  switch (type) {
+    case 'quad_x':
+      return quadArms.map(([arm, angle, spin]) => mount(`rotor_${arm}`, angle, spin));
+    case 'coaxial_x8':
+      return quadArms.flatMap(([arm, angle, spin]) => [
+        mount(`rotor_${arm}_upper`, angle, spin, COAXIAL_ROTOR_SPACING / 2),
+        mount(`rotor_${arm}_lower`, angle, spin === 'cw' ? 'ccw' : 'cw', -COAXIAL_ROTOR_SPACING / 2)
+      ]);
+    case 'hex_x':
+    case 'octo_x': {
+      const arms = type === 'hex_x' ? 6 : 8;
+      return Array.from({ length: arms }, (_, k) =>
+        mount(`rotor_${k + 1}`, (k + 0.5) * 360 / arms, k % 2 === 0 ? 'cw' : 'ccw')
+      );
+    }
+  }
+}
+
+/**
+ * Build an airframe of the given type from its preset, with optional overrides
+ */
+export function createAirframe(type: AirframeType, overrides: Partial<Omit<AirframeConfig, 'type' | 'rotors'>> = {}): AirframeConfig {
+  const preset = AIRFRAME_PRESETS[type];
+  const armLength = overrides.arm_length ?? preset.arm_length;
+  return {
+    type,
+    mass: overrides.mass ?? preset.mass,
+    arm_length: armLength,
+    thrust_coefficient: overrides.thrust_coefficient ?? DEFAULT_THRUST_COEFFICIENT,
+    torque_coefficient: overrides.torque_coefficient ?? DEFAULT_TORQUE_COEFFICIENT,
+    battery_capacity: overrides.battery_capacity ?? preset.battery_capacity,
+    rotors: airframeRotors(type, armLength)
+  };
+}
+
+export const DEFAULT_AIRFRAME: AirframeConfig = createAirframe('quad_x');
+
+// Square circuit around the home point in San Francisco
+export const DEFAULT_MISSION: DroneMission = {
+  home: { lat: 37.7749, lon: -122.4194 },
+  takeoff_altitude: 10,
+  hover_seconds: 5,
+  waypoints: [
+    { lat: 37.7750, lon: -122.4193, alt: 10, speed: 5, loiter_seconds: 0 },
+    { lat: 37.7751, lon: -122.4194, alt: 10, speed: 5, loiter_seconds: 0 },
+    { lat: 37.7750, lon: -122.4195, alt: 10, speed: 5, loiter_seconds: 0 },
+    { lat: 37.7749, lon: -122.4194, alt: 10, speed: 5, loiter_seconds: 0 }
+  ],
+  landing: { lat: 37.7749, lon: -122.4194 }
+};
+
+// 100 m cylinder around home under the usual 120 m ceiling; RTH at 15% battery
+export const DEFAULT_FAILSAFE: FailsafeConfig = {
+  geofence: {
+    enabled: true,
+    shape: 'cylinder',
+    radius: 100,
+    polygon: [],
+    max_altitude: 120
+  },
+  rth_battery_threshold: 15,
+  land_battery_threshold: 5,
+  rth_altitude: 15,
+  breach_action: 'rth',
+  motor_failure_action: 'land'
+};
+
+/**
+ * Copy a failsafe config so later edits do not alias it
+ */
+export function cloneFailsafe(config: FailsafeConfig): FailsafeConfig {
+  return {
+    ...config,
+    geofence: { ...config.geofence, polygon: config.geofence.polygon.map(v => ({ ...v })) }
+  };
+}
+
+/**
+ * Copy a mission so later edits do not alias it
+ */
+export function cloneMission(mission: DroneMission): DroneMission {
+  return {
+    ...mission,
+    home: { ...mission.home },
+    waypoints: mission.waypoints.map(wp => ({ ...wp })),
+    landing: { ...mission.landing }
+  };
+}
+
+/**
+ * Copy an airframe so later edits do not alias it
+ */
+export function cloneAirframe(airframe: AirframeConfig): AirframeConfig {
+  return { ...airframe, rotors: airframe.rotors.map(r => ({ ...r })) };
+}
+
+/**
+ * Copy a range sensor so later edits do not alias its mount
+ */
+export function cloneRangeSensor(sensor: RangeSensorConfig): RangeSensorConfig {
+  return { ...sensor, mount: [...sensor.mount] };
+}
+
+/**
+ * Copy a flight controller config so later tuning does not alias it
+ */
+export function cloneFlightController(config: FlightControllerConfig): FlightControllerConfig {
+  return {
+    ...config,
+    altitude_pid: { ...config.altitude_pid },
+    attitude_pid: { ...config.attitude_pid },
+    position_pid: { ...config.position_pid },
+    yaw_pid: { ...config.yaw_pid },
+    rotor: { ...config.rotor },
+    motor: { ...config.motor }
+  };
+}
+
+/**
+ * Default motor params for a joint, based on the robot it belongs to
+ */
+export function getDefaultMotorParams(jointId: string): Omit<MotorParams, 'joint_id'> {
+  return QUADRUPED_JOINTS.includes(jointId) ? DEFAULT_QUADRUPED_MOTOR_PARAMS : DEFAULT_MOTOR_PARAMS;
+}
+
+/**
+ * Motor params for a joint of a robot model: the robot's default gains,
+ * limited by the joint's rated effort and velocity
+ */
+export function getModelMotorParams(model: RobotModel, joint: RobotJoint): Omit<MotorParams, 'joint_id'> {
+  const defaults = model.robot_type === 'quadruped' ? DEFAULT_QUADRUPED_MOTOR_PARAMS : DEFAULT_MOTOR_PARAMS;
+  return { ...defaults, torque_limit: joint.limits.effort, max_velocity: joint.limits.velocity };
+}
+
 const SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 
@@ -84,6 +288,144 @@ export class InMemoryStateStore {
     return session.physics;
   }
 
+  /**
+   * Update the ground robot battery for a session
+   */
+  updateBattery(sessionId: string, battery: Partial<BatteryConfig>): BatteryConfig {
+    const session = this.getOrCreate(sessionId);
+    session.battery = { ...session.battery, ...battery };
+    console.log(`[StateStore] Updated battery for ${sessionId}:`, session.battery);
+    return session.battery;
+  }
+
+  /**
+   * Update the sensor error model for a session
+   */
+  updateSensors(sessionId: string, sensors: Partial<SensorConfig>): SensorConfig {
+    const session = this.getOrCreate(sessionId);
+    session.sensors = { ...session.sensors, ...sensors };
+    console.log(`[StateStore] Updated sensors for ${sessionId}:`, session.sensors);
+    return session.sensors;
+  }
+
+  /**
+   * Replace the obstacles placed in the world for a session
+   */
+  updateObstacles(sessionId: string, obstacles: Obstacle[]): Obstacle[] {
+    const session = this.getOrCreate(sessionId);
+    session.obstacles = obstacles.map(obstacle => ({ ...obstacle }));
+    console.log(`[StateStore] Updated obstacles for ${sessionId}: ${session.obstacles.length} placed`);
+    return session.obstacles;
+  }
+
+  /**
+   * Replace the range sensors mounted on one platform for a session
+   */
+  updateRangeSensors(sessionId: string, platform: RangeSensorPlatform, sensors: RangeSensorConfig[]): RangeSensorConfig[] {
+    const session = this.getOrCreate(sessionId);
+    session.range_sensors[platform] = sensors.map(cloneRangeSensor);
+    console.log(`[StateStore] Updated ${platform} range sensors for ${sessionId}:`, session.range_sensors[platform].map(sensor => sensor.sensor_id));
+    return session.range_sensors[platform];
+  }
+
+  /**
+   * Update drone flight environment for a session
+   */
+  updateDronePhysics(sessionId: string, physics: Partial<DronePhysicsConfig>): DronePhysicsConfig {
+    const session = this.getOrCreate(sessionId);
+    session.drone_physics = { ...session.drone_physics, ...physics };
+    console.log(`[StateStore] Updated drone physics for ${sessionId}:`, session.drone_physics);
+    return session.drone_physics;
+  }
+
+  /**
+   * Replace the drone flight controller configuration for a session
+   */
+  updateFlightController(sessionId: string, config: FlightControllerConfig): FlightControllerConfig {
+    const session = this.getOrCreate(sessionId);
+    session.flight_controller = cloneFlightController(config);
+    console.log(`[StateStore] Updated flight controller for ${sessionId}:`, session.flight_controller);
+    return session.flight_controller;
+  }
+
+  /**
+   * Replace the drone airframe for a session
+   */
+  updateAirframe(sessionId: string, airframe: AirframeConfig): AirframeConfig {
+    const session = this.getOrCreate(sessionId);
+    session.airframe = cloneAirframe(airframe);
+    console.log(`[StateStore] Updated airframe for ${sessionId}: ${airframe.type}, ${airframe.mass}kg, ${airframe.rotors.length} rotors`);
+    return session.airframe;
+  }
+
+  /**
+   * Replace the drone mission for a session
+   */
+  updateMission(sessionId: string, mission: DroneMission): DroneMission {
+    const session = this.getOrCreate(sessionId);
+    session.mission = cloneMission(mission);
+    console.log(`[StateStore] Updated mission for ${sessionId}: ${mission.waypoints.length} waypoints`);
+    return session.mission;
+  }
+
+  /**
+   * Replace the drone geofence and failsafe policy for a session
+   */
+  updateFailsafe(sessionId: string, config: FailsafeConfig): FailsafeConfig {
+    const session = this.getOrCreate(sessionId);
+    session.failsafe = cloneFailsafe(config);
+    console.log(`[StateStore] Updated failsafe for ${sessionId}:`, session.failsafe);
+    return session.failsafe;
+  }
+
+  /**
+   * Update hexapod gait configuration for a session
+   */
+  updateGait(sessionId: string, gait: Partial<GaitConfig>): GaitConfig {
+    const session = this.getOrCreate(sessionId);
+    session.gait = { ...session.gait, ...gait };
+    console.log(`[StateStore] Updated gait for ${sessionId}:`, session.gait);
+    return session.gait;
+  }
+
+  /**
+   * Update the fault schedule applied to the session's runs
+   */
+  updateFaultSchedule(sessionId: string, schedule: Partial<FaultSchedule>): FaultSchedule {
+    const session = this.getOrCreate(sessionId);
+    session.fault_schedule = { ...session.fault_schedule, ...schedule };
+    console.log(`[StateStore] Updated fault schedule for ${sessionId}:`, session.fault_schedule);
+    return session.fault_schedule;
+  }
+
+  /**
+   * Replace the model of one of the ground robots. Its joints' motors keep
+   * their gains and take the new torque and velocity limits; motors for
+   * joints the model no longer has are dropped.
+   */
+  updateRobotModel(sessionId: string, model: RobotModel): RobotModel {
+    const session = this.getOrCreate(sessionId);
+    const previous = session.robot_models[model.robot_type];
+    for (const joint of previous.joints) {
+      if (!model.joints.some(j => j.joint_id === joint.joint_id)) {
+        session.motors.delete(joint.joint_id);
+      }
+    }
+    for (const joint of model.joints) {
+      const defaults = getModelMotorParams(model, joint);
+      const existing = session.motors.get(joint.joint_id);
+      session.motors.set(joint.joint_id, {
+        ...(existing ?? defaults),
+        joint_id: joint.joint_id,
+        torque_limit: defaults.torque_limit,
+        max_velocity: defaults.max_velocity
+      });
+    }
+    session.robot_models[model.robot_type] = model;
+    console.log(`[StateStore] Loaded ${model.robot_type} model '${model.name}' for ${sessionId}`);
+    return model;
+  }
+
   /**
    * Update motor parameters for a joint
    */
@@ -92,7 +434,7 @@ export class InMemoryStateStore {
 
     const existing = session.motors.get(jointId) || {
       joint_id: jointId,
-      ...DEFAULT_MOTOR_PARAMS
+      ...getDefaultMotorParams(jointId)
     };
 
     const updated: MotorParams = { ...existing, ...params, joint_id: jointId };
@@ -134,6 +476,37 @@ export class InMemoryStateStore {
     return session?.runs.find(r => r.run_id === runId);
   }
 
+  /**
+   * Add a drone flight to the session
+   */
+  addDroneRun(sessionId: string, run: DroneSimulationRun): void {
+    const session = this.getOrCreate(sessionId);
+    session.drone_runs.push(run);
+
+    // Keep only last 10 flights to avoid memory bloat
+    if (session.drone_runs.length > 10) {
+      session.drone_runs = session.drone_runs.slice(-10);
+    }
+
+    console.log(`[StateStore] Added drone run ${run.run_id} for ${sessionId}`);
+  }
+
+  /**
+   * Get the latest drone flight for a session
+   */
+  getLatestDroneRun(sessionId: string): DroneSimulationRun | undefined {
+    const session = this.get(sessionId);
+    return session?.drone_runs[session.drone_runs.length - 1];
+  }
+
+  /**
+   * Get a specific drone flight by ID
+   */
+  getDroneRun(sessionId: string, runId: string): DroneSimulationRun | undefined {
+    const session = this.get(sessionId);
+    return session?.drone_runs.find(r => r.run_id === runId);
+  }
+
   /**
    * Delete a session
    */
@@ -203,22 +576,46 @@ export class InMemoryStateStore {
    */
   private createDefaultSession(sessionId: string): SessionState {
     const motors = new Map<string, MotorParams>();
-
-    // Initialize all hexapod joints with default params
-    for (const jointId of HEXAPOD_JOINTS) {
-      motors.set(jointId, {
-        joint_id: jointId,
-        ...DEFAULT_MOTOR_PARAMS
-      });
+    const robotModels: Record<GroundRobotType, RobotModel> = { ...BUILTIN_ROBOT_MODELS };
+
+    // Initialize every joint of the hexapod and quadruped models
+    for (const model of Object.values(robotModels)) {
+      for (const joint of model.joints) {
+        motors.set(joint.joint_id, {
+          joint_id: joint.joint_id,
+          ...getModelMotorParams(model, joint)
+        });
+      }
     }
 
     return {
       session_id: sessionId,
       created_at: Date.now(),
       last_accessed: Date.now(),
-      physics: { ...DEFAULT_PHYSICS },
+      physics: { ...DEFAULT_PHYSICS, integrator: { ...DEFAULT_INTEGRATOR } },
       motors,
-      runs: []
+      battery: { ...DEFAULT_BATTERY },
+      sensors: { ...DEFAULT_SENSORS },
+      obstacles: [],
+      range_sensors: {
+        hexapod: DEFAULT_RANGE_SENSORS.hexapod.map(cloneRangeSensor),
+        quadruped: DEFAULT_RANGE_SENSORS.quadruped.map(cloneRangeSensor),
+        drone: DEFAULT_RANGE_SENSORS.drone.map(cloneRangeSensor)
+      },
+      robot_models: robotModels,
+      gait: {
+        ...DEFAULT_GAIT,
+        phase_offsets: { ...DEFAULT_GAIT.phase_offsets },
+        amplitudes: { ...DEFAULT_GAIT.amplitudes }
+      },
+      fault_schedule: { ...DEFAULT_FAULT_SCHEDULE, faults: [] },
+      drone_physics: { ...DEFAULT_DRONE_PHYSICS, integrator: { ...DEFAULT_INTEGRATOR } },
+      flight_controller: cloneFlightController(DEFAULT_FLIGHT_CONTROLLER),
+      airframe: cloneAirframe(DEFAULT_AIRFRAME),
+      mission: cloneMission(DEFAULT_MISSION),
+      failsafe: cloneFailsafe(DEFAULT_FAILSAFE),
+      runs: [],
+      drone_runs: []
     };
   }
 }
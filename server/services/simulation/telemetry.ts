@@ -3,25 +3,54 @@
 import {
   TelemetryFrame,
   PhysicsConfig,
+  IntegratorConfig,
   MotorParams,
   SimulationMetrics,
-  HEXAPOD_JOINTS,
+  DEFAULT_MOTOR_PARAMS,
+  DEFAULT_QUADRUPED_MOTOR_PARAMS,
+  QuadrupedGait,
+  GaitConfig,
+  GaitTiming,
   DroneTelemetryFrame,
+  FlightPhase,
   DronePhysicsConfig,
   DroneSimulationMetrics,
   DroneFlightPath,
-  QUADCOPTER_ROTORS
+  FlightControllerConfig,
+  PIDGains,
+  DroneMission,
+  FailsafeConfig,
+  FailsafeReport,
+  DroneSimulationEvent,
+  FailsafeTrigger,
+  Geofence,
+  WaypointReport,
+  AirframeConfig,
+  RotorMount,
+  RobotModel,
+  LegKinematics,
+  TerrainProfile,
+  ThermalConfig,
+  BatteryConfig,
+  SensorConfig,
+  Obstacle,
+  RangeSensorConfig
 } from './types';
-
-/**
- * Generate Gaussian noise
- */
-function gaussianNoise(mean: number = 0, stdDev: number = 1): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
-  const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-  return z0 * stdDev + mean;
-}
+import { SeededRandom } from './random';
+import { FaultInjector, DroneFaultInjector } from './failures';
+import { WindField, windDisturbance } from './wind';
+import {
+  MassProperties,
+  RigidBodyState,
+  Vector3,
+  integrateRigidBody,
+  restingBody
+} from './dynamics';
+import { robotBodyMass, robotCentreOfMass, footPositions, legChains, legMass } from './robot';
+import { groundPlane } from './terrain';
+import { Battery } from './battery';
+import { ImuSensor, GpsSensor, ContactSensors } from './sensors';
+import { RangeSensors, nearestObstacle, pushClear } from './obstacles';
 
 /**
  * Clamp a value between min and max
@@ -31,7 +60,10 @@ function clamp(value: number, min: number, max: number): number {
 }
 
 /**
- * Get terrain-specific parameters
+ * Get terrain-specific parameters. Sinkage (m) is how far a foot presses in
+ * under its nominal load, and grows with load by the sinkage exponent;
+ * impact damping is the fraction of a landing foot's momentum the ground
+ * stops abruptly rather than absorbs.
  */
 function getTerrainParams(terrainType: PhysicsConfig['terrain_type']) {
   const params = {
@@ -39,53 +71,902 @@ function getTerrainParams(terrainType: PhysicsConfig['terrain_type']) {
       slipProbability: 0.15,
       frictionVariance: 0.2,
       impactDamping: 0.7,
-      sinkage: 0.02
+      sinkage: 0.02,
+      sinkageExponent: 1.1
     },
     concrete: {
       slipProbability: 0.02,
       frictionVariance: 0.05,
       impactDamping: 0.95,
-      sinkage: 0
+      sinkage: 0,
+      sinkageExponent: 1
     },
     grass: {
       slipProbability: 0.08,
       frictionVariance: 0.15,
       impactDamping: 0.8,
-      sinkage: 0.01
+      sinkage: 0.01,
+      sinkageExponent: 0.7
     },
     gravel: {
       slipProbability: 0.12,
       frictionVariance: 0.18,
       impactDamping: 0.75,
-      sinkage: 0.015
+      sinkage: 0.015,
+      sinkageExponent: 0.8
     }
   };
   return params[terrainType] || params.concrete;
 }
 
+type TerrainParams = ReturnType<typeof getTerrainParams>;
+
+// Effective joint inertia seen by each actuator (kg·m²)
+const HEXAPOD_JOINT_INERTIA = 0.02;
+const QUADRUPED_JOINT_INERTIA = 0.05;
+
+
+// How far past the stop a joint_limit_exceeded fault drives the setpoint (rad)
+const JOINT_LIMIT_OVERSHOOT = 0.3;
+
+/**
+ * Per-joint actuator and controller state
+ */
+interface JointState {
+  position: number;   // rad
+  velocity: number;   // rad/s
+  torque: number;     // Nm, applied after saturation
+  integral: number;   // accumulated position error (rad·s)
+}
+
 /**
- * Simulate PID controller response
+ * Advance one joint by a single PID control step.
+ * The derivative acts on measured velocity to avoid setpoint kick. The
+ * integrator is frozen while the actuator is saturated in the direction of
+ * the error (conditional-integration anti-windup) and bounded so that the
+ * I-term alone can never exceed torque_limit. The saturated torque, minus
+ * any external load, drives the joint inertia, and the resulting velocity is
+ * limited to max_velocity.
  */
-function pidResponse(
-  current: number,
+function pidStep(
+  state: JointState,
   target: number,
-  pid_p: number,
-  pid_d: number,
-  velocity: number,
+  motor: MotorParams,
+  inertia: number,
+  loadTorque: number,
   dt: number
-): { position: number; velocity: number } {
-  const error = target - current;
-  const pTerm = pid_p * error;
-  const dTerm = -pid_d * velocity;
+): void {
+  const error = target - state.position;
+  const commanded = motor.pid_p * error + motor.pid_i * state.integral - motor.pid_d * state.velocity;
+  const torque = clamp(commanded, -motor.torque_limit, motor.torque_limit);
+
+  const saturated = torque !== commanded;
+  if (!saturated || Math.sign(error) !== Math.sign(commanded)) {
+    state.integral += error * dt;
+    if (motor.pid_i > 0) {
+      const integralLimit = motor.torque_limit / motor.pid_i;
+      state.integral = clamp(state.integral, -integralLimit, integralLimit);
+    }
+  }
+
+  const acceleration = (torque - loadTorque) / inertia;
+  state.velocity = clamp(state.velocity + acceleration * dt, -motor.max_velocity, motor.max_velocity);
+  state.position += state.velocity * dt;
+  state.torque = torque;
+}
+
+/**
+ * Enforce a joint's mechanical range; hitting a stop kills its velocity
+ */
+function applyJointLimits(state: JointState, limits: [number, number]): void {
+  if (state.position < limits[0] || state.position > limits[1]) {
+    state.position = clamp(state.position, limits[0], limits[1]);
+    state.velocity = 0;
+  }
+}
+
+/**
+ * Motor params with torque derated while a motor_overheat fault is active,
+ * and by thermal throttling as the winding heats up. A driver reset by a
+ * brown-out applies no torque at all.
+ */
+function deratedMotor(motor: MotorParams, faults: FaultInjector, thermal: MotorThermal, powered: boolean): MotorParams {
+  if (!powered) return { ...motor, torque_limit: 0 };
+  const overheat = faults.active('motor_overheat', motor.joint_id);
+  const derating = (overheat ? 1 - 0.5 * overheat.magnitude : 1) * thermal.throttle(motor.joint_id);
+  return derating < 1 ? { ...motor, torque_limit: motor.torque_limit * derating } : motor;
+}
+
+/**
+ * Position of a leg within its gait cycle as a fraction in [0, 1)
+ */
+function legCycleFraction(t: number, gait: GaitTiming, legId: string): number {
+  const cycle = t * gait.frequency + (gait.phase_offsets[legId] ?? 0);
+  return cycle - Math.floor(cycle);
+}
+
+/**
+ * Map a cycle fraction to a phase angle where stance spans [0, PI) over
+ * duty_factor of the cycle and swing spans [PI, 2PI) over the remainder.
+ * At duty_factor 0.5 this is a uniform sweep.
+ */
+function gaitPhaseAngle(fraction: number, dutyFactor: number): number {
+  return fraction < dutyFactor
+    ? (fraction / dutyFactor) * Math.PI
+    : Math.PI + ((fraction - dutyFactor) / (1 - dutyFactor)) * Math.PI;
+}
+
+/**
+ * IMU reading rounded as reported: attitude to hundredths of a degree,
+ * accelerations to the mm/s^2
+ */
+function roundImu(imu: TelemetryFrame['imu']): TelemetryFrame['imu'] {
+  return {
+    pitch: Number(imu.pitch.toFixed(2)),
+    roll: Number(imu.roll.toFixed(2)),
+    yaw: Number(imu.yaw.toFixed(2)),
+    accel_x: Number(imu.accel_x.toFixed(3)),
+    accel_y: Number(imu.accel_y.toFixed(3)),
+    accel_z: Number(imu.accel_z.toFixed(3))
+  };
+}
+
+/**
+ * Fewest legs simultaneously in stance over one gait cycle
+ */
+export function minimumStanceLegs(gait: GaitTiming): number {
+  const samples = 120;
+  let minimum = Infinity;
+  for (let k = 0; k < samples; k++) {
+    const t = k / (samples * gait.frequency);
+    const stance = Object.keys(gait.phase_offsets)
+      .filter(legId => legCycleFraction(t, gait, legId) < gait.duty_factor).length;
+    minimum = Math.min(minimum, stance);
+  }
+  return minimum;
+}
+
+// ============================================
+// Motor Thermal Model
+// ============================================
+
+/**
+ * Electrical and thermal constants of a joint motor. Current is the joint
+ * torque over the torque constant (gearing included); its copper losses heat
+ * the winding, which sheds heat to the ambient air through its thermal
+ * resistance.
+ */
+interface MotorThermalParams {
+  torqueConstant: number;      // Nm/A at the joint output
+  windingResistance: number;   // Ω at 25°C
+  heatCapacity: number;        // J/K of the winding
+  thermalResistance: number;   // K/W from winding to ambient
+}
+
+// Small servos on the hexapod, larger geared actuators on the quadruped
+const HEXAPOD_MOTOR_THERMAL: MotorThermalParams = {
+  torqueConstant: 2,
+  windingResistance: 4,
+  heatCapacity: 10,
+  thermalResistance: 5
+};
+const QUADRUPED_MOTOR_THERMAL: MotorThermalParams = {
+  torqueConstant: 1,
+  windingResistance: 1,
+  heatCapacity: 20,
+  thermalResistance: 3
+};
+
+const COPPER_TEMPERATURE_COEFFICIENT = 0.00393;  // 1/K, rise in winding resistance with temperature
+const FAULT_HEATING_RATE = 2.5;   // 1/s, how fast a motor_overheat fault closes on its fault temperature
+const THROTTLE_FLOOR = 0.25;      // fraction of torque_limit a fully throttled joint keeps
+
+/**
+ * Winding temperature of every joint motor over a run, starting at ambient.
+ * With throttling on, a joint's torque limit is derated linearly from the
+ * throttle temperature down to the floor at the maximum temperature.
+ */
+class MotorThermal {
+  private readonly temperatures: Record<string, number> = {};
+
+  constructor(
+    jointIds: string[],
+    private readonly motor: MotorThermalParams,
+    private readonly config: ThermalConfig,
+    private readonly dt: number
+  ) {
+    for (const jointId of jointIds) {
+      this.temperatures[jointId] = config.ambient_temperature;
+    }
+  }
+
+  /**
+   * Fraction of torque_limit a joint may use at its winding temperature
+   */
+  throttle(jointId: string): number {
+    const { throttling, throttle_temperature: start, max_temperature: max } = this.config;
+    if (!throttling) return 1;
+    const heat = (this.temperatures[jointId] - start) / Math.max(max - start, 0.1);
+    return 1 - (1 - THROTTLE_FLOOR) * clamp(heat, 0, 1);
+  }
+
+  /**
+   * Heat each winding by its copper losses at the applied joint torques and
+   * cool it toward ambient over one step. A motor_overheat fault (a binding
+   * gearbox or blocked cooling) adds heat until its winding reaches 52-58°C.
+   * Returns each winding's copper losses (W).
+   */
+  step(torques: Record<string, number>, faults: FaultInjector): Record<string, number> {
+    const { heatCapacity, torqueConstant, windingResistance, thermalResistance } = this.motor;
+    const copperLosses: Record<string, number> = {};
+    for (const [jointId, temperature] of Object.entries(this.temperatures)) {
+      const current = (torques[jointId] ?? 0) / torqueConstant;
+      const resistance = windingResistance * (1 + COPPER_TEMPERATURE_COEFFICIENT * (temperature - 25));
+      const cooling = (temperature - this.config.ambient_temperature) / thermalResistance;
+      const overheat = faults.active('motor_overheat', jointId);
+      const faultHeat = overheat
+        ? heatCapacity * FAULT_HEATING_RATE * Math.max(0, 52 + 6 * overheat.magnitude - temperature)
+        : 0;
+      copperLosses[jointId] = current * current * resistance;
+      this.temperatures[jointId] = temperature + (copperLosses[jointId] + faultHeat - cooling) * this.dt / heatCapacity;
+    }
+    return copperLosses;
+  }
+
+  /**
+   * Winding temperatures as the joint sensors report them (°C)
+   */
+  get readings(): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(this.temperatures).map(([jointId, temperature]) => [jointId, Number(temperature.toFixed(1))])
+    );
+  }
+}
+
+// ============================================
+// Power Train
+// ============================================
+
+const DRIVE_EFFICIENCY = 0.85;          // motor driver and gearbox, joint work per unit of electrical power
+const DRIVER_RESET_TIME = 0.2;          // s the motor drivers stay off after a brown-out
+const CONNECTOR_FAULT_RESISTANCE = 1;   // Ω, typical series resistance of the loose connection a power_fluctuation fault models
+const HEXAPOD_ELECTRONICS_POWER = 45;   // W, controller, sensors and idle drivers
+const QUADRUPED_ELECTRONICS_POWER = 70; // W
+
+/**
+ * What the power bus did over one sample
+ */
+interface PowerSample {
+  voltage: number;         // V
+  current: number;         // A
+  stateOfCharge: number;   // %
+  brownout: boolean;       // motor drivers off
+}
+
+/**
+ * Electrical power a joint motor draws (W): the work it does through its
+ * driver plus its copper losses. A back-driven joint returns no energy.
+ */
+function jointElectricalPower(state: JointState, copperLoss: number): number {
+  return Math.max(0, state.torque * state.velocity) / DRIVE_EFFICIENCY + copperLoss;
+}
+
+/**
+ * Supply side of a legged run. The joint motors, the electronics and the
+ * work lost to the ground are drawn from the battery; a bus sag below the
+ * brown-out voltage resets the motor drivers, leaving the joints unpowered
+ * for DRIVER_RESET_TIME. A power_fluctuation fault is a loose connection
+ * whose resistance in series with the pack comes and goes.
+ */
+class PowerTrain {
+  private readonly battery: Battery;
+  private resetUntil = -Infinity;   // s
+
+  constructor(private readonly config: BatteryConfig, private readonly electronicsPower: number) {
+    this.battery = new Battery(config);
+  }
+
+  /**
+   * Whether the motor drivers are powered at a time (s)
+   */
+  driversPowered(t: number): boolean {
+    return t >= this.resetUntil;
+  }
+
+  /**
+   * Draw one sample's load (W, excluding the electronics) at time t (s)
+   */
+  step(load: number, t: number, dt: number, faults: FaultInjector, rng: SeededRandom): PowerSample {
+    const powerFault = faults.active('power_fluctuation');
+    const seriesResistance = powerFault ? CONNECTOR_FAULT_RESISTANCE * powerFault.magnitude * Math.abs(rng.gaussian(0, 1)) : 0;
+    const draw = this.battery.draw(this.electronicsPower + load, seriesResistance, dt);
+    if (draw.collapsed || draw.voltage < this.config.brownout_voltage) {
+      this.resetUntil = t + DRIVER_RESET_TIME;
+    }
+    return {
+      voltage: draw.voltage,
+      current: draw.current,
+      stateOfCharge: this.battery.stateOfCharge,
+      brownout: !this.driversPowered(t)
+    };
+  }
+}
+
+// ============================================
+// Legged Body Dynamics
+// ============================================
+
+/**
+ * Rigid body of a legged robot. Stance legs hold it up like vertical
+ * spring-dampers at their hips, as stiff and as damped as the position and
+ * velocity gains of the joint carrying the weight make them.
+ */
+interface LeggedBody {
+  mass: MassProperties;
+  hips: Record<string, { x: number; y: number }>;   // m from the centre of mass, x forward, y right
+  comHeight: number;        // m, centre of mass above the hips
+  supportJoint: string;     // joint type carrying the body in stance
+  legLength: number;        // m, lever the support joint holds the foot force on
+  legStiffness: number;     // N/m per unit of support joint P gain
+  legDamping: number;       // N·s/m per unit of support joint D gain
+}
+
+// How a robot type carries its body; mass and hip layout come from its robot model
+type LeggedBodyTuning = Omit<LeggedBody, 'mass' | 'hips'>;
+
+interface LegSupport {
+  stiffness: number;        // N/m
+  damping: number;          // N·s/m
+  maxForce: number;         // N
+}
+
+// Hexapod body carried on the femurs in stance
+const HEXAPOD_BODY: LeggedBodyTuning = {
+  comHeight: 0.1,
+  supportJoint: 'femur',
+  legLength: 0.1,
+  legStiffness: 313,
+  legDamping: 186
+};
+
+const FOOT_PLACEMENT = 0.25;        // stance feet land this fraction of the hip offset out from the centre of mass
+const TERRAIN_MOMENT_ARM = 0.005;   // m, offset of uneven foot loading on level ground
+const REFERENCE_ROUGHNESS = 0.3;    // terrain roughness the moment arm is quoted at
+const FOOT_REACH = 0.03;            // m, how far below the ground plane a stance foot can still reach down
+const MIN_TRIP_HEIGHT = 0.005;      // m, smallest rise in the ground a swing foot can catch on
+const YAW_NOISE_FRACTION = 0.2;     // yaw disturbance relative to the roll and pitch disturbance
+const YAW_FRICTION = 10;            // 1/s, decay of body spin held by the stance feet
+
+/**
+ * Body of a robot model. Model hips are in the URDF base frame, with y to
+ * the left; the body dynamics take y to the right.
+ */
+function leggedBody(model: RobotModel, tuning: LeggedBodyTuning): LeggedBody {
+  return {
+    ...tuning,
+    mass: robotBodyMass(model),
+    hips: Object.fromEntries(model.legs.map(leg => [leg.leg_id, { x: leg.hip[0], y: -leg.hip[1] }]))
+  };
+}
+
+/**
+ * Ground under a legged body: the plane through the ground under its hips,
+ * and how far the ground under each hip stands off that plane
+ */
+interface LocalGround {
+  height: number;                 // m, plane height under the body relative to the start
+  roll: number;                   // rad, plane tilt as a body roll, right side down
+  pitch: number;                  // rad, plane tilt as a body pitch, nose up
+  rise: Record<string, number>;   // m, ground under each leg above the plane
+}
+
+/**
+ * Ground under a robot model standing at a position (m) with a heading (rad)
+ */
+function localGround(terrain: TerrainProfile, model: RobotModel, position: { x: number; y: number }, heading: number): LocalGround {
+  const plane = groundPlane(terrain, model.legs.map(leg => [leg.hip[0], leg.hip[1]]), position, heading);
+  return {
+    height: plane.height,
+    roll: Math.atan(plane.slope[1]),
+    pitch: Math.atan(plane.slope[0]),
+    rise: Object.fromEntries(model.legs.map((leg, k) => [leg.leg_id, plane.rise[k]]))
+  };
+}
+
+/**
+ * Legs on the ground over uneven terrain. A stance foot over a hole deeper
+ * than it can reach finds nothing to stand on. A swing foot catches on
+ * ground that has risen under it by more than the foot has lifted since
+ * liftoff, and is tripped onto it. Feet heights come from the last frame;
+ * the ground each leg left is kept in liftoffRise.
+ */
+function groundContacts(
+  legIds: string[],
+  gaitStance: string[],
+  ground: LocalGround,
+  lastFrame: TelemetryFrame | undefined,
+  liftoffRise: Record<string, number>
+): { stanceLegs: string[]; tripped: string[] } {
+  const stanceLegs: string[] = [];
+  const tripped: string[] = [];
+  for (const legId of legIds) {
+    const rise = ground.rise[legId] ?? 0;
+    if (gaitStance.includes(legId)) {
+      liftoffRise[legId] = rise;
+      if (rise >= -FOOT_REACH) stanceLegs.push(legId);
+      continue;
+    }
+    const foot = lastFrame?.kinematics.foot_positions[legId];
+    if (!foot || liftoffRise[legId] === undefined) continue;
+    const climb = rise - liftoffRise[legId];
+    if (climb > MIN_TRIP_HEIGHT && climb > foot[2] + lastFrame!.kinematics.body_height) {
+      stanceLegs.push(legId);
+      tripped.push(legId);
+    }
+  }
+  return { stanceLegs, tripped };
+}
+
+/**
+ * Share of the available friction the stance feet use holding the body on
+ * the slope under it; at 1 or more they slide
+ */
+function slopeFrictionDemand(ground: LocalGround, frictionCoefficient: number): number {
+  const gradient = Math.hypot(Math.tan(ground.pitch), Math.tan(ground.roll));
+  return gradient === 0 ? 0 : gradient / Math.max(frictionCoefficient, 1e-6);
+}
+
+/**
+ * Support a stance leg gives the body, from its support joint's gains and
+ * torque limit. Yielding ground under the foot acts as a spring in series
+ * with the leg.
+ */
+function legSupport(body: LeggedBody, motor: MotorParams, groundStiffness: number): LegSupport {
+  const legStiffness = body.legStiffness * motor.pid_p;
+  return {
+    stiffness: Number.isFinite(groundStiffness)
+      ? legStiffness * groundStiffness / (legStiffness + groundStiffness)
+      : legStiffness,
+    damping: body.legDamping * motor.pid_d,
+    maxForce: motor.torque_limit / body.legLength
+  };
+}
+
+/**
+ * Lever each leg's support joint holds its foot force on: the horizontal
+ * distance from the joint to the foot at the given joint angles. Legs
+ * without a support joint fall back to the body's leg length.
+ */
+function supportLevers(model: RobotModel, body: LeggedBody, jointAngles: Record<string, number>): Record<string, number> {
+  const jointTypes = new Map(model.joints.map(joint => [joint.joint_id, joint.joint_type]));
+  const chains = legChains(model, jointAngles);
+  return Object.fromEntries(model.legs.map(leg => {
+    const index = leg.joints.findIndex(jointId => jointTypes.get(jointId) === body.supportJoint);
+    const chain = chains[leg.leg_id];
+    const [jointX, jointY] = chain[index] ?? [0, 0];
+    const [footX, footY] = chain[chain.length - 1];
+    return [leg.leg_id, index < 0 ? body.legLength : Math.hypot(footX - jointX, footY - jointY)];
+  }));
+}
 
-  const acceleration = pTerm + dTerm;
-  const newVelocity = velocity + acceleration * dt;
-  const newPosition = current + newVelocity * dt;
+/**
+ * Support from the legs in stance. A rollover fault folds the legs on the
+ * low side, leaving the body to the legs on the high side, and legs whose
+ * drivers have browned out fold under it.
+ */
+function stanceSupport(
+  body: LeggedBody,
+  stanceLegs: string[],
+  motorFor: (legId: string) => MotorParams,
+  groundStiffness: number,
+  state: RigidBodyState,
+  faults: FaultInjector
+): Record<string, LegSupport> {
+  const lowSide = Math.sign(state.attitude.x || 1);
+  const supporting = faults.active('rollover')
+    ? stanceLegs.filter(legId => Math.sign(body.hips[legId].y) !== lowSide)
+    : stanceLegs;
+  return Object.fromEntries(supporting
+    .filter(legId => motorFor(legId).torque_limit > 0)
+    .map(legId => [legId, legSupport(body, motorFor(legId), groundStiffness)]));
+}
 
+/**
+ * Disturbance torque on the body over one sample: uneven footing on the
+ * terrain, growing with its roughness, and the lurch toward the low side as
+ * a rollover fault buckles the legs
+ */
+function bodyDisturbance(
+  body: LeggedBody,
+  gravity: number,
+  frictionVariance: number,
+  roughness: number,
+  state: RigidBodyState,
+  rng: SeededRandom,
+  faults: FaultInjector
+): Vector3 {
+  const weight = body.mass.mass * gravity;
+  const terrainMoment = weight * TERRAIN_MOMENT_ARM * (1 + frictionVariance) * (1 + roughness) / (1 + REFERENCE_ROUGHNESS);
+  const rolloverFault = faults.active('rollover');
   return {
-    position: newPosition,
-    velocity: clamp(newVelocity, -5, 5)
+    x: rng.gaussian(0, terrainMoment) +
+      (rolloverFault ? rolloverFault.magnitude * weight * body.comHeight * Math.sign(state.attitude.x || 1) : 0),
+    y: rng.gaussian(0, terrainMoment),
+    z: rng.gaussian(0, YAW_NOISE_FRACTION * terrainMoment)
+  };
+}
+
+/**
+ * Advance a legged body one sample. Each stance foot carries an equal share
+ * of the weight, plus its spring-damper response to the body's heave and tilt
+ * at its hip, measured from the ground plane under it; a foot on ground
+ * standing off the plane is pressed that much harder or softer. The shares
+ * tip the body toward any side the stance feet leave uncovered, and its
+ * height above the hips tips it further once it leans.
+ * Returns the new state and the force under each stance foot.
+ */
+function stepLeggedBody(
+  state: RigidBodyState,
+  body: LeggedBody,
+  support: Record<string, LegSupport>,
+  ground: LocalGround,
+  gravity: number,
+  disturbance: Vector3,
+  dt: number,
+  integrator: IntegratorConfig
+): { state: RigidBodyState; footForces: Record<string, number> } {
+  const weight = body.mass.mass * gravity;
+  const stanceLegs = Object.keys(support);
+  const share = weight / Math.max(1, stanceLegs.length);
+
+  const footForces = (s: RigidBodyState): Record<string, number> => Object.fromEntries(stanceLegs.map(legId => {
+    const hip = body.hips[legId];
+    const [roll, pitch] = [s.attitude.x - ground.roll, s.attitude.y - ground.pitch];
+    const lift = s.position.z + hip.x * Math.sin(pitch) - hip.y * Math.sin(roll) - (ground.rise[legId] ?? 0);
+    const liftRate = s.velocity.z +
+      hip.x * Math.cos(pitch) * s.angularVelocity.y - hip.y * Math.cos(roll) * s.angularVelocity.x;
+    const force = share - support[legId].stiffness * lift - support[legId].damping * liftRate;
+    return [legId, clamp(force, 0, support[legId].maxForce)];
+  }));
+
+  const next = integrateRigidBody(state, body.mass, s => {
+    const { x: roll, y: pitch } = s.attitude;
+    let rollTorque = weight * body.comHeight * Math.sin(roll) + disturbance.x;
+    let pitchTorque = weight * body.comHeight * Math.sin(pitch) + disturbance.y;
+    // Heave follows the legs' common compression; leaning does not raise or lower the centre of mass
+    let heave = stanceLegs.length > 0 ? 0 : -weight;
+    const [groundRoll, groundPitch] = [roll - ground.roll, pitch - ground.pitch];
+    for (const legId of stanceLegs) {
+      const hip = body.hips[legId];
+      const { stiffness, damping, maxForce } = support[legId];
+      const rise = stiffness * (ground.rise[legId] ?? 0);
+      // Each leg resists roll and pitch away from the ground plane at its hip, within what it
+      // can push and without pulling. The share acts where the foot stands, inboard of the hip.
+      const rollResponse = clamp(
+        stiffness * hip.y * Math.sin(groundRoll) + damping * hip.y * Math.cos(groundRoll) * s.angularVelocity.x + rise,
+        -share, maxForce - share
+      );
+      const pitchResponse = clamp(
+        -stiffness * hip.x * Math.sin(groundPitch) - damping * hip.x * Math.cos(groundPitch) * s.angularVelocity.y + rise,
+        -share, maxForce - share
+      );
+      rollTorque -= (share * FOOT_PLACEMENT + rollResponse) * hip.y * Math.cos(roll);
+      pitchTorque += (share * FOOT_PLACEMENT + pitchResponse) * hip.x * Math.cos(pitch);
+      heave -= stiffness * s.position.z + damping * s.velocity.z - rise;
+    }
+    return {
+      force: { x: 0, y: 0, z: heave },
+      torque: {
+        x: rollTorque,
+        y: pitchTorque,
+        z: disturbance.z - YAW_FRICTION * body.mass.inertia.z * s.angularVelocity.z
+      }
+    };
+  }, dt, integrator);
+
+  // The body comes to rest on its belly, or on its side once rolled over
+  if (next.position.z < -body.comHeight) {
+    next.position.z = -body.comHeight;
+    next.velocity.z = Math.max(0, next.velocity.z);
+  }
+  const stop = Math.PI / 2;
+  if (Math.abs(next.attitude.x) > stop) {
+    next.attitude.x = clamp(next.attitude.x, -stop, stop);
+    next.angularVelocity.x = 0;
+  }
+  if (Math.abs(next.attitude.y) > stop) {
+    next.attitude.y = clamp(next.attitude.y, -stop, stop);
+    next.angularVelocity.y = 0;
+  }
+  return { state: next, footForces: footForces(next) };
+}
+
+// ============================================
+// Leg Kinematics
+// ============================================
+
+/**
+ * Turn a point from the base frame into the body's level heading frame.
+ * Positive roll lowers the right side and positive pitch raises the nose.
+ */
+export function levelFrame([x, y, z]: [number, number, number], attitude: Vector3): [number, number, number] {
+  const { x: roll, y: pitch } = attitude;
+  const levelX = x * Math.cos(pitch) - z * Math.sin(pitch);
+  const pitchedZ = x * Math.sin(pitch) + z * Math.cos(pitch);
+  return [levelX, y * Math.cos(roll) - pitchedZ * Math.sin(roll), y * Math.sin(roll) + pitchedZ * Math.cos(roll)];
+}
+
+type Point = [number, number];
+
+/**
+ * Convex hull of points on the ground, anticlockwise (monotone chain)
+ */
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Point, a: Point, b: Point) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (ordered: Point[]) => {
+    const chain: Point[] = [];
+    for (const point of ordered) {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+      chain.push(point);
+    }
+    return chain.slice(0, -1);
   };
+  return [...half(sorted), ...half([...sorted].reverse())];
+}
+
+/**
+ * Distance from a point to the segment between a and b
+ */
+function segmentDistance(p: Point, a: Point, b: Point): number {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? clamp(((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared, 0, 1) : 0;
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+/**
+ * Static stability margin: how far the centre of mass sits inside the
+ * support polygon, from its nearest edge. Outside the polygon, or over
+ * fewer than three feet where the polygon has no area, it is the negative
+ * distance to the polygon.
+ */
+function stabilityMargin(polygon: Point[], com: Point): number | null {
+  if (polygon.length === 0) return null;
+  if (polygon.length === 1) return -Math.hypot(com[0] - polygon[0][0], com[1] - polygon[0][1]);
+
+  const edges = polygon.map((a, i) => [a, polygon[(i + 1) % polygon.length]] as const);
+  const outside = -Math.min(...edges.map(([a, b]) => segmentDistance(com, a, b)));
+  if (polygon.length < 3) return outside;
+
+  // Anticlockwise, so the centre of mass is inside when it is left of every edge
+  const inside = Math.min(...edges.map(([a, b]) =>
+    ((b[0] - a[0]) * (com[1] - a[1]) - (b[1] - a[1]) * (com[0] - a[0])) / Math.hypot(b[0] - a[0], b[1] - a[1])));
+  return inside > 0 ? inside : outside;
+}
+
+/**
+ * Tracks the feet, the ground the body covers on them and how securely
+ * they hold it up. Each frame the measured joint angles place the feet,
+ * levelled by the body attitude. A stance foot that grips moves back under
+ * the body as far as the body moves forward, so the mean motion of the
+ * gripping feet, turned by the heading, gives the body's own. The stance
+ * feet span the support polygon the centre of mass must stay over.
+ * Obstacles stop the body, with the feet as its outline.
+ */
+class LegOdometry {
+  private readonly model: RobotModel;
+  private readonly obstacles: Obstacle[];
+  private readonly centreOfMass: [number, number, number];
+  private feet: Record<string, [number, number, number]> = {};
+  private inStance: Record<string, boolean> = {};
+  private touchdown: Record<string, [number, number, number] | undefined> = {};
+  private strides: Record<string, number> = {};
+  private bodyHeight = 0;
+  private position = { x: 0, y: 0 };
+  private nearest: { id: string; clearance: number } | null = null;
+
+  constructor(model: RobotModel, obstacles: Obstacle[] = []) {
+    this.model = model;
+    this.obstacles = obstacles;
+    this.centreOfMass = robotCentreOfMass(model);
+  }
+
+  /**
+   * The obstacle nearest the robot's outline after the last update, and the gap to it (m)
+   */
+  get nearestObstacle(): { id: string; clearance: number } | null {
+    return this.nearest && { id: this.nearest.id, clearance: Math.max(0, Number(this.nearest.clearance.toFixed(3))) };
+  }
+
+  /**
+   * Advance one frame from the measured joint angles, the foot contacts, the
+   * body attitude (rad) and the ground under the body
+   */
+  update(
+    jointAngles: Record<string, number>,
+    contacts: { leg_id: string; in_contact: boolean; slip_detected: boolean }[],
+    attitude: Vector3,
+    ground: LocalGround
+  ): LegKinematics {
+    const feet = Object.fromEntries(Object.entries(footPositions(this.model, jointAngles))
+      .map(([legId, foot]) => [legId, levelFrame(foot, attitude)]));
+
+    // Body motion from the feet that held their ground since the last frame
+    const gripping = contacts.filter(c => c.in_contact && !c.slip_detected && this.inStance[c.leg_id]);
+    if (gripping.length > 0) {
+      let forward = 0;
+      let left = 0;
+      for (const { leg_id: legId } of gripping) {
+        forward -= (feet[legId][0] - this.feet[legId][0]) / gripping.length;
+        left -= (feet[legId][1] - this.feet[legId][1]) / gripping.length;
+      }
+      this.position.x += forward * Math.cos(attitude.z) - left * Math.sin(attitude.z);
+      this.position.y += forward * Math.sin(attitude.z) + left * Math.cos(attitude.z);
+    }
+
+    // The body slides along an obstacle rather than passing through it
+    const reach = Math.max(...Object.values(feet).map(([x, y]) => Math.hypot(x, y)));
+    this.position = pushClear(this.obstacles, this.position, reach);
+    this.nearest = nearestObstacle(this.obstacles, this.position.x, this.position.y, reach);
+
+    // Height over the feet on the ground, held while none are
+    const stance = contacts.filter(c => c.in_contact);
+    if (stance.length > 0) {
+      this.bodyHeight = -stance.reduce((sum, c) => sum + feet[c.leg_id][2], 0) / stance.length;
+    }
+
+    // Strides: how far each foot swept under the body between touchdown and liftoff.
+    // Legs already down at the start have no touchdown, so their first stance is skipped.
+    for (const { leg_id: legId, in_contact: inContact } of contacts) {
+      if (inContact && this.inStance[legId] === false) {
+        this.touchdown[legId] = feet[legId];
+      } else if (!inContact && this.inStance[legId]) {
+        const start = this.touchdown[legId];
+        if (start) {
+          const end = this.feet[legId];
+          this.strides[legId] = Math.hypot(end[0] - start[0], end[1] - start[1]);
+        }
+        this.touchdown[legId] = undefined;
+      }
+      this.inStance[legId] = inContact;
+    }
+    this.feet = feet;
+
+    // Static stability over the feet on the ground
+    const polygon = convexHull(stance.map(c => [feet[c.leg_id][0], feet[c.leg_id][1]] as Point));
+    const [comX, comY] = levelFrame(this.centreOfMass, attitude);
+    const margin = stabilityMargin(polygon, [comX, comY]);
+
+    const strides = Object.values(this.strides);
+    const round = (value: number) => Number(value.toFixed(4));
+    return {
+      foot_positions: Object.fromEntries(Object.entries(feet)
+        .map(([legId, foot]) => [legId, foot.map(round) as [number, number, number]])),
+      body_height: round(this.bodyHeight),
+      stride_length: strides.length > 0 ? round(strides.reduce((a, b) => a + b, 0) / strides.length) : 0,
+      odometry: { x: round(this.position.x), y: round(this.position.y) },
+      support_polygon: polygon.map(([x, y]) => [round(x), round(y)]),
+      com_projection: [round(comX), round(comY)],
+      stability_margin: margin === null ? null : round(margin),
+      ground_height: round(ground.height),
+      ground_slope: {
+        pitch: Number((ground.pitch * 180 / Math.PI).toFixed(2)),
+        roll: Number((ground.roll * 180 / Math.PI).toFixed(2))
+      }
+    };
+  }
+}
+
+// ============================================
+// Granular Foot Contact
+// ============================================
+
+const IMPACT_TIME = 0.01;   // s, how long rigid ground takes to stop a landing foot
+
+interface FootLoad {
+  force: number;            // N, ground reaction including any landing impact
+  sinkage: number;          // m
+  energyLoss: number;       // J lost to the ground over the frame
+}
+
+/**
+ * Feet on yielding ground. A loaded foot sinks by Bekker's pressure-sinkage
+ * law, z = z0 (F / F0)^(1/n), where z0 is the terrain's sinkage under the
+ * nominal load F0 of the weight on half the feet, as in a tripod or a trot.
+ * Granular ground does not spring back, so a foot keeps the deepest sinkage
+ * of its stance, and the work pressing it in is lost. A landing foot stops
+ * dead: its momentum is delivered as an impact load, cushioned as the ground
+ * yields, and its kinetic energy is lost. Landing speeds come from the feet
+ * in the last two frames.
+ */
+class FootContact {
+  private readonly terrain: TerrainParams;
+  private readonly nominalLoad: number;
+  private readonly legMasses: Record<string, number>;
+  private readonly dt: number;
+  private sinkage: Record<string, number | undefined> = {};
+  private footHeights: Record<string, number> = {};
+  private landingSpeeds: Record<string, number> = {};
+
+  constructor(model: RobotModel, terrain: TerrainParams, weight: number, dt: number) {
+    this.terrain = terrain;
+    this.nominalLoad = weight / Math.max(1, model.legs.length / 2);
+    this.legMasses = Object.fromEntries(model.legs.map(leg => [leg.leg_id, legMass(model, leg.leg_id)]));
+    this.dt = dt;
+  }
+
+  /**
+   * Stiffness of the ground under a foot at the nominal load (N/m), the
+   * slope of the pressure-sinkage law there; rigid ground has no give
+   */
+  get groundStiffness(): number {
+    return this.terrain.sinkage > 0
+      ? this.terrain.sinkageExponent * this.nominalLoad / this.terrain.sinkage
+      : Infinity;
+  }
+
+  /**
+   * Loads under each foot for a frame, from the legs in stance, the force
+   * the body puts on each, and the last frame's foot heights
+   */
+  step(legIds: string[], stanceLegs: string[], footForces: Record<string, number>, lastFrame?: TelemetryFrame): Record<string, FootLoad> {
+    // Feet descending into this frame, from the last two
+    if (lastFrame) {
+      for (const legId of legIds) {
+        const foot = lastFrame.kinematics.foot_positions[legId];
+        if (!foot) continue;
+        const height = foot[2] + lastFrame.kinematics.body_height;
+        const previous = this.footHeights[legId];
+        this.landingSpeeds[legId] = previous === undefined ? 0 : Math.max(0, (previous - height) / this.dt);
+        this.footHeights[legId] = height;
+      }
+    }
+
+    const loads: Record<string, FootLoad> = {};
+    for (const legId of legIds) {
+      if (!stanceLegs.includes(legId)) {
+        this.sinkage[legId] = undefined;
+        loads[legId] = { force: 0, sinkage: 0, energyLoss: 0 };
+        continue;
+      }
+
+      const force = footForces[legId] ?? 0;
+      const landing = this.sinkage[legId] === undefined;
+      const before = this.sinkage[legId] ?? 0;
+      const pressed = this.terrain.sinkage > 0
+        ? this.terrain.sinkage * Math.pow(force / this.nominalLoad, 1 / this.terrain.sinkageExponent)
+        : 0;
+      const sinkage = Math.max(before, pressed);
+      this.sinkage[legId] = sinkage;
+
+      let energyLoss = force * (sinkage - before);
+      let impact = 0;
+      if (landing) {
+        const mass = this.legMasses[legId] ?? 0;
+        const speed = this.landingSpeeds[legId] ?? 0;
+        impact = this.terrain.impactDamping * mass * speed / Math.max(IMPACT_TIME, this.dt);
+        energyLoss += 0.5 * mass * speed * speed;
+      }
+      loads[legId] = { force: force + impact, sinkage, energyLoss };
+    }
+    return loads;
+  }
+}
+
+// Most a lightly loaded foot's slip chance is raised over an evenly loaded one's
+const MAX_SLIP_LOAD_FACTOR = 4;
+
+/**
+ * How much likelier a stance foot is to slip than if the load were spread
+ * evenly. The stance feet share the traction the body needs, but each holds
+ * only in proportion to the load on it, so lightly loaded feet slip first.
+ */
+function footLoadFactor(footForces: Record<string, number>, stanceLegs: string[], legId: string): number {
+  const mean = stanceLegs.reduce((sum, id) => sum + (footForces[id] ?? 0), 0) / Math.max(1, stanceLegs.length);
+  const force = footForces[legId] ?? 0;
+  return mean > 0 ? mean / Math.max(force, mean / MAX_SLIP_LOAD_FACTOR) : 1;
 }
 
 /**
@@ -94,148 +975,754 @@ function pidResponse(
 export function generateTelemetryStream(
   durationSeconds: number,
   physics: PhysicsConfig,
+  model: RobotModel,
   motors: Map<string, MotorParams>,
+  battery: BatteryConfig,
+  sensors: SensorConfig,
+  obstacles: Obstacle[],
+  rangeSensorConfigs: RangeSensorConfig[],
+  gait: GaitConfig,
+  rng: SeededRandom,
+  faults: FaultInjector,
   sampleRateHz: number = 100
 ): TelemetryFrame[] {
   const frames: TelemetryFrame[] = [];
   const totalSamples = Math.floor(durationSeconds * sampleRateHz);
   const dt = 1 / sampleRateHz;
   const terrainParams = getTerrainParams(physics.terrain_type);
+  const hexapod = leggedBody(model, HEXAPOD_BODY);
+  const odometry = new LegOdometry(model, obstacles);
+  const footContact = new FootContact(model, terrainParams, hexapod.mass.mass * physics.gravity, dt);
+  const thermal = new MotorThermal(model.joints.map(joint => joint.joint_id), HEXAPOD_MOTOR_THERMAL, physics.thermal, dt);
+  const powerTrain = new PowerTrain(battery, HEXAPOD_ELECTRONICS_POWER);
+  const imu = new ImuSensor(sensors, rng, dt);
+  const contactSwitches = new ContactSensors(sensors, rng);
+  const rangeSensors = new RangeSensors(rangeSensorConfigs, obstacles, rng);
 
   // State tracking
-  const jointState: Record<string, { position: number; velocity: number; torque: number }> = {};
-  let pitch = 0;
-  let roll = 0;
-  let yaw = 0;
-  let temperature = 35; // Starting temperature
+  const jointState: Record<string, JointState> = {};
+  let body = restingBody();
 
   // Initialize joint states
-  for (const jointId of HEXAPOD_JOINTS) {
+  for (const { joint_id: jointId } of model.joints) {
     jointState[jointId] = {
-      position: gaussianNoise(0, 0.1),
+      position: rng.gaussian(0, 0.1),
+      velocity: 0,
+      torque: 0,
+      integral: 0
+    };
+  }
+
+  const legIds = model.legs.map(leg => leg.leg_id);
+  const liftoffRise: Record<string, number> = {};
+  let driversPowered = true;
+  const motorFor = (jointId: string): MotorParams =>
+    deratedMotor(motors.get(jointId) || { joint_id: jointId, ...DEFAULT_MOTOR_PARAMS }, faults, thermal, driversPowered);
+
+  for (let i = 0; i < totalSamples; i++) {
+    const t = i * dt;
+    faults.step(i, Math.round(t * 1000));
+    driversPowered = powerTrain.driversPowered(t);
+
+    // Gait mismatch faults make the affected leg lag its commanded phase
+    const legFraction = (legId: string): number => {
+      const mismatch = faults.active('gait_mismatch', legId);
+      const fraction = legCycleFraction(t, gait, legId) - (mismatch ? 0.1 + 0.15 * mismatch.magnitude : 0);
+      return fraction - Math.floor(fraction);
+    };
+
+    // Ground under the body where the odometry has it, and the feet it lets stand
+    const lastFrame = frames[frames.length - 1];
+    const ground = localGround(physics.terrain, model, lastFrame?.kinematics.odometry ?? { x: 0, y: 0 }, body.attitude.z);
+    const gaitStance = legIds.filter(legId => legFraction(legId) < gait.duty_factor);
+    const { stanceLegs, tripped } = groundContacts(legIds, gaitStance, ground, lastFrame, liftoffRise);
+
+    // Body dynamics: the legs in stance carry the body on their femurs
+    const support = stanceSupport(hexapod, stanceLegs, legId => motorFor(`${legId}_${hexapod.supportJoint}`), footContact.groundStiffness, body, faults);
+    const disturbance = bodyDisturbance(hexapod, physics.gravity, terrainParams.frictionVariance, physics.terrain_roughness, body, rng, faults);
+    const heaveRate = body.velocity.z;
+    const bodyStep = stepLeggedBody(body, hexapod, support, ground, physics.gravity, disturbance, dt, physics.integrator);
+    body = bodyStep.state;
+    const heaveAcceleration = (body.velocity.z - heaveRate) / dt;
+    const levers = supportLevers(model, hexapod, lastFrame?.joint_positions ?? {});
+
+    // Update each joint with gait pattern
+    const jointPositions: Record<string, number> = {};
+    const jointVelocities: Record<string, number> = {};
+    const jointTorques: Record<string, number> = {};
+    const appliedTorques: Record<string, number> = {};
+
+    for (const joint of model.joints) {
+      const { joint_id: jointId, leg_id: legId } = joint;
+      const jointType = joint.joint_type as keyof GaitConfig['amplitudes'];
+      const limits: [number, number] = [joint.limits.lower, joint.limits.upper];
+      const motor = motorFor(jointId);
+      const state = jointState[jointId];
+
+      // Leg phase from the configured gait pattern
+      const fraction = legFraction(legId);
+      const amplitude = gait.joint_amplitudes?.[jointId] ?? gait.amplitudes[jointType] ?? 0.5;
+
+      // Target position from gait pattern: the coxa sweeps the foot back through stance and
+      // forward through swing, while femur and tibia lift and tuck it during swing only.
+      // A joint limit fault drives it past the stop.
+      const phaseAngle = gaitPhaseAngle(fraction, gait.duty_factor);
+      const lift = Math.max(0, -Math.sin(phaseAngle));
+      let target = jointType === 'coxa' ? -amplitude * Math.cos(phaseAngle)
+        : jointType === 'femur' ? -amplitude * lift
+        : amplitude * lift;
+      if (faults.active('joint_limit_exceeded', jointId)) {
+        target = target >= 0 ? limits[1] + JOINT_LIMIT_OVERSHOOT : limits[0] - JOINT_LIMIT_OVERSHOOT;
+      }
+
+      // Femurs carry the force under their foot while the leg is in stance
+      const loadTorque = jointType === 'femur'
+        ? (bodyStep.footForces[legId] ?? 0) * levers[legId]
+        : 0;
+
+      // Apply PID control
+      pidStep(state, target, motor, HEXAPOD_JOINT_INERTIA, loadTorque, dt);
+      applyJointLimits(state, limits);
+
+      // Add terrain-dependent noise
+      const noiseScale = 0.01 * (1 + terrainParams.frictionVariance);
+      state.position += rng.gaussian(0, noiseScale);
+
+      jointPositions[jointId] = state.position;
+      jointVelocities[jointId] = state.velocity + rng.gaussian(0, noiseScale * 2);
+      jointTorques[jointId] = clamp(state.torque + rng.gaussian(0, 0.1), -motor.torque_limit, motor.torque_limit);
+      appliedTorques[jointId] = state.torque;
+    }
+
+    // Windings heat with the torque each joint applied; throttling is what this frame's torque limits were derated by
+    const throttle = Math.min(1, ...model.joints.map(joint => thermal.throttle(joint.joint_id)));
+    const copperLosses = thermal.step(appliedTorques, faults);
+    const jointTemperatures = thermal.readings;
+
+    // Ground reaction, sinkage and energy lost under each foot
+    const footLoads = footContact.step(legIds, stanceLegs, bodyStep.footForces, lastFrame);
+    const groundPower = Object.values(footLoads).reduce((sum, load) => sum + load.energyLoss, 0) / dt;
+
+    // Battery: the joint motors and the work lost to the ground, with the bus sagging under the load
+    const jointPower = Object.fromEntries(model.joints.map(({ joint_id: jointId }) =>
+      [jointId, jointElectricalPower(jointState[jointId], copperLosses[jointId])]));
+    const power = powerTrain.step(Object.values(jointPower).reduce((a, b) => a + b, 0) + groundPower, t, dt, faults, rng);
+
+    // Contact simulation for each leg; load is shared by the legs in stance
+    const loadShare = 3 / Math.max(1, stanceLegs.length);
+    const slopeDemand = slopeFrictionDemand(ground, physics.friction_coefficient);
+
+    const contacts = [];
+    for (const legId of legIds) {
+      const inContact = stanceLegs.includes(legId);
+      const slipFault = faults.active('slip_event', legId);
+
+      // Slip detection based on terrain, friction, the leg's load and the slope underfoot.
+      // Feet slide on slopes steeper than friction holds, and tripped feet skid.
+      const slipChance = terrainParams.slipProbability * (1 - physics.friction_coefficient) * loadShare *
+        footLoadFactor(bodyStep.footForces, stanceLegs, legId);
+      const slipDetected = inContact && (tripped.includes(legId) || slopeDemand >= 1 ||
+        rng.next() < slipChance * 0.1 / (1 - slopeDemand) || slipFault !== undefined);
+
+      contacts.push({
+        leg_id: legId,
+        in_contact: inContact,
+        force: inContact ? (footLoads[legId].force + rng.gaussian(0, 2)) * (slipFault ? 0.4 : 1) : 0,
+        slip_detected: slipDetected,
+        sinkage: Number(footLoads[legId].sinkage.toFixed(4)),
+        energy_loss: Number(footLoads[legId].energyLoss.toFixed(4))
+      });
+    }
+
+    // Sensors read the simulated truth; a sensor noise fault inflates the IMU noise
+    const toDegrees = 180 / Math.PI;
+    const truth = {
+      imu: roundImu({
+        pitch: body.attitude.y * toDegrees,
+        roll: body.attitude.x * toDegrees,
+        yaw: body.attitude.z * toDegrees,
+        accel_x: 0,
+        accel_y: 0,
+        accel_z: physics.gravity + heaveAcceleration
+      }),
+      in_contact: Object.fromEntries(contacts.map(c => [c.leg_id, c.in_contact]))
+    };
+    const measuredImu = imu.read(truth.imu, faults.active('sensor_noise')?.magnitude);
+    const measuredContact = contactSwitches.read(truth.in_contact);
+    const kinematics = odometry.update(jointPositions, contacts, body.attitude, ground);
+
+    frames.push({
+      timestamp: Math.round(t * 1000),
+      joint_positions: jointPositions,
+      joint_velocities: jointVelocities,
+      joint_torques: jointTorques,
+      imu: roundImu(measuredImu),
+      power: {
+        voltage: Number((power.voltage + rng.gaussian(0, 0.05)).toFixed(2)),
+        current: Number((power.current + rng.gaussian(0, 0.1)).toFixed(2)),
+        temperature: Math.max(...Object.values(jointTemperatures)),
+        throttle: Number(throttle.toFixed(2)),
+        state_of_charge: Number(power.stateOfCharge.toFixed(2)),
+        brownout: power.brownout
+      },
+      joint_temperatures: jointTemperatures,
+      joint_power: Object.fromEntries(Object.entries(jointPower).map(([jointId, watts]) => [jointId, Number(watts.toFixed(2))])),
+      contacts: contacts.map(c => ({ ...c, in_contact: measuredContact[c.leg_id] })),
+      truth,
+      ranges: rangeSensors.read({ ...kinematics.odometry, heading: body.attitude.z, height: kinematics.body_height }),
+      nearest_obstacle: odometry.nearestObstacle,
+      kinematics
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Closest any frame's robot came to an obstacle (m), or null if no frame had one near
+ */
+function minObstacleClearance(frames: { nearest_obstacle: { clearance: number } | null }[]): number | null {
+  const clearances = frames.flatMap(frame => frame.nearest_obstacle ? [frame.nearest_obstacle.clearance] : []);
+  return clearances.length > 0 ? Math.min(...clearances) : null;
+}
+
+/**
+ * Mean peak height of the feet above the ground over every swing that ended
+ * in a touchdown. The ground is taken where the stance feet are.
+ */
+function computeFootClearance(frames: TelemetryFrame[]): number {
+  const peaks: number[] = [];
+  const swingPeak: Record<string, number | undefined> = {};
+
+  for (const frame of frames) {
+    for (const [legId, inContact] of Object.entries(frame.truth.in_contact)) {
+      const foot = frame.kinematics.foot_positions[legId];
+      if (!foot) continue;
+      if (inContact) {
+        if (swingPeak[legId] !== undefined) peaks.push(swingPeak[legId]!);
+        swingPeak[legId] = undefined;
+      } else {
+        const height = foot[2] + frame.kinematics.body_height;
+        swingPeak[legId] = Math.max(swingPeak[legId] ?? height, height);
+      }
+    }
+  }
+
+  return peaks.length > 0 ? peaks.reduce((a, b) => a + b, 0) / peaks.length : 0;
+}
+
+/**
+ * Gait symmetry against the commanded phase pattern. For every leg the
+ * observed stance fraction and the circular mean phase of its stance are
+ * compared with what the gait prescribes; 1.0 means every leg kept its timing.
+ */
+function computeGaitSymmetry(frames: TelemetryFrame[], gait: GaitTiming): number {
+  const legIds = Object.keys(gait.phase_offsets);
+  let totalError = 0;
+
+  for (const legId of legIds) {
+    let observedFrames = 0;
+    let stanceFrames = 0;
+    let sumCos = 0;
+    let sumSin = 0;
+
+    for (const frame of frames) {
+      const inContact = frame.truth.in_contact[legId];
+      if (inContact === undefined) continue;
+      observedFrames++;
+      if (!inContact) continue;
+
+      stanceFrames++;
+      const cycle = (frame.timestamp / 1000) * gait.frequency;
+      const angle = 2 * Math.PI * (cycle - Math.floor(cycle));
+      sumCos += Math.cos(angle);
+      sumSin += Math.sin(angle);
+    }
+
+    if (observedFrames === 0 || stanceFrames === 0) {
+      totalError += 1;
+      continue;
+    }
+
+    // Stance covers leg fractions [0, duty), i.e. body-cycle fractions starting at -offset
+    const expectedCentre = 2 * Math.PI * (gait.duty_factor / 2 - gait.phase_offsets[legId]);
+    const observedCentre = Math.atan2(sumSin, sumCos);
+    let phaseError = Math.abs(observedCentre - expectedCentre) % (2 * Math.PI);
+    if (phaseError > Math.PI) phaseError = 2 * Math.PI - phaseError;
+
+    const dutyError = Math.abs(stanceFrames / observedFrames - gait.duty_factor);
+    totalError += Math.min(1, dutyError + phaseError / Math.PI);
+  }
+
+  return clamp(1 - totalError / Math.max(1, legIds.length), 0, 1);
+}
+
+/**
+ * Analyze telemetry and compute metrics
+ */
+export function analyzeTelemetry(frames: TelemetryFrame[], gait: GaitTiming): SimulationMetrics {
+  if (frames.length === 0) {
+    return {
+      stability_score: 0,
+      efficiency_score: 0,
+      gait_symmetry: 0,
+      max_pitch_deviation: 0,
+      max_roll_deviation: 0,
+      slip_events: 0,
+      imu_error_rms: 0,
+      contact_error_rate: 0,
+      min_obstacle_clearance: null,
+      total_energy_consumed: 0,
+      final_state_of_charge: 0,
+      min_bus_voltage: 0,
+      brownout_time: 0,
+      avg_joint_temperature: 0,
+      max_joint_temperature: 0,
+      hottest_joint: '',
+      throttled_time: 0,
+      stride_length: 0,
+      foot_clearance: 0,
+      distance_travelled: 0,
+      min_stability_margin: 0,
+      mean_stability_margin: 0,
+      elevation_gain: 0,
+      mean_sinkage: 0,
+      ground_energy_loss: 0
+    };
+  }
+
+  // Frames are evenly spaced; a single frame covers no time
+  const frameInterval = frames.length > 1 ? (frames[1].timestamp - frames[0].timestamp) / 1000 : 0;
+
+  let maxPitch = 0;
+  let maxRoll = 0;
+  let slipEvents = 0;
+  let powerSum = 0;
+  let minVoltage = Infinity;
+  let brownoutFrames = 0;
+  let tempSum = 0;
+  let maxTemperature = -Infinity;
+  let hottestJoint = '';
+  let throttledFrames = 0;
+  let groundLoss = 0;
+  let sinkageSum = 0;
+  let stanceSamples = 0;
+  let imuErrorSquares = 0;
+  let contactErrors = 0;
+
+  for (const frame of frames) {
+    // Tilt away from the ground underfoot; leaning with a slope is not instability
+    const { imu: trueImu, in_contact: trueContact } = frame.truth;
+    maxPitch = Math.max(maxPitch, Math.abs(trueImu.pitch - frame.kinematics.ground_slope.pitch));
+    maxRoll = Math.max(maxRoll, Math.abs(trueImu.roll - frame.kinematics.ground_slope.roll));
+
+    for (const contact of frame.contacts) {
+      if (contact.slip_detected) slipEvents++;
+      groundLoss += contact.energy_loss;
+      if (trueContact[contact.leg_id]) {
+        sinkageSum += contact.sinkage;
+        stanceSamples++;
+      }
+      if (contact.in_contact !== trueContact[contact.leg_id]) contactErrors++;
+    }
+
+    // How far the sensors read from the truth
+    imuErrorSquares += ((frame.imu.pitch - trueImu.pitch) ** 2 + (frame.imu.roll - trueImu.roll) ** 2) / 2;
+
+    // Power drawn from the battery
+    powerSum += frame.power.voltage * frame.power.current;
+    minVoltage = Math.min(minVoltage, frame.power.voltage);
+    if (frame.power.brownout) brownoutFrames++;
+
+    // Winding temperatures, and whether any joint was throttled
+    const temperatures = Object.entries(frame.joint_temperatures);
+    tempSum += temperatures.reduce((sum, [, temperature]) => sum + temperature, 0) / Math.max(1, temperatures.length);
+    for (const [jointId, temperature] of temperatures) {
+      if (temperature > maxTemperature) {
+        maxTemperature = temperature;
+        hottestJoint = jointId;
+      }
+    }
+    if (frame.power.throttle < 1) throttledFrames++;
+  }
+
+  // Calculate scores
+  const stabilityPenalty = (maxPitch / 30) * 30 + (maxRoll / 20) * 20 + (slipEvents / frames.length) * 50;
+  const stability_score = Math.max(0, Math.round(100 - stabilityPenalty));
+
+  // Efficiency based on the mean power drawn (simplified)
+  const efficiencyRaw = 100 - (powerSum / frames.length) * 0.02;
+  const efficiency_score = Math.max(0, Math.min(100, Math.round(efficiencyRaw)));
+
+  // Gait symmetry: observed leg timing vs the commanded phase pattern
+  const gait_symmetry = Number(computeGaitSymmetry(frames, gait).toFixed(2));
+
+  // Stride and distance from leg odometry
+  const strideFrames = frames.filter(frame => frame.kinematics.stride_length > 0);
+  const strideLength = strideFrames.reduce((sum, frame) => sum + frame.kinematics.stride_length, 0) / Math.max(1, strideFrames.length);
+  const { x: endX, y: endY } = frames[frames.length - 1].kinematics.odometry;
+
+  // Static stability over the frames with a foot down
+  const margins = frames.map(frame => frame.kinematics.stability_margin).filter((m): m is number => m !== null);
+
+  return {
+    stability_score,
+    efficiency_score,
+    gait_symmetry,
+    max_pitch_deviation: Number(maxPitch.toFixed(1)),
+    max_roll_deviation: Number(maxRoll.toFixed(1)),
+    slip_events: slipEvents,
+    imu_error_rms: Number(Math.sqrt(imuErrorSquares / frames.length).toFixed(2)),
+    contact_error_rate: Number((contactErrors / Math.max(1, frames.length * frames[0].contacts.length)).toFixed(4)),
+    min_obstacle_clearance: minObstacleClearance(frames),
+    total_energy_consumed: Number((powerSum * frameInterval).toFixed(2)),
+    final_state_of_charge: frames[frames.length - 1].power.state_of_charge,
+    min_bus_voltage: minVoltage,
+    brownout_time: Number((brownoutFrames * frameInterval).toFixed(2)),
+    avg_joint_temperature: Number((tempSum / frames.length).toFixed(1)),
+    max_joint_temperature: hottestJoint ? maxTemperature : 0,
+    hottest_joint: hottestJoint,
+    throttled_time: Number((throttledFrames * frameInterval).toFixed(2)),
+    stride_length: Number(strideLength.toFixed(3)),
+    foot_clearance: Number(computeFootClearance(frames).toFixed(3)),
+    distance_travelled: Number(Math.hypot(endX, endY).toFixed(2)),
+    min_stability_margin: margins.length > 0 ? Number(Math.min(...margins).toFixed(4)) : 0,
+    mean_stability_margin: margins.length > 0 ? Number((margins.reduce((a, b) => a + b, 0) / margins.length).toFixed(4)) : 0,
+    elevation_gain: Number((frames[frames.length - 1].kinematics.ground_height - frames[0].kinematics.ground_height).toFixed(3)),
+    mean_sinkage: Number((sinkageSum / Math.max(1, stanceSamples)).toFixed(4)),
+    ground_energy_loss: Number(groundLoss.toFixed(2))
+  };
+}
+
+// Swing foot height below which feet scuff the ground (m)
+const MIN_FOOT_CLEARANCE = 0.01;
+// Sensor disagreement with the truth worth reporting: degrees RMS of attitude, fraction of contact readings
+const IMU_ERROR_WARNING = 1;
+const CONTACT_ERROR_WARNING = 0.01;
+
+/**
+ * Generate a human-readable telemetry summary
+ */
+export function generateTelemetrySummary(
+  frames: TelemetryFrame[],
+  metrics: SimulationMetrics
+): string {
+  const parts: string[] = [];
+
+  // Overall assessment
+  if (metrics.stability_score >= 90) {
+    parts.push('Gait cycle completed successfully.');
+  } else if (metrics.stability_score >= 70) {
+    parts.push('Gait cycle completed with minor issues.');
+  } else {
+    parts.push('Gait cycle completed with significant stability concerns.');
+  }
+
+  // Slip events
+  if (metrics.slip_events > 0) {
+    const slipFrames = frames.filter((f, i) =>
+      f.contacts.some(c => c.slip_detected)
+    ).slice(0, 3);
+
+    if (slipFrames.length > 0) {
+      const slipTimes = slipFrames.map(f => `t=${(f.timestamp / 1000).toFixed(1)}s`);
+      const slipLegs = slipFrames.flatMap(f =>
+        f.contacts.filter(c => c.slip_detected).map(c => c.leg_id)
+      );
+      const slipLocation = slipLegs[0].startsWith('leg_')
+        ? `leg ${slipLegs[0].replace('leg_', '')} tarsus`
+        : `${slipLegs[0]} foot`;
+      parts.push(`Minor slip detected at ${slipTimes[0]} on ${slipLocation}.`);
+    }
+  }
+
+  // Stability
+  parts.push(`Stability score: ${metrics.stability_score}%`);
+
+  // Ground covered, from leg odometry
+  parts.push(`Travelled ${metrics.distance_travelled}m with ${(metrics.stride_length * 100).toFixed(1)}cm strides.`);
+  if (Math.abs(metrics.elevation_gain) >= 0.01) {
+    parts.push(`${metrics.elevation_gain > 0 ? 'Climbed' : 'Descended'} ${Math.abs(metrics.elevation_gain).toFixed(2)}m of terrain.`);
+  }
+  if (metrics.mean_sinkage > 0) {
+    parts.push(`Feet sank ${(metrics.mean_sinkage * 100).toFixed(1)}cm on average, losing ${metrics.ground_energy_loss}J to the ground.`);
+  }
+  parts.push(`Static stability margin: min ${(metrics.min_stability_margin * 100).toFixed(1)}cm, mean ${(metrics.mean_stability_margin * 100).toFixed(1)}cm.`);
+  if (metrics.foot_clearance < MIN_FOOT_CLEARANCE) {
+    parts.push(`Warning: Feet barely clear the ground in swing (${(metrics.foot_clearance * 100).toFixed(1)}cm); joints may be lagging the gait.`);
+  }
+
+  // Battery
+  parts.push(`Drew ${(metrics.total_energy_consumed / 1000).toFixed(1)}kJ, leaving the battery at ${metrics.final_state_of_charge.toFixed(1)}% (bus sagged to ${metrics.min_bus_voltage}V).`);
+  if (metrics.brownout_time > 0) {
+    parts.push(`Warning: Brown-outs reset the motor drivers for ${metrics.brownout_time}s.`);
+  }
+
+  // Temperature warning
+  if (metrics.avg_joint_temperature > 50) {
+    parts.push(`Warning: Elevated joint temperatures (avg ${metrics.avg_joint_temperature}°C).`);
+  }
+  if (metrics.max_joint_temperature > 50) {
+    parts.push(`Hottest winding: ${metrics.hottest_joint} at ${metrics.max_joint_temperature}°C.`);
+  }
+  if (metrics.throttled_time > 0) {
+    parts.push(`Thermal throttling derated torque for ${metrics.throttled_time}s.`);
+  }
+
+  // Obstacles in the world
+  if (metrics.min_obstacle_clearance !== null) {
+    parts.push(metrics.min_obstacle_clearance <= 0
+      ? 'Warning: Walked into an obstacle and was held against it.'
+      : `Kept ${(metrics.min_obstacle_clearance * 100).toFixed(0)}cm clear of obstacles.`);
+  }
+
+  // Sensors against the simulated truth
+  if (metrics.imu_error_rms > IMU_ERROR_WARNING) {
+    parts.push(`Warning: IMU attitude read ${metrics.imu_error_rms}° RMS off the true attitude.`);
+  }
+  if (metrics.contact_error_rate > CONTACT_ERROR_WARNING) {
+    parts.push(`Warning: ${(metrics.contact_error_rate * 100).toFixed(1)}% of foot contact readings disagreed with the true contacts.`);
+  }
+
+  return parts.join(' ');
+}
+
+// ============================================
+// Quadruped Telemetry Functions
+// ============================================
+
+// Quadruped body carried on the knees in stance
+const QUADRUPED_BODY: LeggedBodyTuning = {
+  comHeight: 0.15,
+  supportJoint: 'knee',
+  legLength: 0.1,
+  legStiffness: 920,
+  legDamping: 513
+};
+
+/**
+ * Get gait-specific parameters for the quadruped.
+ * Phase offsets are fractions of the gait cycle per leg; legs sharing an
+ * offset move as a pair.
+ */
+function getQuadrupedGaitParams(gait: QuadrupedGait) {
+  const params = {
+    trot: {
+      frequency: 2.0,
+      phaseOffsets: { fl: 0, br: 0, fr: 0.5, bl: 0.5 } as Record<string, number>,
+      slipFactor: 1.0
+    },
+    pace: {
+      frequency: 1.8,
+      phaseOffsets: { fl: 0, bl: 0, fr: 0.5, br: 0.5 } as Record<string, number>,
+      slipFactor: 1.2
+    },
+    bound: {
+      frequency: 2.5,
+      phaseOffsets: { fl: 0, fr: 0, bl: 0.5, br: 0.5 } as Record<string, number>,
+      slipFactor: 1.6
+    }
+  };
+  return params[gait] || params.trot;
+}
+
+/**
+ * Generate a telemetry stream for the QS-V4 quadruped
+ */
+export function generateQuadrupedTelemetryStream(
+  durationSeconds: number,
+  physics: PhysicsConfig,
+  model: RobotModel,
+  motors: Map<string, MotorParams>,
+  battery: BatteryConfig,
+  sensors: SensorConfig,
+  obstacles: Obstacle[],
+  rangeSensorConfigs: RangeSensorConfig[],
+  gait: QuadrupedGait,
+  rng: SeededRandom,
+  faults: FaultInjector,
+  sampleRateHz: number = 100
+): TelemetryFrame[] {
+  const frames: TelemetryFrame[] = [];
+  const totalSamples = Math.floor(durationSeconds * sampleRateHz);
+  const dt = 1 / sampleRateHz;
+  const terrainParams = getTerrainParams(physics.terrain_type);
+  const gaitParams = getQuadrupedGaitParams(gait);
+  const quadruped = leggedBody(model, QUADRUPED_BODY);
+  const odometry = new LegOdometry(model, obstacles);
+  const footContact = new FootContact(model, terrainParams, quadruped.mass.mass * physics.gravity, dt);
+  const thermal = new MotorThermal(model.joints.map(joint => joint.joint_id), QUADRUPED_MOTOR_THERMAL, physics.thermal, dt);
+  const powerTrain = new PowerTrain(battery, QUADRUPED_ELECTRONICS_POWER);
+  const imu = new ImuSensor(sensors, rng, dt);
+  const contactSwitches = new ContactSensors(sensors, rng);
+  const rangeSensors = new RangeSensors(rangeSensorConfigs, obstacles, rng);
+  const legIds = model.legs.map(leg => leg.leg_id);
+  const liftoffRise: Record<string, number> = {};
+
+  // State tracking
+  const jointState: Record<string, JointState> = {};
+  let body = restingBody();
+
+  // Standing posture offsets and gait amplitudes per joint type (radians)
+  const standingPose = { abad: 0, hip: 0.7, knee: -1.4 };
+  const gaitAmplitude = { abad: 0.05, hip: 0.4, knee: 0.5 };
+
+  for (const joint of model.joints) {
+    jointState[joint.joint_id] = {
+      position: standingPose[joint.joint_type as keyof typeof standingPose] + rng.gaussian(0, 0.05),
       velocity: 0,
-      torque: 0
+      torque: 0,
+      integral: 0
     };
   }
-
-  // Gait cycle parameters (tripod gait)
-  const gaitFrequency = 2; // Hz
-  const gaitAmplitude = {
-    coxa: 0.3,  // radians
-    femur: 0.6,
-    tibia: 0.8
-  };
+  let driversPowered = true;
+  const motorFor = (jointId: string): MotorParams =>
+    deratedMotor(motors.get(jointId) || { joint_id: jointId, ...DEFAULT_QUADRUPED_MOTOR_PARAMS }, faults, thermal, driversPowered);
 
   for (let i = 0; i < totalSamples; i++) {
     const t = i * dt;
-    const gaitPhase = (t * gaitFrequency * 2 * Math.PI) % (2 * Math.PI);
+    const gaitPhase = (t * gaitParams.frequency * 2 * Math.PI) % (2 * Math.PI);
+    faults.step(i, Math.round(t * 1000));
+    driversPowered = powerTrain.driversPowered(t);
+
+    // Gait mismatch faults make the affected leg lag its commanded phase
+    const legPhaseOf = (legId: string): number => {
+      const mismatch = faults.active('gait_mismatch', legId);
+      const lag = mismatch ? 0.1 + 0.15 * mismatch.magnitude : 0;
+      const phase = gaitPhase + (gaitParams.phaseOffsets[legId] - lag) * 2 * Math.PI;
+      return ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    };
+
+    // Ground under the body where the odometry has it, and the feet it lets stand
+    const lastFrame = frames[frames.length - 1];
+    const ground = localGround(physics.terrain, model, lastFrame?.kinematics.odometry ?? { x: 0, y: 0 }, body.attitude.z);
+    const gaitStance = legIds.filter(legId => legPhaseOf(legId) < Math.PI);
+    const { stanceLegs, tripped } = groundContacts(legIds, gaitStance, ground, lastFrame, liftoffRise);
+
+    // Body dynamics: stance while leg phase in [0, PI), with the knees carrying the body
+    const support = stanceSupport(quadruped, stanceLegs, legId => motorFor(`${legId}_${quadruped.supportJoint}`), footContact.groundStiffness, body, faults);
+    const disturbance = bodyDisturbance(quadruped, physics.gravity, terrainParams.frictionVariance, physics.terrain_roughness, body, rng, faults);
+    const heaveRate = body.velocity.z;
+    const bodyStep = stepLeggedBody(body, quadruped, support, ground, physics.gravity, disturbance, dt, physics.integrator);
+    body = bodyStep.state;
+    const heaveAcceleration = (body.velocity.z - heaveRate) / dt;
+    const levers = supportLevers(model, quadruped, lastFrame?.joint_positions ?? {});
+    const roll = body.attitude.x * 180 / Math.PI;
 
-    // Update each joint with gait pattern
     const jointPositions: Record<string, number> = {};
     const jointVelocities: Record<string, number> = {};
     const jointTorques: Record<string, number> = {};
+    const appliedTorques: Record<string, number> = {};
 
-    for (const jointId of HEXAPOD_JOINTS) {
-      const motor = motors.get(jointId) || { pid_p: 1.0, pid_d: 0.05, torque_limit: 5.0 };
+    for (const joint of model.joints) {
+      const { joint_id: jointId, leg_id: legId } = joint;
+      const jointType = joint.joint_type as keyof typeof standingPose;
+      const limits: [number, number] = [joint.limits.lower, joint.limits.upper];
+      const motor = motorFor(jointId);
       const state = jointState[jointId];
+      const legPhase = legPhaseOf(legId);
+
+      // Hip sweeps the foot back through stance and forward through swing, knee flexes
+      // only during swing, abad compensates roll
+      let target: number;
+      if (jointType === 'knee') {
+        target = standingPose.knee - gaitAmplitude.knee * Math.max(0, -Math.sin(legPhase));
+      } else if (jointType === 'abad') {
+        const side = legId.endsWith('l') ? 1 : -1;
+        target = side * gaitAmplitude.abad * Math.sin(legPhase) - roll * 0.005;
+      } else {
+        target = standingPose.hip - gaitAmplitude.hip * Math.cos(legPhase);
+      }
 
-      // Determine leg number and joint type
-      const legNum = parseInt(jointId.split('_')[1]);
-      const jointType = jointId.split('_')[2] as 'coxa' | 'femur' | 'tibia';
-
-      // Phase offset for tripod gait (legs 1,3,5 vs 2,4,6)
-      const phaseOffset = (legNum % 2 === 0) ? Math.PI : 0;
-      const amplitude = gaitAmplitude[jointType] || 0.5;
+      // A joint limit fault drives the setpoint past the nearest stop
+      if (faults.active('joint_limit_exceeded', jointId)) {
+        const nearUpper = Math.abs(limits[1] - target) < Math.abs(target - limits[0]);
+        target = nearUpper ? limits[1] + JOINT_LIMIT_OVERSHOOT : limits[0] - JOINT_LIMIT_OVERSHOOT;
+      }
 
-      // Target position from gait pattern
-      const target = amplitude * Math.sin(gaitPhase + phaseOffset);
+      // Knees carry the force under their foot in stance
+      const loadTorque = jointType === 'knee'
+        ? (bodyStep.footForces[legId] ?? 0) * levers[legId]
+        : 0;
 
-      // Apply PID control
-      const pidResult = pidResponse(
-        state.position,
-        target,
-        motor.pid_p,
-        motor.pid_d,
-        state.velocity,
-        dt
-      );
+      pidStep(state, target, motor, QUADRUPED_JOINT_INERTIA, loadTorque, dt);
+      applyJointLimits(state, limits);
 
-      // Add terrain-dependent noise
       const noiseScale = 0.01 * (1 + terrainParams.frictionVariance);
-      state.position = pidResult.position + gaussianNoise(0, noiseScale);
-      state.velocity = pidResult.velocity + gaussianNoise(0, noiseScale * 2);
-
-      // Calculate torque (simplified)
-      state.torque = clamp(
-        motor.pid_p * (target - state.position) + gaussianNoise(0, 0.1),
-        -motor.torque_limit,
-        motor.torque_limit
-      );
+      state.position += rng.gaussian(0, noiseScale);
 
       jointPositions[jointId] = state.position;
-      jointVelocities[jointId] = state.velocity;
-      jointTorques[jointId] = state.torque;
+      jointVelocities[jointId] = state.velocity + rng.gaussian(0, noiseScale * 2);
+      jointTorques[jointId] = clamp(state.torque + rng.gaussian(0, 0.15), -motor.torque_limit, motor.torque_limit);
+      appliedTorques[jointId] = state.torque;
     }
 
-    // IMU simulation with terrain influence
-    const gravityEffect = physics.gravity / 9.81;
-    const pitchOscillation = 2 * Math.sin(gaitPhase * 2) * gravityEffect;
-    const rollOscillation = 1.5 * Math.sin(gaitPhase * 2 + Math.PI / 4) * gravityEffect;
-
-    pitch = clamp(
-      pitch * 0.95 + pitchOscillation * 0.05 + gaussianNoise(0, 0.3),
-      -30, 30
-    );
-    roll = clamp(
-      roll * 0.95 + rollOscillation * 0.05 + gaussianNoise(0, 0.2),
-      -20, 20
-    );
-    yaw += gaussianNoise(0, 0.1);
-
-    // Temperature increases slowly during operation
-    temperature = Math.min(55, temperature + 0.001 + Math.abs(gaussianNoise(0, 0.01)));
-
-    // Power simulation
-    const avgTorque = Object.values(jointTorques).reduce((a, b) => Math.abs(a) + Math.abs(b), 0) / 18;
-    const current = 2 + avgTorque * 0.5 + gaussianNoise(0, 0.2);
-
-    // Contact simulation for each leg
-    const contacts = [];
-    for (let leg = 1; leg <= 6; leg++) {
-      const legPhase = (gaitPhase + (leg % 2 === 0 ? Math.PI : 0)) % (2 * Math.PI);
-      const inContact = legPhase < Math.PI; // Stance phase
-
-      // Slip detection based on terrain and friction
-      const slipChance = terrainParams.slipProbability * (1 - physics.friction_coefficient);
-      const slipDetected = inContact && Math.random() < slipChance * 0.1;
-
-      contacts.push({
-        leg_id: `leg_${leg}`,
+    // Contact model: each stance foot reports the force it carries and how far it sank, and slips as the hexapod's do
+    const footLoads = footContact.step(legIds, stanceLegs, bodyStep.footForces, lastFrame);
+    const slopeDemand = slopeFrictionDemand(ground, physics.friction_coefficient);
+    const contacts = legIds.map(legId => {
+      const inContact = stanceLegs.includes(legId);
+      const slipFault = faults.active('slip_event', legId);
+      const slipChance = terrainParams.slipProbability * gaitParams.slipFactor * (1 - physics.friction_coefficient) *
+        footLoadFactor(bodyStep.footForces, stanceLegs, legId);
+      return {
+        leg_id: legId,
         in_contact: inContact,
-        force: inContact ? 8 + gaussianNoise(0, 2) : 0,
-        slip_detected: slipDetected
-      });
-    }
+        force: inContact ? (footLoads[legId].force + rng.gaussian(0, 3)) * (slipFault ? 0.4 : 1) : 0,
+        slip_detected: inContact && (tripped.includes(legId) || slopeDemand >= 1 ||
+          rng.next() < slipChance * 0.1 / (1 - slopeDemand) || slipFault !== undefined),
+        sinkage: Number(footLoads[legId].sinkage.toFixed(4)),
+        energy_loss: Number(footLoads[legId].energyLoss.toFixed(4))
+      };
+    });
+
+    const throttle = Math.min(1, ...model.joints.map(joint => thermal.throttle(joint.joint_id)));
+    const copperLosses = thermal.step(appliedTorques, faults);
+    const jointTemperatures = thermal.readings;
+
+    const groundPower = Object.values(footLoads).reduce((sum, load) => sum + load.energyLoss, 0) / dt;
+    const jointPower = Object.fromEntries(model.joints.map(({ joint_id: jointId }) =>
+      [jointId, jointElectricalPower(jointState[jointId], copperLosses[jointId])]));
+    const power = powerTrain.step(Object.values(jointPower).reduce((a, b) => a + b, 0) + groundPower, t, dt, faults, rng);
+
+    // Sensors read the simulated truth; a sensor noise fault inflates the IMU noise
+    const toDegrees = 180 / Math.PI;
+    const truth = {
+      imu: roundImu({
+        pitch: body.attitude.y * toDegrees,
+        roll,
+        yaw: body.attitude.z * toDegrees,
+        accel_x: 0,
+        accel_y: 0,
+        accel_z: physics.gravity + heaveAcceleration
+      }),
+      in_contact: Object.fromEntries(contacts.map(c => [c.leg_id, c.in_contact]))
+    };
+    const measuredImu = imu.read(truth.imu, faults.active('sensor_noise')?.magnitude);
+    const measuredContact = contactSwitches.read(truth.in_contact);
+    const kinematics = odometry.update(jointPositions, contacts, body.attitude, ground);
 
     frames.push({
       timestamp: Math.round(t * 1000),
       joint_positions: jointPositions,
       joint_velocities: jointVelocities,
       joint_torques: jointTorques,
-      imu: {
-        pitch: Number(pitch.toFixed(2)),
-        roll: Number(roll.toFixed(2)),
-        yaw: Number(yaw.toFixed(2)),
-        accel_x: Number(gaussianNoise(0, 0.5).toFixed(3)),
-        accel_y: Number(gaussianNoise(0, 0.5).toFixed(3)),
-        accel_z: Number((physics.gravity + gaussianNoise(0, 0.3)).toFixed(3))
-      },
+      imu: roundImu(measuredImu),
       power: {
-        voltage: Number((24 - current * 0.1 + gaussianNoise(0, 0.05)).toFixed(2)),
-        current: Number(current.toFixed(2)),
-        temperature: Number(temperature.toFixed(1))
+        voltage: Number((power.voltage + rng.gaussian(0, 0.05)).toFixed(2)),
+        current: Number((power.current + rng.gaussian(0, 0.1)).toFixed(2)),
+        temperature: Math.max(...Object.values(jointTemperatures)),
+        throttle: Number(throttle.toFixed(2)),
+        state_of_charge: Number(power.stateOfCharge.toFixed(2)),
+        brownout: power.brownout
       },
-      contacts
+      joint_temperatures: jointTemperatures,
+      joint_power: Object.fromEntries(Object.entries(jointPower).map(([jointId, watts]) => [jointId, Number(watts.toFixed(2))])),
+      contacts: contacts.map(c => ({ ...c, in_contact: measuredContact[c.leg_id] })),
+      truth,
+      ranges: rangeSensors.read({ ...kinematics.odometry, heading: body.attitude.z, height: kinematics.body_height }),
+      nearest_obstacle: odometry.nearestObstacle,
+      kinematics
     });
   }
 
@@ -243,361 +1730,829 @@ export function generateTelemetryStream(
 }
 
 /**
- * Analyze telemetry and compute metrics
+ * Analyze quadruped telemetry and compute metrics.
+ * Gait symmetry is measured against the leg pairing of the chosen gait.
  */
-export function analyzeTelemetry(frames: TelemetryFrame[]): SimulationMetrics {
-  if (frames.length === 0) {
-    return {
-      stability_score: 0,
-      efficiency_score: 0,
-      gait_symmetry: 0,
-      max_pitch_deviation: 0,
-      max_roll_deviation: 0,
-      slip_events: 0,
-      total_energy_consumed: 0,
-      avg_joint_temperature: 0
-    };
-  }
+export function analyzeQuadrupedTelemetry(frames: TelemetryFrame[], gait: QuadrupedGait): SimulationMetrics {
+  const gaitParams = getQuadrupedGaitParams(gait);
+  return analyzeTelemetry(frames, {
+    frequency: gaitParams.frequency,
+    duty_factor: 0.5,
+    phase_offsets: gaitParams.phaseOffsets
+  });
+}
 
-  let maxPitch = 0;
-  let maxRoll = 0;
-  let slipEvents = 0;
-  let totalEnergy = 0;
-  let tempSum = 0;
+// ============================================
+// Drone Telemetry Functions
+// ============================================
 
-  // Gait symmetry calculation
-  let leftLegPhaseSum = 0;
-  let rightLegPhaseSum = 0;
+// Multirotor flight model constants
+const GRAVITY = 9.81;                   // m/s^2
+const SEA_LEVEL_AIR_DENSITY = 1.225;    // kg/m³
+const RPM_TO_RAD_PER_SEC = Math.PI / 30;
+const AVIONICS_CURRENT = 5;             // A
+const LOW_BATTERY_FAULT_DRAIN = 1;      // %/s a failing cell bleeds from the pack at full fault magnitude
+const KV_LOAD_FACTOR = 0.25;            // loaded rotor RPM as a fraction of KV x battery voltage
+const ROLL_INERTIA_FACTOR = 0.4;        // roll/pitch inertia as a fraction of mass x arm length²
+const YAW_INERTIA_FACTOR = 0.55;         // yaw inertia as a fraction of mass x arm length²
+const COAXIAL_LOWER_EFFICIENCY = 0.8;   // thrust fraction a rotor keeps working in another's wake
+const ATTITUDE_NOISE = 250;             // deg/s^2, unmodelled airframe disturbances
+const MAX_TILT = 25;                    // degrees
+const METERS_PER_DEG_LAT = 111000;
+const CLIMB_RATE = 2;                   // m/s, takeoff and steepest setpoint climb on a leg
+const LANDING_DESCENT_RATE = 1.2;       // m/s
+const ARRIVAL_RADIUS = 2;               // m, distance at which a waypoint counts as reached
+const LEG_SETTLE_TIME = 4;              // s, allowance for catching the setpoint at the end of a leg
+const RTH_SPEED = 5;                    // m/s, return-to-home ground speed
+const SAFE_TOUCHDOWN_SPEED = 1.5;       // m/s, vertical speed above which a landing counts as hard
+const CRASH_SPEED = 3;                  // m/s, ground impact that wrecks the airframe
+const FLIP_ANGLE = 60;                  // degrees of tilt past which the controller disarms
+const YAW_DAMPING = 0.6;                // 1/s, aerodynamic damping of spin
+const YAW_NOISE = 20;                   // deg/s^2
+const ROTOR_LAG_THRESHOLD = 0.25;       // fraction of hover RPM a rotor may trail its command by
+const ROTOR_FAULT_DETECTION_TIME = 0.06; // s a rotor must trail its command before it is flagged
+const ROTOR_TIP_FRACTION = 0.5;         // rotor tips reach this fraction of the arm length past the motors
+const GPS_ERROR_WARNING = 2;            // m RMS of GPS fix error worth reporting
 
-  for (const frame of frames) {
-    maxPitch = Math.max(maxPitch, Math.abs(frame.imu.pitch));
-    maxRoll = Math.max(maxRoll, Math.abs(frame.imu.roll));
+/**
+ * Thrust each rotor keeps relative to an isolated one: the lower rotor of a
+ * coaxial pair works in the upper rotor's wake
+ */
+function rotorThrustEfficiency(rotors: RotorMount[]): number[] {
+  return rotors.map(r => rotors.some(o => o.z > r.z && Math.hypot(o.x - r.x, o.y - r.y) < 0.01)
+    ? COAXIAL_LOWER_EFFICIENCY
+    : 1);
+}
 
-    for (const contact of frame.contacts) {
-      if (contact.slip_detected) slipEvents++;
+/**
+ * Rotor speeds (RPM) at which every rotor carries an equal share of the airframe weight
+ */
+export function airframeHoverRPM(airframe: AirframeConfig, airDensity: number = SEA_LEVEL_AIR_DENSITY): number[] {
+  const share = airframe.mass * GRAVITY / airframe.rotors.length;
+  const kT = airframe.thrust_coefficient * airDensity / SEA_LEVEL_AIR_DENSITY;
+  return rotorThrustEfficiency(airframe.rotors).map(eff => Math.sqrt(share / (kT * eff)) / RPM_TO_RAD_PER_SEC);
+}
 
-      // Crude phase estimation
-      const legNum = parseInt(contact.leg_id.split('_')[1]);
-      if (legNum % 2 === 1) {
-        leftLegPhaseSum += contact.in_contact ? 1 : 0;
-      } else {
-        rightLegPhaseSum += contact.in_contact ? 1 : 0;
-      }
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial pivoting
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
     }
-
-    // Energy = V * I * dt (simplified)
-    totalEnergy += frame.power.voltage * frame.power.current * 0.01;
-    tempSum += frame.power.temperature;
   }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
 
-  // Calculate scores
-  const stabilityPenalty = (maxPitch / 30) * 30 + (maxRoll / 20) * 20 + (slipEvents / frames.length) * 50;
-  const stability_score = Math.max(0, Math.round(100 - stabilityPenalty));
-
-  // Efficiency based on energy vs distance (simplified)
-  const efficiencyRaw = 100 - (totalEnergy / frames.length) * 2;
-  const efficiency_score = Math.max(0, Math.min(100, Math.round(efficiencyRaw)));
-
-  // Gait symmetry: compare left vs right leg contact ratios
-  const symmetryDiff = Math.abs(leftLegPhaseSum - rightLegPhaseSum) / frames.length;
-  const gait_symmetry = Number(Math.max(0, 1 - symmetryDiff * 0.5).toFixed(2));
+/**
+ * Mixer gains from collective, roll, pitch and yaw commands to each rotor's
+ * thrust fraction. Positive roll (right side down) needs more thrust on the
+ * left, positive pitch (nose up) more on the front, and positive yaw more on
+ * the rotors spinning counter-clockwise, since the airframe reacts against
+ * the spin. A unit command gives the same thrust or torque per unit of
+ * weight and arm length on every layout: ±1 per rotor on a quad X.
+ *
+ * Gains are the minimum-norm allocation over the running rotors, so after a
+ * shutdown the rest make up the torque, and a layout that cannot act on two
+ * axes independently splits a command between them. Heading is given up on
+ * request, or when every running rotor spins the same way.
+ */
+function airframeMixer(
+  airframe: AirframeConfig,
+  running: boolean[] = airframe.rotors.map(() => true),
+  holdHeading = true
+): { collective: number[]; roll: number[]; pitch: number[]; yaw: number[] } {
+  const { rotors } = airframe;
+  const n = rotors.length;
+  const reference = n * airframe.arm_length / Math.SQRT2;
+  const spin = rotors.map(r => r.spin === 'ccw' ? 1 : -1);
+  const yawAxis = holdHeading && new Set(spin.filter((_, i) => running[i])).size > 1;
+
+  // Effect of each rotor on each axis, with stopped rotors contributing nothing
+  const axes = [
+    rotors.map(() => 1),
+    rotors.map(r => -r.y),
+    rotors.map(r => r.x),
+    ...(yawAxis ? [spin] : [])
+  ].map(row => row.map((v, i) => running[i] ? v : 0));
+  const targets = [n, reference, reference, n];
+
+  // Gains = Aᵀ(AAᵀ + εI)⁻¹ t for each axis
+  const gram = axes.map((a, i) => axes.map((b, j) =>
+    a.reduce((sum, v, k) => sum + v * b[k], 0) + (i === j ? 1e-9 * n : 0)
+  ));
+  const gains = axes.map((_, axis) => {
+    const lambda = solveLinear(gram, axes.map((_, i) => i === axis ? targets[axis] : 0));
+    return rotors.map((_, k) => axes.reduce((sum, row, i) => sum + row[k] * lambda[i], 0));
+  });
+  return {
+    collective: gains[0],
+    roll: gains[1],
+    pitch: gains[2],
+    yaw: yawAxis ? gains[3] : rotors.map(() => 0)
+  };
+}
 
+/**
+ * Rotate a world-frame tilt (pitch about east, roll about north) into the body frame at a heading
+ */
+function toBodyFrame(pitch: number, roll: number, cosYaw: number, sinYaw: number): { pitch: number; roll: number } {
   return {
-    stability_score,
-    efficiency_score,
-    gait_symmetry,
-    max_pitch_deviation: Number(maxPitch.toFixed(1)),
-    max_roll_deviation: Number(maxRoll.toFixed(1)),
-    slip_events: slipEvents,
-    total_energy_consumed: Number(totalEnergy.toFixed(2)),
-    avg_joint_temperature: Number((tempSum / frames.length).toFixed(1))
+    pitch: pitch * cosYaw - roll * sinYaw,
+    roll: pitch * sinYaw + roll * cosYaw
   };
 }
 
 /**
- * Generate a human-readable telemetry summary
+ * Wrap an angle in degrees to (-180, 180]
  */
-export function generateTelemetrySummary(
-  frames: TelemetryFrame[],
-  metrics: SimulationMetrics
-): string {
-  const parts: string[] = [];
+function wrapAngle(deg: number): number {
+  const wrapped = ((deg + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
 
-  // Overall assessment
-  if (metrics.stability_score >= 90) {
-    parts.push('Gait cycle completed successfully.');
-  } else if (metrics.stability_score >= 70) {
-    parts.push('Gait cycle completed with minor issues.');
-  } else {
-    parts.push('Gait cycle completed with significant stability concerns.');
-  }
+/**
+ * Point in metres north/east of home and above it
+ */
+interface LocalPoint {
+  north: number;
+  east: number;
+  alt: number;
+}
 
-  // Slip events
-  if (metrics.slip_events > 0) {
-    const slipFrames = frames.filter((f, i) =>
-      f.contacts.some(c => c.slip_detected)
-    ).slice(0, 3);
+/**
+ * Convert GPS coordinates to metres north/east of the mission home
+ */
+export function toLocal(lat: number, lon: number, home: DroneMission['home']): { north: number; east: number } {
+  return {
+    north: (lat - home.lat) * METERS_PER_DEG_LAT,
+    east: (lon - home.lon) * METERS_PER_DEG_LAT * Math.cos(home.lat * Math.PI / 180)
+  };
+}
 
-    if (slipFrames.length > 0) {
-      const slipTimes = slipFrames.map(f => `t=${(f.timestamp / 1000).toFixed(1)}s`);
-      const slipLegs = slipFrames.flatMap(f =>
-        f.contacts.filter(c => c.slip_detected).map(c => c.leg_id.replace('leg_', ''))
-      );
-      parts.push(`Minor slip detected at ${slipTimes[0]} on leg ${slipLegs[0]} tarsus.`);
+/**
+ * Horizontal distance from a point to the segment between two others
+ */
+function crossTrackDistance(
+  p: { north: number; east: number },
+  a: { north: number; east: number },
+  b: { north: number; east: number }
+): number {
+  const dn = b.north - a.north;
+  const de = b.east - a.east;
+  const lengthSq = dn * dn + de * de;
+  const u = lengthSq > 0 ? clamp(((p.north - a.north) * dn + (p.east - a.east) * de) / lengthSq, 0, 1) : 0;
+  return Math.hypot(p.north - (a.north + u * dn), p.east - (a.east + u * de));
+}
+
+/**
+ * How far a point lies outside the geofence in metres, 0 when inside
+ */
+function geofenceExcursion(p: LocalPoint, fence: Geofence, home: DroneMission['home']): number {
+  if (!fence.enabled) return 0;
+
+  let horizontal = 0;
+  if (fence.shape === 'cylinder') {
+    horizontal = Math.max(0, Math.hypot(p.north, p.east) - fence.radius);
+  } else if (fence.polygon.length >= 3) {
+    // Ray casting for containment, nearest edge for the distance outside
+    const vertices = fence.polygon.map(v => toLocal(v.lat, v.lon, home));
+    let inside = false;
+    let nearest = Infinity;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[i];
+      const b = vertices[j];
+      if ((a.north > p.north) !== (b.north > p.north) &&
+          p.east < (b.east - a.east) * (p.north - a.north) / (b.north - a.north) + a.east) {
+        inside = !inside;
+      }
+      nearest = Math.min(nearest, crossTrackDistance(p, a, b));
     }
+    horizontal = inside ? 0 : nearest;
   }
 
-  // Stability
-  parts.push(`Stability score: ${metrics.stability_score}%`);
-
-  // Temperature warning
-  if (metrics.avg_joint_temperature > 50) {
-    parts.push(`Warning: Elevated joint temperatures (avg ${metrics.avg_joint_temperature}°C).`);
-  }
+  return Math.max(horizontal, p.alt - fence.max_altitude, 0);
+}
 
-  return parts.join(' ');
+/**
+ * How far a GPS position lies outside the geofence in metres, 0 when inside
+ */
+export function geofenceExcursionAt(
+  position: { lat: number; lon: number; alt: number },
+  fence: Geofence,
+  home: DroneMission['home']
+): number {
+  return geofenceExcursion({ ...toLocal(position.lat, position.lon, home), alt: position.alt }, fence, home);
 }
 
-// ============================================
-// Drone Telemetry Functions
-// ============================================
+/**
+ * Setpoint speed along a leg: the waypoint speed, slowed so the climb or descent rate stays achievable
+ */
+function legSpeed(from: LocalPoint, to: LocalPoint, speed: number): number {
+  const length = Math.hypot(to.north - from.north, to.east - from.east, to.alt - from.alt);
+  const climb = Math.abs(to.alt - from.alt);
+  return climb > 0 ? Math.min(speed, CLIMB_RATE * length / climb) : speed;
+}
 
 /**
- * Get airspace condition parameters
+ * Rough flight time for a mission: climb, hover, legs at their speeds plus
+ * loiters and settling, transit to the landing point and descent
  */
-function getAirspaceParams(condition: DronePhysicsConfig['airspace_condition']) {
-  const params = {
-    calm: {
-      turbulenceIntensity: 0.1,
-      gustProbability: 0.02,
-      positionVariance: 0.05
-    },
-    light_wind: {
-      turbulenceIntensity: 0.25,
-      gustProbability: 0.08,
-      positionVariance: 0.15
-    },
-    gusty: {
-      turbulenceIntensity: 0.5,
-      gustProbability: 0.2,
-      positionVariance: 0.35
-    },
-    turbulent: {
-      turbulenceIntensity: 0.8,
-      gustProbability: 0.4,
-      positionVariance: 0.6
-    }
-  };
-  return params[condition] || params.calm;
+export function estimateMissionDuration(mission: DroneMission): number {
+  let seconds = mission.takeoff_altitude / CLIMB_RATE + mission.hover_seconds;
+  let from: LocalPoint = { north: 0, east: 0, alt: mission.takeoff_altitude };
+
+  for (const wp of mission.waypoints) {
+    const to = { ...toLocal(wp.lat, wp.lon, mission.home), alt: wp.alt };
+    const length = Math.hypot(to.north - from.north, to.east - from.east, to.alt - from.alt);
+    seconds += length / legSpeed(from, to, wp.speed) + wp.loiter_seconds + LEG_SETTLE_TIME;
+    from = to;
+  }
+
+  const landing = toLocal(mission.landing.lat, mission.landing.lon, mission.home);
+  const transitSpeed = mission.waypoints[mission.waypoints.length - 1]?.speed ?? 5;
+  seconds += Math.hypot(landing.north - from.north, landing.east - from.east) / transitSpeed + LEG_SETTLE_TIME;
+  seconds += from.alt / LANDING_DESCENT_RATE + LEG_SETTLE_TIME;
+
+  return Math.ceil(seconds);
 }
 
 /**
- * Flight phase enumeration
+ * One step of a flight controller PID loop with a bounded integrator
  */
-type FlightPhase = 'takeoff' | 'hover' | 'waypoint' | 'land';
+function flightPid(
+  gains: PIDGains,
+  error: number,
+  errorRate: number,
+  integral: { value: number },
+  outputLimit: number,
+  dt: number
+): number {
+  integral.value += error * dt;
+  if (gains.i > 0) {
+    integral.value = clamp(integral.value, -outputLimit / gains.i, outputLimit / gains.i);
+  }
+  return clamp(gains.p * error + gains.i * integral.value + gains.d * errorRate, -outputLimit, outputLimit);
+}
 
 /**
- * Generate drone telemetry stream for a flight simulation
+ * Generate drone telemetry stream for a flight simulation. The airframe is
+ * flown by a cascaded controller: position error sets a tilt target, the
+ * attitude loop turns tilt error into differential rotor thrust, and the
+ * altitude loop sets collective thrust. Rotors follow their commands with
+ * a first-order lag and are capped by max RPM, KV x voltage and max current;
+ * their thrust and drag torque act about the centre of mass from where the
+ * airframe mounts them. Wind from the wind field pushes the airframe and
+ * tilts it away from the relative wind.
+ * Tilt is tracked in the world frame and rotated through the heading into
+ * the body frame for mixing, so a failed rotor acts from wherever it has
+ * spun to. The failsafe overrides the mission on low battery, a geofence
+ * breach or a failed rotor, returning home or landing in place; engagements
+ * and crashes are recorded on the fault injector as events.
  */
 export function generateDroneTelemetryStream(
   durationSeconds: number,
   physics: DronePhysicsConfig,
+  controller: FlightControllerConfig,
+  airframe: AirframeConfig,
+  mission: DroneMission,
+  failsafe: FailsafeConfig,
+  sensors: SensorConfig,
+  obstacles: Obstacle[],
+  rangeSensorConfigs: RangeSensorConfig[],
+  rng: SeededRandom,
+  faults: DroneFaultInjector,
   sampleRateHz: number = 50
 ): DroneTelemetryFrame[] {
   const frames: DroneTelemetryFrame[] = [];
   const totalSamples = Math.floor(durationSeconds * sampleRateHz);
   const dt = 1 / sampleRateHz;
-  const airspaceParams = getAirspaceParams(physics.airspace_condition);
+  const windField = new WindField(physics, rng, dt);
+  const imu = new ImuSensor(sensors, rng, dt);
+  const gps = new GpsSensor(sensors, rng, dt);
+  const rangeSensors = new RangeSensors(rangeSensorConfigs, obstacles, rng);
+  const { rotor, motor } = controller;
 
   // Starting position (GPS coordinates)
-  const startLat = 37.7749;  // San Francisco
-  const startLon = -122.4194;
-  const startAlt = 0;
+  const startLat = mission.home.lat;
+  const startLon = mission.home.lon;
+  const metersPerDegLon = METERS_PER_DEG_LAT * Math.cos(startLat * Math.PI / 180);
 
-  // State tracking
-  let lat = startLat;
-  let lon = startLon;
-  let alt = startAlt;
-  let vx = 0, vy = 0, vz = 0;
+  // State tracking: position in metres north/east of home, attitude in degrees
+  let north = 0, east = 0, alt = 0;
+  let vx = 0, vy = 0, vz = 0;           // north, east, up (m/s)
   let pitch = 0, roll = 0, yaw = 0;
+  let pitchRate = 0, rollRate = 0, yawRate = 0;
   let batteryRemaining = 100;
   let batteryVoltage = 16.8; // 4S LiPo fully charged
+  let landed = false;
+  let disarmed = false;
+  let struck = false;
+  let flyawayClimb = 0;
+
+  // Controller integrators
+  const altitudeIntegral = { value: 0 };
+  const northIntegral = { value: 0 };
+  const eastIntegral = { value: 0 };
+  const rollIntegral = { value: 0 };
+  const pitchIntegral = { value: 0 };
+  const yawIntegral = { value: 0 };
+
+  // Airframe: thinner air needs faster rotors for the same thrust, and drag torque
+  // scales with it. Rotor thrust is carried as a fraction of its hover share of the weight
+  const rotors = airframe.rotors;
+  const rotorCount = rotors.length;
+  const weight = airframe.mass * GRAVITY;
+  const densityRatio = physics.air_density / SEA_LEVEL_AIR_DENSITY;
+  const torqueCoefficient = airframe.torque_coefficient * densityRatio;
+  const hoverRPM = airframeHoverRPM(airframe, physics.air_density);
+  const mixer = airframeMixer(airframe);
+  const massProperties: MassProperties = {
+    mass: airframe.mass,
+    inertia: {
+      x: ROLL_INERTIA_FACTOR * airframe.mass * airframe.arm_length ** 2,
+      y: ROLL_INERTIA_FACTOR * airframe.mass * airframe.arm_length ** 2,
+      z: YAW_INERTIA_FACTOR * airframe.mass * airframe.arm_length ** 2
+    }
+  };
+  const tipRadius = airframe.arm_length * (1 + ROTOR_TIP_FRACTION);
+  const opposite = rotors.map(r =>
+    rotors.findIndex(o => o.z === r.z && Math.hypot(o.x + r.x, o.y + r.y) < 0.01)
+  );
+
+  // Rotor state
+  const rotorSpeeds: number[] = new Array(rotorCount).fill(0);
+  const rotorLagTime: number[] = new Array(rotorCount).fill(0);
+  let failedRotor = -1;                 // index flagged by the controller, -1 while all rotors respond
+  let reducedMixer: ReturnType<typeof airframeMixer> | null = null;
+  const spinUp = Math.min(1, dt / rotor.response_time);
+  const rotorPower = (rpm: number) => torqueCoefficient * (rpm * RPM_TO_RAD_PER_SEC) ** 3;  // W
+
+  // Mission legs in local coordinates; the landing transit is flown as a final leg at cruise altitude
+  const legs = mission.waypoints.map(wp => ({
+    ...toLocal(wp.lat, wp.lon, mission.home),
+    alt: wp.alt,
+    speed: wp.speed,
+    loiter: wp.loiter_seconds
+  }));
+  const lastLeg = legs[legs.length - 1];
+  const landingPoint = toLocal(mission.landing.lat, mission.landing.lon, mission.home);
+  let landingLeg = {
+    ...landingPoint,
+    alt: lastLeg?.alt ?? mission.takeoff_altitude,
+    speed: lastLeg?.speed ?? 5,
+    loiter: 0
+  };
 
-  // Rotor state (4 rotors for quadcopter)
-  const rotorSpeeds = [0, 0, 0, 0];
-  const hoverRPM = 4500;
-  const maxRPM = 8000;
-  const minRPM = 1000;
-
-  // Flight plan phases
-  const takeoffDuration = durationSeconds * 0.15;
-  const hoverDuration = durationSeconds * 0.25;
-  const waypointDuration = durationSeconds * 0.4;
-  const landDuration = durationSeconds * 0.2;
-
-  // Waypoints for navigation
-  const waypoints = [
-    { lat: startLat + 0.0001, lon: startLon + 0.0001 },
-    { lat: startLat + 0.0002, lon: startLon },
-    { lat: startLat + 0.0001, lon: startLon - 0.0001 },
-    { lat: startLat, lon: startLon }
-  ];
-  let currentWaypoint = 0;
+  // Mission sequencing: a setpoint "carrot" moves along each leg at the leg speed
+  let phase: FlightPhase = 'takeoff';
+  let phaseStart = 0;
+  let leg = 0;
+  let legStart: LocalPoint = { north: 0, east: 0, alt: mission.takeoff_altitude };
+  let carrotDistance = 0;
+  let arrivedAt: number | null = null;
+  let target = { north: 0, east: 0 };
+  let prevAltTarget = 0;
+
+  // Failsafe state: once engaged it owns the flight until touchdown
+  let failsafeAction: FailsafeConfig['breach_action'] | null = null;
+  let rthAltitude = 0;
+  let rthClimbFrom = 0;
 
   for (let i = 0; i < totalSamples; i++) {
     const t = i * dt;
-    const progress = t / durationSeconds;
-
-    // Determine flight phase
-    let phase: FlightPhase;
-    if (t < takeoffDuration) {
-      phase = 'takeoff';
-    } else if (t < takeoffDuration + hoverDuration) {
-      phase = 'hover';
-    } else if (t < takeoffDuration + hoverDuration + waypointDuration) {
-      phase = 'waypoint';
-    } else {
-      phase = 'land';
+    const timestamp = Math.round(t * 1000);
+    faults.step(i, timestamp);
+
+    // Failsafe checks while airborne; a critical battery overrides a return already under way
+    if (!landed && alt > 0.5 && failsafeAction !== 'land') {
+      const here: LocalPoint = { north, east, alt };
+      let trigger: FailsafeTrigger | null = null;
+      let action: FailsafeConfig['breach_action'] = 'rth';
+      if (batteryRemaining <= failsafe.land_battery_threshold) {
+        trigger = 'critical_battery';
+        action = 'land';
+      } else if (failedRotor >= 0 && failsafe.motor_failure_action === 'land') {
+        trigger = 'motor_failure';
+        action = 'land';
+      } else if (failsafeAction === null && phase !== 'land') {
+        if (batteryRemaining <= failsafe.rth_battery_threshold) {
+          trigger = 'low_battery';
+        } else if (geofenceExcursion(here, failsafe.geofence, mission.home) > 0) {
+          trigger = 'geofence';
+          action = failsafe.breach_action;
+        }
+      }
+
+      if (trigger) {
+        failsafeAction = action;
+        phaseStart = t;
+        carrotDistance = 0;
+        arrivedAt = null;
+        legStart = here;
+        if (action === 'rth') {
+          // Climb (or descend under the ceiling) to the return altitude before heading home
+          const ceiling = failsafe.geofence.enabled ? failsafe.geofence.max_altitude - 1 : Infinity;
+          rthAltitude = Math.min(Math.max(failsafe.rth_altitude, alt), ceiling);
+          rthClimbFrom = alt;
+          target = { north, east };
+          phase = 'rth_climb';
+        } else {
+          landingLeg = { north, east, alt, speed: 0, loiter: 0 };
+          phase = 'land';
+        }
+
+        const reason = trigger === 'geofence'
+          ? 'Geofence breached'
+          : trigger === 'motor_failure'
+            ? `${rotors[failedRotor].id} not responding`
+            : `Battery at ${batteryRemaining.toFixed(0)}%`;
+        faults.record({
+          timestamp,
+          type: action === 'rth' ? 'failsafe_rth' : 'failsafe_land',
+          severity: trigger === 'critical_battery' || trigger === 'motor_failure' ? 'error' : 'warning',
+          message: action === 'rth' ? `${reason} - returning to home` : `${reason} - landing in place`,
+          data: {
+            trigger,
+            battery_remaining: Number(batteryRemaining.toFixed(1)),
+            position: { north: Number(north.toFixed(1)), east: Number(east.toFixed(1)), alt: Number(alt.toFixed(1)) }
+          }
+        });
+      }
     }
 
-    // Phase-specific behavior
+    // Phase-specific setpoints, reported against the phase they were computed for
+    const setpointPhase = phase;
+    let altTarget = mission.takeoff_altitude;
+    let targetVelocity = { north: 0, east: 0 };
     switch (phase) {
       case 'takeoff':
-        // Smooth ascent to 10m
-        const takeoffProgress = t / takeoffDuration;
-        const targetAlt = 10 * Math.sin(takeoffProgress * Math.PI / 2);
-        vz = (targetAlt - alt) * 2;
-        alt += vz * dt;
-
-        // Increase rotor speeds during takeoff
-        for (let r = 0; r < 4; r++) {
-          rotorSpeeds[r] = clamp(
-            minRPM + (hoverRPM - minRPM) * takeoffProgress + gaussianNoise(0, 50),
-            minRPM,
-            maxRPM
-          );
+        // Steady climb over home
+        altTarget = Math.min(mission.takeoff_altitude, CLIMB_RATE * t);
+        if (altTarget >= mission.takeoff_altitude && Math.abs(alt - mission.takeoff_altitude) < 0.5) {
+          phase = 'hover';
+          phaseStart = t;
         }
         break;
 
+      case 'rth_climb': {
+        // Hold position while moving to the return altitude, then fly home as the landing leg
+        const climbTime = Math.abs(rthAltitude - rthClimbFrom) / CLIMB_RATE;
+        const progress = climbTime > 0 ? Math.min(1, (t - phaseStart) / climbTime) : 1;
+        altTarget = rthClimbFrom + (rthAltitude - rthClimbFrom) * progress;
+        if (progress >= 1 && Math.abs(alt - rthAltitude) < 0.5) {
+          landingLeg = { north: 0, east: 0, alt: rthAltitude, speed: RTH_SPEED, loiter: 0 };
+          legStart = { north, east, alt: rthAltitude };
+          carrotDistance = 0;
+          arrivedAt = null;
+          phase = 'land';
+          phaseStart = t;
+        }
+        break;
+      }
+
       case 'hover':
-        // Maintain altitude with small corrections
-        const hoverTarget = 10;
-        vz = (hoverTarget - alt) * 0.5 + gaussianNoise(0, 0.1);
-        alt = clamp(alt + vz * dt, 0, 50);
-
-        // Stable hover RPM
-        for (let r = 0; r < 4; r++) {
-          rotorSpeeds[r] = hoverRPM + gaussianNoise(0, 100);
+        if (t - phaseStart >= mission.hover_seconds) {
+          phase = legs.length > 0 ? 'waypoint' : 'land';
+          phaseStart = t;
         }
         break;
 
       case 'waypoint':
-        // Navigate to waypoints
-        const wp = waypoints[currentWaypoint];
-        const latError = wp.lat - lat;
-        const lonError = wp.lon - lon;
-        const dist = Math.sqrt(latError * latError + lonError * lonError);
-
-        if (dist < 0.00002 && currentWaypoint < waypoints.length - 1) {
-          currentWaypoint++;
+      case 'land': {
+        const wp = phase === 'waypoint' ? legs[leg] : landingLeg;
+        const legLength = Math.hypot(wp.north - legStart.north, wp.east - legStart.east, wp.alt - legStart.alt);
+        const speed = legSpeed(legStart, wp, wp.speed);
+        carrotDistance = Math.min(legLength, carrotDistance + speed * dt);
+        const fraction = legLength > 0 ? carrotDistance / legLength : 1;
+        target = {
+          north: legStart.north + (wp.north - legStart.north) * fraction,
+          east: legStart.east + (wp.east - legStart.east) * fraction
+        };
+        altTarget = legStart.alt + (wp.alt - legStart.alt) * fraction;
+        if (fraction < 1) {
+          targetVelocity = {
+            north: (wp.north - legStart.north) / legLength * speed,
+            east: (wp.east - legStart.east) / legLength * speed
+          };
         }
 
-        // Move towards waypoint
-        vx = latError * 50000;  // Scale for lat/lon
-        vy = lonError * 50000;
-        lat += vx * dt * 0.00001;
-        lon += vy * dt * 0.00001;
-
-        // Maintain altitude
-        vz = (10 - alt) * 0.3;
-        alt = clamp(alt + vz * dt, 0, 50);
-
-        // Vary rotor speeds based on movement
-        for (let r = 0; r < 4; r++) {
-          const movementBoost = Math.abs(vx) + Math.abs(vy);
-          rotorSpeeds[r] = clamp(
-            hoverRPM + movementBoost * 10 + gaussianNoise(0, 150),
-            minRPM,
-            maxRPM
-          );
+        if (arrivedAt === null && fraction >= 1 && Math.hypot(wp.north - north, wp.east - east, wp.alt - alt) < ARRIVAL_RADIUS) {
+          arrivedAt = t;
         }
-        break;
 
-      case 'land':
-        // Smooth descent
-        const landProgress = (t - (durationSeconds - landDuration)) / landDuration;
-        const descentRate = -2 * (1 - landProgress * 0.5);
-        vz = descentRate;
-        alt = clamp(alt + vz * dt, 0, 50);
-
-        // Reduce rotor speeds during landing
-        for (let r = 0; r < 4; r++) {
-          rotorSpeeds[r] = clamp(
-            hoverRPM * (1 - landProgress * 0.6) + gaussianNoise(0, 50),
-            alt > 0.5 ? minRPM : 0,
-            maxRPM
-          );
+        if (phase === 'land') {
+          // Descend once over the landing point
+          if (arrivedAt !== null) {
+            altTarget = Math.max(0, wp.alt - LANDING_DESCENT_RATE * (t - arrivedAt));
+          }
+        } else if (arrivedAt !== null && t - arrivedAt >= wp.loiter) {
+          // Loiter done, start the next leg
+          legStart = { north: wp.north, east: wp.east, alt: wp.alt };
+          carrotDistance = 0;
+          arrivedAt = null;
+          leg++;
+          if (leg >= legs.length) {
+            phase = 'land';
+            phaseStart = t;
+          }
         }
         break;
+      }
     }
+    const altTargetRate = (altTarget - prevAltTarget) / dt;
+    prevAltTarget = altTarget;
+
+    // Wind at the drone; an injected wind fault stirs up the field
+    const wind = windField.sample(alt, { north: vx, east: vy }, faults.active('wind_warning')?.magnitude ?? 0);
+
+    if (landed || (phase === 'land' && arrivedAt !== null && alt <= 0.05 && altTarget < 0.3)) {
+      // Touched down: disarm and spin the rotors down
+      landed = true;
+      alt = 0;
+      vx = vy = vz = 0;
+      pitch *= 0.9;
+      roll *= 0.9;
+      pitchRate = rollRate = yawRate = 0;
+      for (let r = 0; r < rotorCount; r++) {
+        rotorSpeeds[r] = rotorSpeeds[r] * (1 - spinUp);
+      }
+    } else {
+      // Position loop: horizontal error -> tilt targets
+      let pitchTarget = -flightPid(controller.position_pid, target.north - north, targetVelocity.north - vx, northIntegral, MAX_TILT, dt);
+      let rollTarget = flightPid(controller.position_pid, target.east - east, targetVelocity.east - vy, eastIntegral, MAX_TILT, dt);
+
+      // Loss of control: the position loop is ignored and the drone climbs away
+      const flyawayFault = faults.active('flyaway');
+      if (flyawayFault) {
+        pitchTarget = -8 * flyawayFault.magnitude;
+        rollTarget = 5 * flyawayFault.magnitude;
+        flyawayClimb += 1.5 * flyawayFault.magnitude * dt;
+      }
 
-    // Wind effects
-    const windEffect = physics.wind_speed * airspaceParams.turbulenceIntensity;
-    const windAngleRad = physics.wind_direction * Math.PI / 180;
+      // Avoidance maneuver banks away from the obstacle
+      const obstacleFault = faults.active('obstacle_detected');
+      if (obstacleFault) {
+        rollTarget += 10 * obstacleFault.magnitude;
+      }
 
-    // Apply wind to position (small drift)
-    lat += Math.cos(windAngleRad) * windEffect * 0.000001 * dt;
-    lon += Math.sin(windAngleRad) * windEffect * 0.000001 * dt;
+      // With rotors shut down after a loss the tilt authority drops, so demands are scaled back
+      const reducedAttitude = controller.rotor_loss_strategy === 'reduced_attitude' && failedRotor >= 0;
+      if (reducedAttitude) {
+        pitchTarget *= 0.5;
+        rollTarget *= 0.5;
+      }
 
-    // Wind affects attitude
-    const gustActive = Math.random() < airspaceParams.gustProbability * dt;
-    if (gustActive) {
-      roll += gaussianNoise(0, 5) * airspaceParams.turbulenceIntensity;
-      pitch += gaussianNoise(0, 5) * airspaceParams.turbulenceIntensity;
-    }
+      // Attitude loop: tilt error -> differential thrust. It runs in the body frame so its
+      // integrators hold body-fixed corrections, such as for a weak rotor, as the airframe turns
+      const yawRad = yaw * Math.PI / 180;
+      const cosYaw = Math.cos(yawRad);
+      const sinYaw = Math.sin(yawRad);
+      const bodyTarget = toBodyFrame(pitchTarget, rollTarget, cosYaw, sinYaw);
+      const bodyTilt = toBodyFrame(pitch, roll, cosYaw, sinYaw);
+      const bodyRate = toBodyFrame(pitchRate, rollRate, cosYaw, sinYaw);
+      const bodyRollCmd = flightPid(controller.attitude_pid, bodyTarget.roll - bodyTilt.roll, -bodyRate.roll, rollIntegral, 0.5, dt);
+      const bodyPitchCmd = flightPid(controller.attitude_pid, bodyTarget.pitch - bodyTilt.pitch, -bodyRate.pitch, pitchIntegral, 0.5, dt);
+
+      // Heading hold: differential rotor torque turns the airframe back to its initial heading
+      const yawCmd = flightPid(controller.yaw_pid, wrapAngle(-yaw), -yawRate, yawIntegral, 0.5, dt);
+
+      // Altitude loop: collective thrust, compensated for tilt
+      const tiltCos = Math.cos(roll * Math.PI / 180) * Math.cos(pitch * Math.PI / 180);
+      const collective = flightPid(
+        controller.altitude_pid, altTarget + flyawayClimb - alt, altTargetRate - vz, altitudeIntegral, 1, dt
+      );
+
+      // Mix into rotor thrust fractions. With reduced attitude control after a rotor loss, the
+      // failed rotor is dropped from the mix and heading is given up, so the rest share the
+      // weight evenly instead of balancing drag torque. Three rotors cannot hold tilt on both
+      // axes either, so a quad shuts down the opposite rotor too: its surviving diagonal pair
+      // tilts along its own diagonal, which sweeps round as the airframe spins
+      const baseThrust = (1 + collective) / Math.max(0.5, tiltCos);
+      if (reducedAttitude && reducedMixer === null) {
+        const shutDown = rotorCount - 1 < 4 ? [failedRotor, opposite[failedRotor]] : [failedRotor];
+        reducedMixer = airframeMixer(airframe, rotors.map((_, r) => !shutDown.includes(r)), false);
+      }
+      const mix = reducedAttitude ? reducedMixer! : mixer;
+      const running = mix.collective.map(g => g > 0);
+      const thrustFractions = rotors.map((_, r) =>
+        baseThrust * mix.collective[r] + mix.roll[r] * bodyRollCmd + mix.pitch[r] * bodyPitchCmd + mix.yaw[r] * yawCmd
+      );
 
-    // Attitude stabilization (PID-like)
-    pitch = pitch * 0.95 + gaussianNoise(0, 0.5);
-    roll = roll * 0.95 + gaussianNoise(0, 0.5);
-    yaw += gaussianNoise(0, 0.2);
+      // Desaturate: when a rotor is commanded past its limit, collective thrust is given up so
+      // the differential that holds attitude survives
+      const voltageLimitedRPM = motor.kv_rating * batteryVoltage * KV_LOAD_FACTOR;
+      const currentLimitedRPM = Math.cbrt(motor.max_current * motor.efficiency * batteryVoltage / torqueCoefficient) /
+                                RPM_TO_RAD_PER_SEC;
+      const rpmLimit = Math.min(rotor.max_rpm, voltageLimitedRPM, currentLimitedRPM);
+      const excess = Math.max(...thrustFractions.map((f, r) => f - (rpmLimit / hoverRPM[r]) ** 2));
+      if (excess > 0) {
+        thrustFractions.forEach((f, r) => { thrustFractions[r] = f > 0 ? f - excess : 0; });
+      }
 
-    pitch = clamp(pitch, -30, 30);
-    roll = clamp(roll, -30, 30);
+      // Apply rotor lag and limits
+      const thrustFactors: number[] = new Array(rotorCount).fill(1);
+      rotors.forEach((rotorMount, r) => {
+        const command = disarmed ? 0 : hoverRPM[r] * Math.sqrt(Math.max(0, thrustFractions[r]));
+
+        // A failing rotor loses the given fraction of its thrust, so the controller spins it
+        // faster to compensate; at magnitude 1 the motor is dead
+        const rotorFault = faults.active('motor_failure', rotorMount.id);
+        thrustFactors[r] = rotorFault ? 1 - rotorFault.magnitude : 1;
+        const ceiling = thrustFactors[r] > 0 ? rpmLimit : 0;
+
+        rotorSpeeds[r] += (command - rotorSpeeds[r]) * spinUp;
+        const floor = disarmed || !running[r] ? 0 : Math.min(rotor.min_rpm, ceiling);
+        rotorSpeeds[r] = clamp(rotorSpeeds[r], floor, ceiling);
+
+        // The controller flags a rotor that keeps trailing its command
+        rotorLagTime[r] = alt > 0.5 && command - rotorSpeeds[r] > ROTOR_LAG_THRESHOLD * hoverRPM[r]
+          ? rotorLagTime[r] + dt
+          : 0;
+        if (failedRotor < 0 && rotorLagTime[r] >= ROTOR_FAULT_DETECTION_TIME) {
+          failedRotor = r;
+        }
+      });
 
-    // Battery drain (higher drain during movement/climb)
-    const powerDrain = 0.001 + Math.abs(vz) * 0.002 + (Math.abs(vx) + Math.abs(vy)) * 0.0001;
-    batteryRemaining = clamp(batteryRemaining - powerDrain, 0, 100);
-    batteryVoltage = 14.0 + (batteryRemaining / 100) * 2.8; // 14V-16.8V range
+      // Rigid-body response: rotor thrust (N) acts at the mounts along the tilted disks, drag
+      // torque yaws the airframe and the wind pushes and tilts it. Rotor speeds and the wind
+      // sample hold over the step while the body dynamics integrate
+      const thrusts = rotorSpeeds.map((rpm, r) => (rpm / hoverRPM[r]) ** 2 * thrustFactors[r] * weight / rotorCount);
+      const totalThrust = thrusts.reduce((a, b) => a + b, 0);
+      const bodyRollTorque = thrusts.reduce((sum, f, r) => sum - rotors[r].y * f, 0);
+      const bodyPitchTorque = thrusts.reduce((sum, f, r) => sum + rotors[r].x * f, 0);
+      const yawTorque = rotorSpeeds.reduce(
+        (sum, rpm, r) => sum + (rotors[r].spin === 'ccw' ? 1 : -1) * torqueCoefficient * (rpm * RPM_TO_RAD_PER_SEC) ** 2, 0
+      );
+      const toRadians = Math.PI / 180;
+      const noiseTorque = {
+        x: rng.gaussian(0, ATTITUDE_NOISE) * toRadians * massProperties.inertia.x,
+        y: rng.gaussian(0, ATTITUDE_NOISE) * toRadians * massProperties.inertia.y,
+        z: rng.gaussian(0, YAW_NOISE) * toRadians * massProperties.inertia.z
+      };
+
+      const body = integrateRigidBody(
+        {
+          position: { x: north, y: east, z: alt },
+          velocity: { x: vx, y: vy, z: vz },
+          attitude: { x: roll * toRadians, y: pitch * toRadians, z: yaw * toRadians },
+          angularVelocity: { x: rollRate * toRadians, y: pitchRate * toRadians, z: yawRate * toRadians }
+        },
+        massProperties,
+        state => {
+          const { attitude, velocity } = state;
+          const cosHeading = Math.cos(attitude.z);
+          const sinHeading = Math.sin(attitude.z);
+          const windLoad = windDisturbance(wind, { north: velocity.x, east: velocity.y, up: velocity.z }, attitude.z / toRadians, airframe);
+          const force = {
+            x: -totalThrust * Math.sin(attitude.y) * Math.cos(attitude.x) + windLoad.force.x * cosHeading - windLoad.force.y * sinHeading,
+            y: totalThrust * Math.sin(attitude.x) + windLoad.force.x * sinHeading + windLoad.force.y * cosHeading,
+            z: totalThrust * Math.cos(attitude.y) * Math.cos(attitude.x) + windLoad.force.z - weight
+          };
+
+          // On the ground the landing gear carries whatever the rotors do not lift
+          if (state.position.z <= 0 && force.z <= 0) {
+            return { force: { x: 0, y: 0, z: 0 }, torque: { x: 0, y: 0, z: 0 } };
+          }
+          const rollTorque = bodyRollTorque + windLoad.torque.roll;
+          const pitchTorque = bodyPitchTorque + windLoad.torque.pitch;
+          return {
+            force,
+            torque: {
+              x: rollTorque * cosHeading - pitchTorque * sinHeading + noiseTorque.x,
+              y: pitchTorque * cosHeading + rollTorque * sinHeading + noiseTorque.y,
+              z: yawTorque - YAW_DAMPING * massProperties.inertia.z * state.angularVelocity.z + noiseTorque.z
+            }
+          };
+        },
+        dt,
+        physics.integrator
+      );
+      ({ x: north, y: east, z: alt } = body.position);
+      ({ x: vx, y: vy, z: vz } = body.velocity);
+      roll = body.attitude.x / toRadians;
+      pitch = body.attitude.y / toRadians;
+      yaw = wrapAngle(body.attitude.z / toRadians);
+      rollRate = body.angularVelocity.x / toRadians;
+      pitchRate = body.angularVelocity.y / toRadians;
+      yawRate = body.angularVelocity.z / toRadians;
+
+      // Past the flip angle the attitude is unrecoverable and the motors are cut
+      if (!disarmed && alt > 0 && (Math.abs(roll) >= FLIP_ANGLE || Math.abs(pitch) >= FLIP_ANGLE)) {
+        disarmed = true;
+      }
+      roll = clamp(roll, -FLIP_ANGLE, FLIP_ANGLE);
+      pitch = clamp(pitch, -FLIP_ANGLE, FLIP_ANGLE);
+
+      // Rotor strike: an obstacle in the way of the rotor tips stops the airframe and the motors are cut
+      const strike = nearestObstacle(obstacles, north, east, tipRadius, alt);
+      if (strike && strike.clearance <= 0) {
+        if (!struck) {
+          faults.record({
+            timestamp,
+            type: 'collision',
+            severity: 'critical',
+            message: `Rotor strike on ${strike.id} at ${Math.hypot(vx, vy).toFixed(1)}m/s, ${alt.toFixed(1)}m up`,
+            data: { obstacle: strike.id, speed: Number(Math.hypot(vx, vy).toFixed(2)), alt: Number(alt.toFixed(2)) }
+          });
+          struck = true;
+        }
+        disarmed = true;
+        ({ x: north, y: east } = pushClear(obstacles, { x: north, y: east }, tipRadius, alt));
+        vx = vy = 0;
+      }
+
+      // Ground contact
+      if (alt <= 0) {
+        if (vz < -CRASH_SPEED || disarmed) {
+          // Uncontrolled ground contact ends the flight
+          if (vz < -CRASH_SPEED) {
+            faults.record({
+              timestamp,
+              type: 'crash',
+              severity: 'critical',
+              message: `Ground impact at ${(-vz).toFixed(1)}m/s${disarmed ? ' after loss of attitude control' : ''}`,
+              data: { impact_speed: Number((-vz).toFixed(2)), flipped: disarmed }
+            });
+          }
+          landed = true;
+        }
+        // Resting on the landing gear, which holds the airframe level
+        alt = 0;
+        vz = Math.max(0, vz);
+        vx = vy = 0;
+        roll = pitch = rollRate = pitchRate = yawRate = 0;
+      }
 
-    // Current draw based on rotor activity
-    const avgRPM = rotorSpeeds.reduce((a, b) => a + b, 0) / 4;
-    const current = 5 + (avgRPM / hoverRPM) * 15;
+      // Drift toward the operational boundary
+      const geofenceFault = faults.active('geofence_breach');
+      if (geofenceFault) {
+        north += 0.55 * geofenceFault.magnitude * dt;
+        east += 0.55 * geofenceFault.magnitude * dt;
+      }
+    }
+
+    // Current draw: rotor power grows with the cube of speed
+    const current = AVIONICS_CURRENT + rotorSpeeds.reduce(
+      (sum, rpm) => sum + rotorPower(rpm) / (batteryVoltage * motor.efficiency), 0
+    );
+
+    // The pack gives up the charge drawn this frame; a low battery fault bleeds it faster
+    const batteryFault = faults.active('low_battery');
+    const chargeDrawn = current * dt / 3600 / airframe.battery_capacity * 100;   // % of capacity
+    const faultDrain = batteryFault ? LOW_BATTERY_FAULT_DRAIN * batteryFault.magnitude * dt : 0;
+    batteryRemaining = clamp(batteryRemaining - chargeDrawn - faultDrain, 0, 100);
+    batteryVoltage = 14.0 + (batteryRemaining / 100) * 2.8; // 14V-16.8V range
 
     // GPS quality (varies with altitude and conditions)
-    let gpsQuality = 95 + gaussianNoise(0, 3);
+    let gpsQuality = 95 + rng.gaussian(0, 3);
     if (alt < 2) gpsQuality -= 10; // Lower quality near ground
     if (physics.airspace_condition === 'turbulent') gpsQuality -= 5;
+    const gpsFault = faults.active('gps_loss');
+    if (gpsFault) gpsQuality -= 60 * gpsFault.magnitude;
     gpsQuality = clamp(gpsQuality, 0, 100);
 
     // Signal strength (RC link)
-    const signalStrength = -45 + gaussianNoise(0, 3); // dBm
-
+    const signalFault = faults.active('signal_lost');
+    const signalStrength = -45 + rng.gaussian(0, 3) - (signalFault ? 40 * signalFault.magnitude : 0); // dBm
+
+    // The GPS and IMU read the simulated truth; the frame reports what they read
+    const bodyAttitude = toBodyFrame(pitch, roll, Math.cos(yaw * Math.PI / 180), Math.sin(yaw * Math.PI / 180));
+    const fix = gps.read({ north, east, alt }, gpsFault?.magnitude);
+    const measuredAttitude = imu.read({ ...bodyAttitude, yaw, accel_x: 0, accel_y: 0, accel_z: GRAVITY });
+    const nearest = nearestObstacle(obstacles, north, east, tipRadius, alt);
+    const toPosition = (p: { north: number; east: number; alt: number }) => ({
+      lat: Number((startLat + p.north / METERS_PER_DEG_LAT).toFixed(6)),
+      lon: Number((startLon + p.east / metersPerDegLon).toFixed(6)),
+      alt: Number(p.alt.toFixed(2))
+    });
     frames.push({
       timestamp: Math.round(t * 1000),
-      position: {
-        lat: Number(lat.toFixed(6)),
-        lon: Number(lon.toFixed(6)),
-        alt: Number(alt.toFixed(2))
-      },
+      position: toPosition(fix),
       velocity: {
         vx: Number(vx.toFixed(2)),
         vy: Number(vy.toFixed(2)),
         vz: Number(vz.toFixed(2))
       },
       attitude: {
-        pitch: Number(pitch.toFixed(1)),
-        roll: Number(roll.toFixed(1)),
-        yaw: Number(yaw.toFixed(1))
+        pitch: Number(measuredAttitude.pitch.toFixed(1)),
+        roll: Number(measuredAttitude.roll.toFixed(1)),
+        yaw: Number(wrapAngle(measuredAttitude.yaw).toFixed(1))
       },
       rotor_speeds: rotorSpeeds.map(r => Math.round(r)),
       battery: {
@@ -606,7 +2561,24 @@ export function generateDroneTelemetryStream(
         remaining: Number(batteryRemaining.toFixed(1))
       },
       gps_quality: Math.round(gpsQuality),
-      signal_strength: Math.round(signalStrength)
+      signal_strength: Math.round(signalStrength),
+      wind: {
+        north: Number(wind.north.toFixed(2)),
+        east: Number(wind.east.toFixed(2)),
+        up: Number(wind.up.toFixed(2)),
+        gust: Number(wind.gust.toFixed(2))
+      },
+      truth: {
+        position: toPosition({ north, east, alt }),
+        attitude: {
+          pitch: Number(bodyAttitude.pitch.toFixed(1)),
+          roll: Number(bodyAttitude.roll.toFixed(1)),
+          yaw: Number(yaw.toFixed(1))
+        }
+      },
+      ranges: rangeSensors.read({ x: north, y: east, heading: yaw * Math.PI / 180, height: alt }),
+      nearest_obstacle: nearest && { id: nearest.id, clearance: Math.max(0, Number(nearest.clearance.toFixed(3))) },
+      setpoint: { phase: setpointPhase, alt: Number(altTarget.toFixed(2)) }
     });
   }
 
@@ -625,55 +2597,76 @@ export function analyzeDroneTelemetry(frames: DroneTelemetryFrame[]): DroneSimul
       wind_compensation_events: 0,
       max_altitude_deviation: 0,
       avg_rotor_rpm: 0,
-      gps_quality_avg: 0
+      gps_quality_avg: 0,
+      gps_error_rms: 0,
+      attitude_error_rms: 0,
+      min_obstacle_clearance: null
     };
   }
 
-  // Calculate hover accuracy (time within 0.5m of target position)
+  // Hover accuracy: time within 0.5m of the altitude setpoint while it is held, over home
+  // and along the mission legs; takeoff, the return climb and landing change altitude on purpose
+  let holdingFrames = 0;
   let withinThreshold = 0;
-  const hoverAlt = 10; // Target hover altitude
   let maxAltDeviation = 0;
   let totalRPM = 0;
   let totalGPSQuality = 0;
   let windEvents = 0;
+  let gpsErrorSquares = 0;
+  let attitudeErrorSquares = 0;
+  let totalCurrent = 0;
+  let hoverCurrent = 0;
+  let hoverFrames = 0;
 
   let prevRoll = 0;
   let prevPitch = 0;
 
   for (const frame of frames) {
-    // Altitude deviation
-    const altDeviation = Math.abs(frame.position.alt - hoverAlt);
-    maxAltDeviation = Math.max(maxAltDeviation, altDeviation);
+    // Altitude deviation from the leg's setpoint
+    if (frame.setpoint.phase === 'hover' || frame.setpoint.phase === 'waypoint') {
+      const altDeviation = Math.abs(frame.truth.position.alt - frame.setpoint.alt);
+      maxAltDeviation = Math.max(maxAltDeviation, altDeviation);
+      holdingFrames++;
+      if (altDeviation < 0.5) {
+        withinThreshold++;
+      }
+    }
 
-    if (altDeviation < 0.5) {
-      withinThreshold++;
+    // Current drawn over the flight and while hovering over home
+    totalCurrent += frame.battery.current;
+    if (frame.setpoint.phase === 'hover') {
+      hoverCurrent += frame.battery.current;
+      hoverFrames++;
     }
 
-    // Rotor RPM
-    totalRPM += frame.rotor_speeds.reduce((a, b) => a + b, 0) / 4;
+    // Rotor RPM, averaged over however many rotors the airframe carries
+    totalRPM += frame.rotor_speeds.reduce((a, b) => a + b, 0) / Math.max(1, frame.rotor_speeds.length);
 
-    // GPS quality
+    // GPS quality, and how far the fix and attitude read from the truth
     totalGPSQuality += frame.gps_quality;
+    const fix = toLocal(frame.position.lat, frame.position.lon, frame.truth.position);
+    gpsErrorSquares += fix.north ** 2 + fix.east ** 2;
+    attitudeErrorSquares += ((frame.attitude.pitch - frame.truth.attitude.pitch) ** 2 +
+      (frame.attitude.roll - frame.truth.attitude.roll) ** 2) / 2;
 
     // Wind compensation events (sudden attitude changes)
-    const rollChange = Math.abs(frame.attitude.roll - prevRoll);
-    const pitchChange = Math.abs(frame.attitude.pitch - prevPitch);
+    const rollChange = Math.abs(frame.truth.attitude.roll - prevRoll);
+    const pitchChange = Math.abs(frame.truth.attitude.pitch - prevPitch);
     if (rollChange > 3 || pitchChange > 3) {
       windEvents++;
     }
-    prevRoll = frame.attitude.roll;
-    prevPitch = frame.attitude.pitch;
+    prevRoll = frame.truth.attitude.roll;
+    prevPitch = frame.truth.attitude.pitch;
   }
 
-  const hoverAccuracy = Math.round((withinThreshold / frames.length) * 100);
-  const altitudeStability = Math.round(Math.max(0, 100 - maxAltDeviation * 10));
+  // A flight that never reached hover has no altitude hold to score
+  const hoverAccuracy = holdingFrames > 0 ? Math.round((withinThreshold / holdingFrames) * 100) : 0;
+  const altitudeStability = holdingFrames > 0 ? Math.round(Math.max(0, 100 - maxAltDeviation * 10)) : 0;
 
-  // Battery efficiency: compare actual drain vs theoretical
-  const startBattery = frames[0].battery.remaining;
-  const endBattery = frames[frames.length - 1].battery.remaining;
-  const actualDrain = startBattery - endBattery;
-  const theoreticalDrain = (frames.length / 50) * 0.1; // Theoretical 0.1% per second
-  const batteryEfficiency = Math.round(Math.min(100, (theoreticalDrain / Math.max(actualDrain, 0.1)) * 100));
+  // Battery efficiency: charge the flight drew against hovering over home for as long,
+  // which holds for any pack size
+  const theoreticalCharge = hoverFrames > 0 ? hoverCurrent / hoverFrames * frames.length : 0;
+  const batteryEfficiency = Math.round(Math.min(100, theoreticalCharge / Math.max(totalCurrent, 1e-6) * 100));
 
   return {
     hover_accuracy: hoverAccuracy,
@@ -682,20 +2675,25 @@ export function analyzeDroneTelemetry(frames: DroneTelemetryFrame[]): DroneSimul
     wind_compensation_events: Math.min(windEvents, 10),
     max_altitude_deviation: Number(maxAltDeviation.toFixed(2)),
     avg_rotor_rpm: Math.round(totalRPM / frames.length),
-    gps_quality_avg: Math.round(totalGPSQuality / frames.length)
+    gps_quality_avg: Math.round(totalGPSQuality / frames.length),
+    gps_error_rms: Number(Math.sqrt(gpsErrorSquares / frames.length).toFixed(2)),
+    attitude_error_rms: Number(Math.sqrt(attitudeErrorSquares / frames.length).toFixed(2)),
+    min_obstacle_clearance: minObstacleClearance(frames)
   };
 }
 
 /**
  * Analyze flight path from drone telemetry
  */
-export function analyzeDroneFlightPath(frames: DroneTelemetryFrame[]): DroneFlightPath {
+export function analyzeDroneFlightPath(frames: DroneTelemetryFrame[], mission: DroneMission): DroneFlightPath {
   if (frames.length < 2) {
     return {
       waypoints_completed: 0,
       total_distance: 0,
       max_speed: 0,
-      avg_speed: 0
+      avg_speed: 0,
+      waypoints: [],
+      landing_error: null
     };
   }
 
@@ -708,9 +2706,9 @@ export function analyzeDroneFlightPath(frames: DroneTelemetryFrame[]): DroneFlig
     const curr = frames[i];
 
     // Calculate distance (simplified, using lat/lon as meters for small distances)
-    const dx = (curr.position.lat - prev.position.lat) * 111000; // ~111km per degree
-    const dy = (curr.position.lon - prev.position.lon) * 111000 * Math.cos(curr.position.lat * Math.PI / 180);
-    const dz = curr.position.alt - prev.position.alt;
+    const dx = (curr.truth.position.lat - prev.truth.position.lat) * 111000; // ~111km per degree
+    const dy = (curr.truth.position.lon - prev.truth.position.lon) * 111000 * Math.cos(curr.truth.position.lat * Math.PI / 180);
+    const dz = curr.truth.position.alt - prev.truth.position.alt;
 
     const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
     totalDistance += dist;
@@ -721,22 +2719,133 @@ export function analyzeDroneFlightPath(frames: DroneTelemetryFrame[]): DroneFlig
     totalSpeed += speed;
   }
 
-  // Count waypoints completed based on position changes
-  let waypointsCompleted = 0;
-  const startPos = frames[0].position;
-  const endPos = frames[frames.length - 1].position;
+  // Walk the mission legs in order: a waypoint is reached when the drone first comes
+  // within the arrival radius after reaching the previous one
+  const local = frames.map(f => ({ ...toLocal(f.truth.position.lat, f.truth.position.lon, mission.home), alt: f.truth.position.alt }));
+  const waypoints: WaypointReport[] = [];
+  let legStart: LocalPoint = { north: 0, east: 0, alt: mission.takeoff_altitude };
+  let searchFrom = 0;
+
+  mission.waypoints.forEach((wp, index) => {
+    const target = { ...toLocal(wp.lat, wp.lon, mission.home), alt: wp.alt };
+    let arrivalFrame = -1;
+    for (let i = searchFrom; i < local.length; i++) {
+      const p = local[i];
+      if (Math.hypot(target.north - p.north, target.east - p.east, target.alt - p.alt) < ARRIVAL_RADIUS) {
+        arrivalFrame = i;
+        break;
+      }
+    }
+
+    // Cross-track error over the leg, or over the rest of the flight if it was never reached
+    const legEnd = arrivalFrame >= 0 ? arrivalFrame : local.length - 1;
+    let maxError = 0;
+    let totalError = 0;
+    for (let i = searchFrom; i <= legEnd; i++) {
+      const error = crossTrackDistance(local[i], legStart, target);
+      maxError = Math.max(maxError, error);
+      totalError += error;
+    }
+    const legFrames = legEnd - searchFrom + 1;
+
+    waypoints.push({
+      index,
+      arrival_time: arrivalFrame >= 0 ? Number((frames[arrivalFrame].timestamp / 1000).toFixed(2)) : null,
+      max_cross_track_error: Number(maxError.toFixed(2)),
+      mean_cross_track_error: Number((legFrames > 0 ? totalError / legFrames : 0).toFixed(2))
+    });
+
+    if (arrivalFrame >= 0) {
+      searchFrom = arrivalFrame;
+      legStart = target;
+    } else {
+      searchFrom = local.length;
+    }
+  });
 
-  // Approximate waypoints based on total distance traveled
-  if (totalDistance > 10) waypointsCompleted++;
-  if (totalDistance > 30) waypointsCompleted++;
-  if (totalDistance > 60) waypointsCompleted++;
-  if (totalDistance > 100) waypointsCompleted++;
+  // Landing accuracy only means something if the drone flew and is on the ground at the end
+  const last = local[local.length - 1];
+  const landingPoint = toLocal(mission.landing.lat, mission.landing.lon, mission.home);
+  const landingError = last.alt <= 0.1 && local.some(p => p.alt > 0.5)
+    ? Number(Math.hypot(last.north - landingPoint.north, last.east - landingPoint.east).toFixed(2))
+    : null;
 
   return {
-    waypoints_completed: waypointsCompleted,
+    waypoints_completed: waypoints.filter(w => w.arrival_time !== null).length,
     total_distance: Number(totalDistance.toFixed(1)),
     max_speed: Number(maxSpeed.toFixed(1)),
-    avg_speed: Number((totalSpeed / (frames.length - 1)).toFixed(1))
+    avg_speed: Number((totalSpeed / (frames.length - 1)).toFixed(1)),
+    waypoints,
+    landing_error: landingError
+  };
+}
+
+/**
+ * Report whether the failsafe engaged and how the flight ended
+ */
+export function analyzeDroneFailsafe(
+  frames: DroneTelemetryFrame[],
+  events: DroneSimulationEvent[],
+  failsafe: FailsafeConfig,
+  mission: DroneMission
+): FailsafeReport {
+  if (frames.length === 0) {
+    return {
+      triggered: false,
+      trigger: null,
+      action: null,
+      triggered_at: null,
+      landed: false,
+      landed_safely: false,
+      crashed: false,
+      touchdown_speed: null,
+      distance_from_home: null,
+      battery_at_landing: null,
+      max_geofence_excursion: 0
+    };
+  }
+
+  const engagement = events.find(e => e.type === 'failsafe_rth' || e.type === 'failsafe_land');
+  const crash = events.find(e => e.type === 'crash');
+
+  let maxExcursion = 0;
+  for (const f of frames) {
+    maxExcursion = Math.max(maxExcursion, geofenceExcursionAt(f.truth.position, failsafe.geofence, mission.home));
+  }
+
+  // Touchdown is the last frame leaving the air before the flight ends on the ground
+  const last = frames[frames.length - 1];
+  const landed = frames.length > 1 && last.truth.position.alt <= 0.1 && frames.some(f => f.truth.position.alt > 0.5);
+  let touchdownSpeed: number | null = null;
+  let touchdownFrame = last;
+  if (landed) {
+    for (let i = frames.length - 1; i > 0; i--) {
+      if (frames[i - 1].truth.position.alt > 0.1) {
+        touchdownFrame = frames[i];
+        touchdownSpeed = Number(Math.abs(frames[i - 1].velocity.vz).toFixed(2));
+        break;
+      }
+    }
+  }
+
+  const touchdown = { ...toLocal(touchdownFrame.truth.position.lat, touchdownFrame.truth.position.lon, mission.home), alt: 0 };
+  const landedSafely = landed && !crash &&
+    touchdownSpeed !== null && touchdownSpeed <= SAFE_TOUCHDOWN_SPEED &&
+    geofenceExcursion(touchdown, failsafe.geofence, mission.home) === 0 &&
+    touchdownFrame.battery.remaining > 0;
+
+  return {
+    triggered: engagement !== undefined,
+    trigger: engagement?.data?.trigger ?? null,
+    action: engagement ? (engagement.type === 'failsafe_rth' ? 'rth' : 'land') : null,
+    triggered_at: engagement ? Number((engagement.timestamp / 1000).toFixed(2)) : null,
+    landed,
+    landed_safely: landedSafely,
+    crashed: crash !== undefined,
+    touchdown_speed: touchdownSpeed,
+    distance_from_home: landed ? Number(Math.hypot(touchdown.north, touchdown.east).toFixed(2)) : null,
+    battery_at_landing: landed ? Number(touchdownFrame.battery.remaining.toFixed(1)) : null,
+    max_geofence_excursion: Number(maxExcursion.toFixed(2))
   };
 }
 
@@ -746,12 +2855,20 @@ export function analyzeDroneFlightPath(frames: DroneTelemetryFrame[]): DroneFlig
 export function generateDroneTelemetrySummary(
   frames: DroneTelemetryFrame[],
   metrics: DroneSimulationMetrics,
-  flightPath: DroneFlightPath
+  flightPath: DroneFlightPath,
+  failsafe?: FailsafeReport
 ): string {
+  if (frames.length === 0) {
+    return 'No telemetry recorded: the flight was shorter than one sample.';
+  }
+
   const parts: string[] = [];
 
-  // Overall assessment
-  if (metrics.hover_accuracy >= 90 && metrics.altitude_stability >= 90) {
+  // Overall assessment; a flight cut short before the hover has no altitude hold to judge
+  const held = frames.some(f => f.setpoint.phase === 'hover' || f.setpoint.phase === 'waypoint');
+  if (!held) {
+    parts.push('Flight ended before reaching hover altitude.');
+  } else if (metrics.hover_accuracy >= 90 && metrics.altitude_stability >= 90) {
     parts.push('Flight completed.');
   } else if (metrics.hover_accuracy >= 70) {
     parts.push('Flight completed with minor deviations.');
@@ -760,18 +2877,64 @@ export function generateDroneTelemetrySummary(
   }
 
   // Hover stability
-  parts.push(`Hover stability maintained within ${metrics.max_altitude_deviation.toFixed(1)}m.`);
+  if (held) {
+    parts.push(`Hover stability maintained within ${metrics.max_altitude_deviation.toFixed(1)}m.`);
+  }
+
+  // Mission progress
+  if (flightPath.waypoints.length > 0) {
+    parts.push(`${flightPath.waypoints_completed}/${flightPath.waypoints.length} waypoints reached.`);
+  }
+  if (flightPath.landing_error !== null && !failsafe?.triggered) {
+    parts.push(`Landed ${flightPath.landing_error.toFixed(1)}m from the landing point.`);
+  }
+
+  // Failsafe and flight outcome
+  if (failsafe?.crashed) {
+    parts.push(`Crashed at ${failsafe.touchdown_speed?.toFixed(1) ?? '?'}m/s impact.`);
+  }
+  if (failsafe?.triggered) {
+    const action = failsafe.action === 'rth' ? 'Return-to-home' : 'Land-in-place';
+    parts.push(`${action} failsafe engaged at t=${failsafe.triggered_at!.toFixed(1)}s (${failsafe.trigger!.replace('_', ' ')}).`);
+    if (failsafe.landed && !failsafe.crashed) {
+      parts.push(`${failsafe.landed_safely ? 'Landed safely' : 'Hard or unsafe landing'} ${failsafe.distance_from_home!.toFixed(1)}m from home with ${failsafe.battery_at_landing!.toFixed(0)}% battery.`);
+    } else if (!failsafe.landed) {
+      parts.push('Still airborne at the end of the run.');
+    }
+  }
+  if (failsafe && failsafe.max_geofence_excursion > 0) {
+    parts.push(`Geofence exceeded by up to ${failsafe.max_geofence_excursion.toFixed(1)}m.`);
+  }
 
   // Wind compensation
   if (metrics.wind_compensation_events > 0) {
     const firstWindFrame = frames.find((f, i) => {
       if (i === 0) return false;
-      return Math.abs(f.attitude.roll - frames[i-1].attitude.roll) > 3;
+      return Math.abs(f.truth.attitude.roll - frames[i-1].truth.attitude.roll) > 3;
     });
     if (firstWindFrame) {
       parts.push(`Wind compensation active at t=${(firstWindFrame.timestamp / 1000).toFixed(1)}s.`);
     }
   }
+  const peakGust = frames.reduce((peak, f) => f.wind.gust > peak.wind.gust ? f : peak, frames[0]);
+  if (peakGust.wind.gust > 1) {
+    parts.push(`Peak gust ${peakGust.wind.gust.toFixed(1)}m/s at t=${(peakGust.timestamp / 1000).toFixed(1)}s.`);
+  }
+
+  // Obstacles at the drone's altitude
+  if (metrics.min_obstacle_clearance !== null) {
+    parts.push(metrics.min_obstacle_clearance <= 0
+      ? 'Warning: The rotors struck an obstacle.'
+      : `Rotor tips kept ${metrics.min_obstacle_clearance.toFixed(1)}m clear of obstacles.`);
+  }
+
+  // Sensors against the simulated truth
+  if (metrics.gps_error_rms > GPS_ERROR_WARNING) {
+    parts.push(`Warning: GPS fixes were ${metrics.gps_error_rms.toFixed(1)}m RMS from the true position.`);
+  }
+  if (metrics.attitude_error_rms > IMU_ERROR_WARNING) {
+    parts.push(`Warning: IMU attitude read ${metrics.attitude_error_rms}° RMS off the true attitude.`);
+  }
 
   // Battery
   const finalBattery = frames[frames.length - 1].battery.remaining;
@@ -0,0 +1,280 @@
+// Terrain - Ground shape for legged runs: heightmaps and composed slopes, steps, rubble and ditches
+
+import { Heightmap, TerrainFeature, TerrainProfile } from './types';
+
+// ============================================
+// Terrain Presets
+// ============================================
+
+/**
+ * Named terrains. The robot starts at the origin facing along x, so
+ * features ahead of it lie at positive x.
+ */
+export const TERRAIN_PRESETS: Record<string, TerrainProfile> = {
+  flat: { name: 'flat', features: [] },
+  ramp_10: {
+    name: 'ramp_10',
+    features: [{ type: 'incline', start: 0.3, length: 3, angle: 10 }]
+  },
+  slope_15: {
+    name: 'slope_15',
+    features: [{ type: 'incline', start: -10, length: 20, angle: 15 }]
+  },
+  stairs: {
+    name: 'stairs',
+    features: [0.3, 0.6, 0.9, 1.2, 1.5].map(start => ({ type: 'step' as const, start, height: 0.04 }))
+  },
+  rubble: {
+    name: 'rubble',
+    features: [{ type: 'rubble', start: -0.5, length: 5, height: 0.03, size: 0.08 }]
+  },
+  ditch: {
+    name: 'ditch',
+    features: [{ type: 'ditch', start: 0.3, width: 0.12, depth: 0.1 }]
+  }
+};
+
+// Terrain file limits
+const MAX_HEIGHTMAP_SAMPLES = 250000;
+const MAX_INCLINE_ANGLE = 60;      // degrees
+const MAX_FEATURE_HEIGHT = 1;      // m, tallest step, rubble block or deepest ditch
+
+// ============================================
+// Height Queries
+// ============================================
+
+/**
+ * Ground height (m) at a point, from the heightmap and every primitive added together
+ */
+export function terrainHeight(terrain: TerrainProfile, x: number, y: number): number {
+  let height = terrain.heightmap ? heightmapHeight(terrain.heightmap, x, y) : 0;
+  for (const feature of terrain.features) {
+    height += featureHeight(feature, x, y);
+  }
+  return height;
+}
+
+function featureHeight(feature: TerrainFeature, x: number, y: number): number {
+  switch (feature.type) {
+    case 'incline': {
+      // Climbs from its start, then holds its top height
+      const run = Math.min(Math.max(x - feature.start, 0), feature.length);
+      return run * Math.tan(feature.angle * Math.PI / 180);
+    }
+    case 'step':
+      return x >= feature.start ? feature.height : 0;
+    case 'ditch':
+      return x >= feature.start && x < feature.start + feature.width ? -feature.depth : 0;
+    case 'rubble': {
+      // Square blocks of random height, the same on every run
+      if (x < feature.start || x >= feature.start + feature.length) return 0;
+      const i = Math.floor((x - feature.start) / feature.size);
+      const j = Math.floor(y / feature.size);
+      const hash = Math.sin(i * 127.1 + j * 311.7) * 43758.5453;
+      return feature.height * (hash - Math.floor(hash));
+    }
+  }
+}
+
+/**
+ * Bilinear interpolation between heightmap samples, holding the edge
+ * heights beyond the grid
+ */
+function heightmapHeight(map: Heightmap, x: number, y: number): number {
+  const rows = map.heights.length;
+  const columns = map.heights[0].length;
+  const u = Math.min(Math.max((x - map.origin[0]) / map.resolution, 0), columns - 1);
+  const v = Math.min(Math.max((y - map.origin[1]) / map.resolution, 0), rows - 1);
+  const [i, j] = [Math.floor(u), Math.floor(v)];
+  const [i1, j1] = [Math.min(i + 1, columns - 1), Math.min(j + 1, rows - 1)];
+  const [fu, fv] = [u - i, v - j];
+  const h = map.heights;
+  return (h[j][i] * (1 - fu) + h[j][i1] * fu) * (1 - fv) +
+    (h[j1][i] * (1 - fu) + h[j1][i1] * fu) * fv;
+}
+
+/**
+ * Least-squares plane through the ground under a set of points, given in a
+ * frame centred on the body (forward, left) and placed on the terrain by the
+ * body position (m) and heading (rad). Returns the plane height under the
+ * body, its rise per metre forward and to the left, and how far the ground
+ * under each point stands above the plane.
+ */
+export function groundPlane(
+  terrain: TerrainProfile,
+  points: [number, number][],
+  position: { x: number; y: number },
+  heading: number
+): { height: number; slope: [number, number]; rise: number[] } {
+  const [c, s] = [Math.cos(heading), Math.sin(heading)];
+  const heights = points.map(([forward, left]) =>
+    terrainHeight(terrain, position.x + forward * c - left * s, position.y + forward * s + left * c));
+
+  const n = Math.max(1, points.length);
+  const [meanX, meanY] = points.reduce(([x, y], p) => [x + p[0] / n, y + p[1] / n], [0, 0]);
+  const meanH = heights.reduce((a, b) => a + b, 0) / n;
+  let [sxx, sxy, syy, sxh, syh] = [0, 0, 0, 0, 0];
+  points.forEach(([x, y], k) => {
+    const [dx, dy, dh] = [x - meanX, y - meanY, heights[k] - meanH];
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    sxh += dx * dh;
+    syh += dy * dh;
+  });
+
+  // Points along a single line only fix the slope along that line
+  const det = sxx * syy - sxy * sxy;
+  const slope: [number, number] = det > 1e-9
+    ? [(sxh * syy - syh * sxy) / det, (syh * sxx - sxh * sxy) / det]
+    : [sxx > 0 ? sxh / sxx : 0, 0];
+  const height = meanH - slope[0] * meanX - slope[1] * meanY;
+  return {
+    height,
+    slope,
+    rise: points.map(([x, y], k) => heights[k] - (height + slope[0] * x + slope[1] * y))
+  };
+}
+
+// ============================================
+// Terrain Files
+// ============================================
+
+/**
+ * Read a terrain from the JSON text of a terrain file: an optional name, a
+ * list of primitives and an optional heightmap, e.g.
+ * {"name": "yard", "features": [{"type": "incline", "start": 1, "length": 2, "angle": 15}],
+ *  "heightmap": {"resolution": 0.1, "origin": [0, -1], "heights": [[0, 0.02], [0.01, 0]]}}
+ * Throws on text that is not a usable terrain; anything skipped or limited is
+ * reported in the warnings.
+ */
+export function terrainFromFile(text: string, fallbackName = 'custom'): { terrain: TerrainProfile; warnings: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  if (!isRecord(data)) throw new Error('expected a JSON object with features and/or a heightmap');
+
+  const warnings: string[] = [];
+  const features: TerrainFeature[] = [];
+  if (data.features !== undefined) {
+    if (!Array.isArray(data.features)) throw new Error('features must be a list');
+    data.features.forEach((entry, index) => {
+      const feature = readFeature(entry, `features[${index}]`, warnings);
+      if (feature) features.push(feature);
+    });
+  }
+
+  const heightmap = data.heightmap === undefined ? undefined : readHeightmap(data.heightmap);
+  if (features.length === 0 && !heightmap) {
+    warnings.push('Terrain file describes no features or heightmap; the ground is flat');
+  }
+
+  const name = typeof data.name === 'string' && data.name.trim() !== '' ? data.name.trim() : fallbackName;
+  return { terrain: { name, features, ...(heightmap ? { heightmap } : {}) }, warnings };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNumber(entry: Record<string, unknown>, key: string, where: string): number {
+  const value = entry[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${where}.${key} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * Read one primitive, clamping sizes to what the simulation handles. Unknown
+ * primitive types are skipped with a warning.
+ */
+function readFeature(entry: unknown, where: string, warnings: string[]): TerrainFeature | null {
+  if (!isRecord(entry)) throw new Error(`${where} must be an object`);
+  const positive = (key: string, max = MAX_FEATURE_HEIGHT): number => {
+    const value = readNumber(entry, key, where);
+    if (value <= 0) throw new Error(`${where}.${key} must be positive`);
+    if (value > max) {
+      warnings.push(`${where}.${key} clamped to ${max}`);
+      return max;
+    }
+    return value;
+  };
+
+  switch (entry.type) {
+    case 'incline': {
+      const angle = readNumber(entry, 'angle', where);
+      if (Math.abs(angle) > MAX_INCLINE_ANGLE) {
+        warnings.push(`${where}.angle clamped to ±${MAX_INCLINE_ANGLE}°`);
+      }
+      return {
+        type: 'incline',
+        start: readNumber(entry, 'start', where),
+        length: positive('length', Infinity),
+        angle: Math.max(-MAX_INCLINE_ANGLE, Math.min(MAX_INCLINE_ANGLE, angle))
+      };
+    }
+    case 'step': {
+      const height = readNumber(entry, 'height', where);
+      if (Math.abs(height) > MAX_FEATURE_HEIGHT) {
+        warnings.push(`${where}.height clamped to ±${MAX_FEATURE_HEIGHT}`);
+      }
+      return {
+        type: 'step',
+        start: readNumber(entry, 'start', where),
+        height: Math.max(-MAX_FEATURE_HEIGHT, Math.min(MAX_FEATURE_HEIGHT, height))
+      };
+    }
+    case 'rubble':
+      return {
+        type: 'rubble',
+        start: readNumber(entry, 'start', where),
+        length: positive('length', Infinity),
+        height: positive('height'),
+        size: positive('size')
+      };
+    case 'ditch':
+      return {
+        type: 'ditch',
+        start: readNumber(entry, 'start', where),
+        width: positive('width', Infinity),
+        depth: positive('depth')
+      };
+    default:
+      warnings.push(`${where} has unknown type '${String(entry.type)}' and was skipped (use incline, step, rubble or ditch)`);
+      return null;
+  }
+}
+
+function readHeightmap(entry: unknown): Heightmap {
+  if (!isRecord(entry)) throw new Error('heightmap must be an object');
+  const resolution = readNumber(entry, 'resolution', 'heightmap');
+  if (resolution <= 0) throw new Error('heightmap.resolution must be positive');
+
+  const origin = entry.origin ?? [0, 0];
+  if (!Array.isArray(origin) || origin.length !== 2 || !origin.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error('heightmap.origin must be [x, y]');
+  }
+
+  const heights = entry.heights;
+  if (!Array.isArray(heights) || heights.length === 0 || !Array.isArray(heights[0]) || heights[0].length === 0) {
+    throw new Error('heightmap.heights must be a non-empty list of rows');
+  }
+  const columns = heights[0].length;
+  if (heights.length * columns > MAX_HEIGHTMAP_SAMPLES) {
+    throw new Error(`heightmap has ${heights.length * columns} samples; at most ${MAX_HEIGHTMAP_SAMPLES} are supported`);
+  }
+  heights.forEach((row, j) => {
+    if (!Array.isArray(row) || row.length !== columns) {
+      throw new Error(`heightmap.heights[${j}] must have ${columns} samples like the first row`);
+    }
+    if (!row.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      throw new Error(`heightmap.heights[${j}] must contain only numbers`);
+    }
+  });
+
+  return { resolution, origin: [origin[0], origin[1]], heights: heights as number[][] };
+}
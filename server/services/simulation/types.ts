@@ -1,10 +1,53 @@
 // Simulation Service Type Definitions
 
+export type IntegrationMethod = 'semi_implicit_euler' | 'rk4';
+
+export const INTEGRATION_METHODS: IntegrationMethod[] = ['semi_implicit_euler', 'rk4'];
+
+// Fixed-step integration of the robot body dynamics
+export interface IntegratorConfig {
+  method: IntegrationMethod;
+  substeps: number;          // integration steps per telemetry sample
+}
+
+// Joint motor heating and the policy that derates torque to protect the windings
+export interface ThermalConfig {
+  ambient_temperature: number;   // Celsius, air the motors shed heat to
+  throttling: boolean;           // derate torque_limit as windings heat up
+  throttle_temperature: number;  // Celsius, winding temperature derating starts at
+  max_temperature: number;       // Celsius, winding temperature at which torque is cut back furthest
+}
+
+// Sensor errors applied between the simulated truth and the reported telemetry
+export interface SensorConfig {
+  accel_noise_density: number;   // m/s²/√Hz, accelerometer white noise including frame vibration
+  accel_bias_drift: number;      // m/s² per √s, random walk of the accelerometer bias
+  gyro_noise_density: number;    // deg/s/√Hz, gyro white noise
+  gyro_bias_drift: number;       // deg/s per √s, random walk of the gyro bias
+  gps_latency: number;           // s, age of a GPS fix when it is reported
+  gps_noise: number;             // m, horizontal white noise of a fix (vertical is 1.5x)
+  gps_multipath: number;         // m, slowly wandering error from reflected satellite signals
+  contact_false_positive_rate: number;  // 0-1, chance per sample a foot in the air reads as in contact
+  dropout_rate: number;          // 0-1, chance per sample a sensor misses an update and repeats its last reading
+}
+
+// Ground robot battery pack and the motor drivers' supply limit
+export interface BatteryConfig {
+  cells: number;                 // LiPo cells in series
+  capacity: number;              // Ah
+  internal_resistance: number;   // Ω, whole pack
+  initial_charge: number;        // %, state of charge at the start of a run
+  brownout_voltage: number;      // V, bus voltage below which the motor drivers reset
+}
+
 export interface PhysicsConfig {
   gravity: number;           // m/s^2, default 9.81
   friction_coefficient: number;  // 0.0 to 1.0
-  terrain_type: 'sand' | 'concrete' | 'grass' | 'gravel';
-  terrain_roughness: number; // 0.0 to 1.0
+  terrain_type: 'sand' | 'concrete' | 'grass' | 'gravel';   // surface material
+  terrain_roughness: number; // 0.0 to 1.0, unevenness of the footing
+  terrain: TerrainProfile;   // ground shape
+  integrator: IntegratorConfig;
+  thermal: ThermalConfig;
 }
 
 export interface MotorParams {
@@ -32,21 +75,62 @@ export interface TelemetryFrame {
   power: {
     voltage: number;         // V
     current: number;         // A
-    temperature: number;     // Celsius
+    temperature: number;     // Celsius, hottest joint winding
+    throttle: number;        // 0-1, fraction of torque_limit the most throttled joint keeps
+    state_of_charge: number; // %
+    brownout: boolean;       // motor drivers reset by the bus voltage sagging below brownout_voltage
   };
+  joint_power: Record<string, number>;  // W, electrical power drawn by each joint motor
+  truth: GroundTruth;        // simulated values behind the imu and contact readings
+  ranges: Record<string, number | number[]>;   // m by sensor: one return for a beam, one per ray across a scan
+  nearest_obstacle: { id: string; clearance: number } | null;  // m from the robot's outline, null with no obstacles in the world
+  joint_temperatures: Record<string, number>;  // Celsius, winding temperature of each joint motor
   contacts: {
     leg_id: string;
     in_contact: boolean;
-    force: number;           // N
+    force: number;           // N, ground reaction
     slip_detected: boolean;
+    sinkage: number;         // m, how far the foot has pressed into the ground
+    energy_loss: number;     // J lost to the ground over the frame
   }[];
+  kinematics: LegKinematics;
+}
+
+/**
+ * What the sensors of a ground frame would read without error
+ */
+export interface GroundTruth {
+  imu: TelemetryFrame['imu'];
+  in_contact: Record<string, boolean>;   // by leg
+}
+
+/**
+ * Where the legs put the body, from forward kinematics of the joint angles.
+ * Positions are from the body centre in its level heading frame: x forward,
+ * y left, z up.
+ */
+export interface LegKinematics {
+  foot_positions: Record<string, [number, number, number]>;  // m
+  body_height: number;       // m, body centre above the stance feet
+  stride_length: number;     // m, mean foot sweep over each leg's last completed stance
+  odometry: { x: number; y: number };   // m, body position on the ground relative to the start
+  support_polygon: [number, number][];  // m, convex hull of the stance feet, anticlockwise
+  com_projection: [number, number];     // m, centre of mass projected onto the ground
+  stability_margin: number | null;      // m, from the projected centre of mass to the nearest support edge; negative outside, null with no foot down
+  ground_height: number;     // m, terrain height under the body relative to the start
+  ground_slope: { pitch: number; roll: number };   // degrees, tilt of the ground under the body as a body attitude
 }
 
 export interface SimulationEvent {
   timestamp: number;
-  type: 'slip' | 'overheat' | 'collision' | 'gait_mismatch' | 'stability_warning' | 'rollover';
+  type: 'slip' | 'overheat' | 'collision' | 'obstacle_detected' | 'gait_mismatch' | 'stability_warning' | 'rollover'
+    // Injected failures (see FailureType)
+    | 'motor_overheat' | 'slip_event' | 'power_fluctuation' | 'sensor_noise' | 'joint_limit_exceeded'
+    // Centre of mass outside the support polygon
+    | 'static_instability';
   severity: 'info' | 'warning' | 'error' | 'critical';
   message: string;
+  frame_range?: { start: number; end: number };  // telemetry frames the event spans, e.g. those perturbed by an injected fault
   data?: Record<string, any>;
 }
 
@@ -57,8 +141,19 @@ export interface SimulationRun {
   completed_at?: number;
   duration_requested: number;
   duration_actual?: number;
+  seed: number;              // PRNG seed, replays reproduce the run exactly
+  robot_type: GroundRobotType;
+  robot_model: RobotModel;       // description the run was simulated with
+  gait_config?: GaitConfig;      // hexapod runs only
+  quadruped_gait?: QuadrupedGait; // quadruped runs only
+  replay_of?: string;        // run_id this run was regenerated from
+  fault_schedule: FaultSchedule;
   physics_config: PhysicsConfig;
   motor_configs: Map<string, MotorParams>;
+  battery_config: BatteryConfig;
+  sensor_config: SensorConfig;
+  obstacles: Obstacle[];
+  range_sensors: RangeSensorConfig[];
   telemetry: TelemetryFrame[];
   events: SimulationEvent[];
   metrics?: SimulationMetrics;
@@ -69,11 +164,28 @@ export interface SimulationMetrics {
   stability_score: number;        // 0-100
   efficiency_score: number;       // 0-100
   gait_symmetry: number;          // 0-1
-  max_pitch_deviation: number;    // degrees
-  max_roll_deviation: number;     // degrees
+  max_pitch_deviation: number;    // degrees, from the slope of the ground underfoot
+  max_roll_deviation: number;     // degrees, from the slope of the ground underfoot
   slip_events: number;
-  total_energy_consumed: number;  // Joules
-  avg_joint_temperature: number;  // Celsius
+  imu_error_rms: number;          // degrees, RMS of measured minus true pitch and roll
+  contact_error_rate: number;     // 0-1, fraction of contact readings that disagree with the truth
+  min_obstacle_clearance: number | null;  // m, closest the robot came to an obstacle, null with none in the world
+  total_energy_consumed: number;  // Joules drawn from the battery
+  final_state_of_charge: number;  // %
+  min_bus_voltage: number;        // V, deepest sag under load
+  brownout_time: number;          // s with the motor drivers reset by a brown-out
+  avg_joint_temperature: number;  // Celsius, over every joint winding
+  max_joint_temperature: number;  // Celsius, hottest any winding got
+  hottest_joint: string;          // joint whose winding got hottest
+  throttled_time: number;         // s with any joint's torque derated by thermal throttling
+  stride_length: number;          // m, mean foot sweep per stance
+  foot_clearance: number;         // m, mean peak foot height in swing
+  distance_travelled: number;     // m, start to end of the run
+  min_stability_margin: number;   // m, static stability margin; negative when the centre of mass left the support polygon
+  mean_stability_margin: number;  // m
+  elevation_gain: number;         // m, terrain height climbed from start to end of the run
+  mean_sinkage: number;           // m, over stance feet
+  ground_energy_loss: number;     // J lost to the ground in foot landings and sinkage
 }
 
 export interface SessionState {
@@ -82,8 +194,21 @@ export interface SessionState {
   last_accessed: number;
   physics: PhysicsConfig;
   motors: Map<string, MotorParams>;
+  battery: BatteryConfig;
+  sensors: SensorConfig;
+  obstacles: Obstacle[];
+  range_sensors: Record<RangeSensorPlatform, RangeSensorConfig[]>;
+  robot_models: Record<GroundRobotType, RobotModel>;
+  gait: GaitConfig;
+  fault_schedule: FaultSchedule;
+  drone_physics: DronePhysicsConfig;
+  flight_controller: FlightControllerConfig;
+  airframe: AirframeConfig;
+  mission: DroneMission;
+  failsafe: FailsafeConfig;
   runs: SimulationRun[];
   current_run?: SimulationRun;
+  drone_runs: DroneSimulationRun[];
 }
 
 export interface ToolExecutionResult<T = any> {
@@ -109,6 +234,79 @@ export interface ConfigurePhysicsResult {
   warnings?: string[];
 }
 
+export interface ConfigureObstaclesResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  obstacles: Obstacle[];
+  warnings?: string[];
+}
+
+export interface ConfigureRangeSensorsResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  robot_type: RangeSensorPlatform;
+  range_sensors: RangeSensorConfig[];
+  warnings?: string[];
+}
+
+export interface ConfigureSensorsResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_sensors: SensorConfig;
+  warnings?: string[];
+}
+
+export interface ConfigureBatteryResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_battery: BatteryConfig;
+  warnings?: string[];
+}
+
+export interface ConfigureDronePhysicsResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_config: DronePhysicsConfig;
+  warnings?: string[];
+}
+
+export interface ConfigureGaitResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_gait: GaitConfig;
+  warnings?: string[];
+}
+
+export interface SetMissionResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_mission: DroneMission;
+  estimated_duration: number;       // seconds
+  warnings?: string[];
+}
+
+export interface ConfigureAirframeResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_airframe: AirframeConfig;
+  hover_rpm: number[];              // per rotor at sea level, in airframe rotor order
+  thrust_to_weight: number;         // all rotors at max RPM against the airframe weight
+  warnings?: string[];
+}
+
+export interface ConfigureFailsafeResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  applied_failsafe: FailsafeConfig;
+  warnings?: string[];
+}
+
+export interface UpdateFlightControllerResult {
+  status: 'success' | 'failed';
+  message: string;
+  applied_config: FlightControllerConfig;
+}
+
 export interface UpdateMotorResult {
   status: 'success' | 'failed';
   message: string;
@@ -116,16 +314,41 @@ export interface UpdateMotorResult {
   applied_params: Partial<MotorParams>;
 }
 
+export interface LoadRobotDescriptionResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  robot_type: GroundRobotType;
+  model_name: string;
+  source: RobotModel['source'];
+  total_mass: number;               // kg, all links
+  legs: { leg_id: string; hip: [number, number, number]; joints: string[] }[];
+  joints: { joint_id: string; name: string; lower: number; upper: number; effort: number; velocity: number }[];
+  warnings?: string[];
+}
+
+export interface InjectFailureResult {
+  status: 'success' | 'partial' | 'failed';
+  message: string;
+  fault_schedule: FaultSchedule;
+  warnings?: string[];
+}
+
 export interface RunSimulationResult {
   run_id: string;
   status: 'completed' | 'failed' | 'interrupted';
   telemetry_summary: string;
-  video_url: string;
+  video_url?: string;        // rendered animation, omitted when the run recorded no telemetry
   duration_actual: number;
+  seed: number;
   metrics: SimulationMetrics;
   events_summary?: string[];
 }
 
+export interface ReplayRunResult extends RunSimulationResult {
+  replay_of: string;
+  identical: boolean;        // telemetry, events and metrics match the original bit-for-bit
+}
+
 export interface AnalyzeVideoResult {
   analysis: string;
   findings: string[];
@@ -160,11 +383,61 @@ export interface StartAutonomousResearchResult {
 }
 
 // Default configurations
+export const DEFAULT_INTEGRATOR: IntegratorConfig = {
+  method: 'semi_implicit_euler',
+  substeps: 1
+};
+
+export const DEFAULT_THERMAL: ThermalConfig = {
+  ambient_temperature: 25,
+  throttling: false,
+  throttle_temperature: 50,
+  max_temperature: 55
+};
+
 export const DEFAULT_PHYSICS: PhysicsConfig = {
   gravity: 9.81,
   friction_coefficient: 0.5,
   terrain_type: 'concrete',
-  terrain_roughness: 0.3
+  terrain_roughness: 0.3,
+  terrain: { name: 'flat', features: [] },
+  integrator: DEFAULT_INTEGRATOR,
+  thermal: DEFAULT_THERMAL
+};
+
+// Ground robots carry a forward lidar rangefinder; drones a 360° scanning lidar
+export const DEFAULT_RANGE_SENSORS: Record<RangeSensorPlatform, RangeSensorConfig[]> = {
+  hexapod: [
+    { sensor_id: 'lidar_front', type: 'single_beam', mount: [0.15, 0, 0.03], direction: 0, fov: 0, beams: 1, max_range: 12, noise: 0.02 }
+  ],
+  quadruped: [
+    { sensor_id: 'lidar_front', type: 'single_beam', mount: [0.2, 0, 0.05], direction: 0, fov: 0, beams: 1, max_range: 12, noise: 0.02 }
+  ],
+  drone: [
+    { sensor_id: 'lidar_scan', type: 'scan_2d', mount: [0, 0, 0.05], direction: 0, fov: 360, beams: 16, max_range: 30, noise: 0.05 }
+  ]
+};
+
+// MEMS IMU on a vibrating frame, consumer GPS receiver, switch-type foot contacts
+export const DEFAULT_SENSORS: SensorConfig = {
+  accel_noise_density: 0.07,
+  accel_bias_drift: 0.002,
+  gyro_noise_density: 0.02,
+  gyro_bias_drift: 0.01,
+  gps_latency: 0.2,
+  gps_noise: 0.3,
+  gps_multipath: 0.5,
+  contact_false_positive_rate: 0.002,
+  dropout_rate: 0.005
+};
+
+// 6S pack: 25.2V charged, 22.2V nominal
+export const DEFAULT_BATTERY: BatteryConfig = {
+  cells: 6,
+  capacity: 5,
+  internal_resistance: 0.1,
+  initial_charge: 100,
+  brownout_voltage: 18
 };
 
 export const DEFAULT_MOTOR_PARAMS: Omit<MotorParams, 'joint_id'> = {
@@ -185,6 +458,224 @@ export const HEXAPOD_JOINTS = [
   'leg_6_coxa', 'leg_6_femur', 'leg_6_tibia'
 ];
 
+// ============================================
+// Hexapod Gait Types
+// ============================================
+
+export type HexapodGaitPattern = 'tripod' | 'ripple' | 'wave' | 'custom';
+
+// Leg timing shared by every gait: when each leg is in stance
+export interface GaitTiming {
+  frequency: number;                      // Hz
+  duty_factor: number;                    // fraction of the cycle in stance (0-1)
+  phase_offsets: Record<string, number>;  // leg_id -> cycle fraction (0-1)
+}
+
+export interface GaitConfig extends GaitTiming {
+  pattern: HexapodGaitPattern;
+  amplitudes: { coxa: number; femur: number; tibia: number };  // radians
+  joint_amplitudes?: Record<string, number>;                   // per-joint overrides (radians)
+}
+
+/**
+ * Standard hexapod gaits. Legs are numbered around the body:
+ * 1 left-front, 2 left-middle, 3 left-rear, 4 right-rear, 5 right-middle, 6 right-front.
+ */
+export const HEXAPOD_GAIT_PATTERNS: Record<Exclude<HexapodGaitPattern, 'custom'>, Pick<GaitConfig, 'duty_factor' | 'phase_offsets'>> = {
+  // Two alternating tripods (1,3,5 / 2,4,6)
+  tripod: {
+    duty_factor: 0.5,
+    phase_offsets: { leg_1: 0, leg_2: 0.5, leg_3: 0, leg_4: 0.5, leg_5: 0, leg_6: 0.5 }
+  },
+  // Rear-to-front wave on each side, sides half a cycle apart, two legs swinging
+  ripple: {
+    duty_factor: 2 / 3,
+    phase_offsets: { leg_1: 1 / 3, leg_2: 2 / 3, leg_3: 0, leg_4: 0.5, leg_5: 1 / 6, leg_6: 5 / 6 }
+  },
+  // One leg swinging at a time, rear-to-front, left side then right
+  wave: {
+    duty_factor: 5 / 6,
+    phase_offsets: { leg_1: 4 / 6, leg_2: 5 / 6, leg_3: 0, leg_4: 3 / 6, leg_5: 2 / 6, leg_6: 1 / 6 }
+  }
+};
+
+export const DEFAULT_GAIT: GaitConfig = {
+  pattern: 'tripod',
+  frequency: 2.0,
+  ...HEXAPOD_GAIT_PATTERNS.tripod,
+  amplitudes: { coxa: 0.3, femur: 0.6, tibia: 0.8 }
+};
+
+// ============================================
+// Quadruped Types
+// ============================================
+
+export type GroundRobotType = 'hexapod' | 'quadruped';
+
+export const GROUND_ROBOT_TYPES: GroundRobotType[] = ['hexapod', 'quadruped'];
+
+export type QuadrupedGait = 'trot' | 'pace' | 'bound';
+
+export const QUADRUPED_GAITS: QuadrupedGait[] = ['trot', 'pace', 'bound'];
+
+// Quadruped legs (front-left, front-right, back-left, back-right)
+export const QUADRUPED_LEGS = ['fl', 'fr', 'bl', 'br'];
+
+// Quadruped joint IDs (abduction, hip pitch, knee per leg)
+export const QUADRUPED_JOINTS = [
+  'fl_abad', 'fl_hip', 'fl_knee',
+  'fr_abad', 'fr_hip', 'fr_knee',
+  'bl_abad', 'bl_hip', 'bl_knee',
+  'br_abad', 'br_hip', 'br_knee'
+];
+
+export const DEFAULT_QUADRUPED_MOTOR_PARAMS: Omit<MotorParams, 'joint_id'> = {
+  torque_limit: 12.0,
+  pid_p: 3.0,
+  pid_i: 0.5,
+  pid_d: 0.15,
+  max_velocity: 8.0
+};
+
+// ============================================
+// Robot Model Types
+// ============================================
+
+// Joint types along each leg, from the body outward
+export const LEG_JOINT_TYPES: Record<GroundRobotType, string[]> = {
+  hexapod: ['coxa', 'femur', 'tibia'],
+  quadruped: ['abad', 'hip', 'knee']
+};
+
+// Position (m) and roll/pitch/yaw rotation (rad) of a frame relative to its parent
+export interface FrameOrigin {
+  xyz: [number, number, number];
+  rpy: [number, number, number];
+}
+
+// A rigid link of the robot's kinematic tree
+export interface RobotLink {
+  name: string;
+  mass: number;                                         // kg
+  inertia: { ixx: number; iyy: number; izz: number };   // kg·m² about the link's centre of mass
+}
+
+// A revolute leg joint, named for its place in the robot
+export interface RobotJoint {
+  joint_id: string;          // simulation joint ID, e.g. leg_1_femur
+  name: string;              // joint name in the robot description
+  leg_id: string;
+  joint_type: string;        // one of LEG_JOINT_TYPES for the robot
+  parent: string;            // parent link name
+  child: string;             // child link name
+  origin: FrameOrigin;       // joint frame in the parent link frame
+  axis: [number, number, number];   // rotation axis in the joint frame
+  limits: {
+    lower: number;           // rad
+    upper: number;           // rad
+    effort: number;          // N·m
+    velocity: number;        // rad/s
+  };
+}
+
+// A leg: its joints from the body outward, where it attaches and where the foot sits
+export interface RobotLeg {
+  leg_id: string;
+  hip: [number, number, number];   // m, first joint in the base frame (x forward, y left, z up)
+  joints: string[];                // joint IDs from hip to foot
+  foot: FrameOrigin;               // foot frame in the last link's frame
+}
+
+// Kinematic and inertial description of a ground robot
+export interface RobotModel {
+  name: string;
+  robot_type: GroundRobotType;
+  source: 'builtin' | 'urdf';
+  base_link: string;
+  links: RobotLink[];
+  joints: RobotJoint[];
+  legs: RobotLeg[];
+}
+
+// ============================================
+// Terrain Types
+// ============================================
+
+// A terrain primitive. Primitives span the ground across the robot's path and
+// are laid out along x, the direction it starts out walking; where they
+// overlap their heights add up.
+export type TerrainFeature =
+  | { type: 'incline'; start: number; length: number; angle: number }   // m, m, degrees; climbs along x, then levels off
+  | { type: 'step'; start: number; height: number }                     // m; negative heights step down
+  | { type: 'rubble'; start: number; length: number; height: number; size: number }   // m; blocks of up to height, size across
+  | { type: 'ditch'; start: number; width: number; depth: number };     // m
+
+// Ground heights sampled on a regular grid
+export interface Heightmap {
+  resolution: number;            // m between samples
+  origin: [number, number];      // m, position of heights[0][0]
+  heights: number[][];           // m, rows along y, samples along x
+}
+
+// Ground shape under a legged run: a heightmap, primitives, or both added together
+export interface TerrainProfile {
+  name: string;
+  features: TerrainFeature[];
+  heightmap?: Heightmap;
+}
+
+// ============================================
+// Obstacle and Range Sensor Types
+// ============================================
+
+// Something standing in the world that range sensors see and robots run into.
+// Positions are in the run's ground frame: for ground robots x ahead of the
+// start and y to its left, for drones x north and y east of home. Heights are
+// above the ground the obstacle stands on.
+export type Obstacle =
+  | { type: 'box'; id: string; x: number; y: number; length: number; width: number; height: number; yaw: number }  // m, centre; yaw in degrees from x toward y
+  | { type: 'cylinder'; id: string; x: number; y: number; radius: number; height: number };                         // m, centre
+
+// A range sensor mounted on a robot. Body axes are x forward and y to the
+// left on ground robots, to the right on drones; directions turn from x toward y.
+export interface RangeSensorConfig {
+  sensor_id: string;
+  type: 'single_beam' | 'scan_2d';
+  mount: [number, number, number];   // m, position on the body
+  direction: number;     // degrees, centre of the beam or scan from the forward axis
+  fov: number;           // degrees, width of a scan
+  beams: number;         // rays across a scan, evenly spaced
+  max_range: number;     // m, reported when nothing is in range
+  noise: number;         // m, standard deviation of a return
+}
+
+// Robots range sensors can be mounted on
+export type RangeSensorPlatform = GroundRobotType | 'drone';
+
+// ============================================
+// Fault Schedule Types
+// ============================================
+
+// A fault scripted to start at a fixed time in a run
+export interface ScheduledFault {
+  type: string;                // FailureType for ground robots, DroneFailureType for drones
+  at_seconds: number;          // simulation time the fault starts
+  component?: string;          // joint, leg or rotor ID (defaults to the scenario's components)
+  severity?: 'info' | 'warning' | 'error' | 'critical';  // defaults to the scenario's severity
+  magnitude?: number;          // 0-1 perturbation scale, default 1
+  duration_seconds?: number;   // defaults to 2s if recoverable, otherwise the rest of the run
+}
+
+export interface FaultSchedule {
+  faults: ScheduledFault[];
+  random_failures: boolean;    // keep the random injector running alongside the schedule
+}
+
+export const DEFAULT_FAULT_SCHEDULE: FaultSchedule = {
+  faults: [],
+  random_failures: true
+};
+
 // ============================================
 // Drone/UAV Types
 // ============================================
@@ -197,24 +688,138 @@ export interface DronePhysicsConfig {
   wind_speed: number;          // m/s
   wind_direction: number;      // degrees (0-360)
   airspace_condition: AirspaceCondition;
+  integrator: IntegratorConfig;
+}
+
+// Rotor speed envelope and spin-up lag
+export interface RotorParams {
+  max_rpm: number;
+  min_rpm: number;             // idle speed while airborne
+  response_time: number;       // seconds, first-order lag to a commanded RPM
+}
+
+// Brushless drive motor
+export interface DroneMotorParams {
+  kv_rating: number;           // RPM per volt
+  max_current: number;         // Amps per motor
+  efficiency: number;          // 0-1
+}
+
+export interface PIDGains {
+  p: number;
+  i: number;
+  d: number;
+}
+
+// Cascaded flight controller: position -> attitude -> rotor thrust, plus altitude -> collective thrust
+export interface FlightControllerConfig {
+  altitude_pid: PIDGains;      // collective thrust (fraction of hover) per metre of altitude error
+  attitude_pid: PIDGains;      // differential thrust (fraction of hover) per degree of roll/pitch error
+  position_pid: PIDGains;      // tilt command (degrees) per metre of horizontal position error
+  yaw_pid: PIDGains;           // differential rotor torque (fraction of hover thrust) per degree of heading error
+  rotor_loss_strategy: 'none' | 'reduced_attitude';  // mixer behaviour once a rotor is flagged as failed
+  rotor: RotorParams;
+  motor: DroneMotorParams;
+}
+
+// Multirotor frame layouts: X configurations with 4, 6 or 8 arms, or 4 arms carrying coaxial pairs
+export type AirframeType = 'quad_x' | 'hex_x' | 'octo_x' | 'coaxial_x8';
+
+export const AIRFRAME_TYPES: AirframeType[] = ['quad_x', 'hex_x', 'octo_x', 'coaxial_x8'];
+
+// Rotor mounting point relative to the centre of mass
+export interface RotorMount {
+  id: string;
+  x: number;                   // meters forward
+  y: number;                   // meters to the right
+  z: number;                   // meters up; the lower rotor of a coaxial pair sits in the upper one's wake
+  spin: 'cw' | 'ccw';          // seen from above; the airframe reacts against the spin
+}
+
+export interface AirframeConfig {
+  type: AirframeType;
+  mass: number;                // kg, all-up weight
+  arm_length: number;          // meters, centre of mass to rotor axis
+  thrust_coefficient: number;  // N per (rad/s)² of rotor speed at sea level
+  torque_coefficient: number;  // N·m of rotor drag torque per (rad/s)² at sea level
+  battery_capacity: number;    // Ah of the 4S flight pack
+  rotors: RotorMount[];        // derived from type and arm_length
+}
+
+// Mission waypoint, flown in order after takeoff
+export interface MissionWaypoint {
+  lat: number;
+  lon: number;
+  alt: number;                 // meters above home
+  speed: number;               // m/s along the leg into this waypoint
+  loiter_seconds: number;      // hold time after arriving
+}
+
+export interface DroneMission {
+  home: { lat: number; lon: number };
+  takeoff_altitude: number;    // meters
+  hover_seconds: number;       // hold over home after takeoff
+  waypoints: MissionWaypoint[];
+  landing: { lat: number; lon: number };
+}
+
+// Operating volume the drone must stay inside
+export interface Geofence {
+  enabled: boolean;
+  shape: 'cylinder' | 'polygon';
+  radius: number;              // meters around home, cylinder only
+  polygon: { lat: number; lon: number }[];  // vertices in order, polygon only
+  max_altitude: number;        // meters above home
+}
+
+// What the vehicle does on its own when the battery runs down or it leaves the geofence
+export interface FailsafeConfig {
+  geofence: Geofence;
+  rth_battery_threshold: number;   // % remaining that triggers return-to-home
+  land_battery_threshold: number;  // % remaining that forces a landing in place
+  rth_altitude: number;            // meters, climb to before flying home
+  breach_action: 'rth' | 'land';
+  motor_failure_action: 'continue' | 'land';  // on a rotor that cannot follow its command
+}
+
+export type FailsafeTrigger = 'low_battery' | 'critical_battery' | 'geofence' | 'motor_failure';
+
+// Air velocity at the drone: mean wind, gust and turbulence combined
+export interface WindSample {
+  north: number;               // m/s, air moving toward north
+  east: number;                // m/s
+  up: number;                  // m/s
+  gust: number;                // m/s, discrete gust contribution to horizontal speed
 }
 
 // Drone telemetry frame
+// Mission phase the flight controller is flying
+export type FlightPhase = 'takeoff' | 'hover' | 'waypoint' | 'rth_climb' | 'land';
+
 export interface DroneTelemetryFrame {
   timestamp: number;
   position: { lat: number; lon: number; alt: number };  // GPS
   velocity: { vx: number; vy: number; vz: number };     // m/s
   attitude: { pitch: number; roll: number; yaw: number };
-  rotor_speeds: number[];      // RPM for each rotor (4 for quad)
+  rotor_speeds: number[];      // RPM for each rotor, in airframe rotor order
   battery: { voltage: number; current: number; remaining: number };
   gps_quality: number;         // 0-100
   signal_strength: number;     // dBm
+  wind: WindSample;            // sampled at the drone's position
+  truth: {                     // simulated values behind the GPS fix and attitude readings
+    position: { lat: number; lon: number; alt: number };
+    attitude: { pitch: number; roll: number; yaw: number };
+  };
+  ranges: Record<string, number | number[]>;   // m by sensor: one return for a beam, one per ray across a scan
+  nearest_obstacle: { id: string; clearance: number } | null;  // m from the rotor tips, null with no obstacle reaching the drone's altitude
+  setpoint: { phase: FlightPhase; alt: number };  // mission phase and the altitude (m) the controller is holding
 }
 
 // Drone failure events
 export type DroneEventType =
   | 'motor_failure' | 'gps_loss' | 'low_battery' | 'signal_lost'
-  | 'geofence_breach' | 'wind_warning' | 'obstacle_detected' | 'flyaway';
+  | 'geofence_breach' | 'wind_warning' | 'obstacle_detected' | 'flyaway'
+  | 'failsafe_rth' | 'failsafe_land' | 'crash' | 'collision';
 
 // Drone simulation event (extends base SimulationEvent)
 export interface DroneSimulationEvent {
@@ -222,21 +827,25 @@ export interface DroneSimulationEvent {
   type: DroneEventType;
   severity: 'info' | 'warning' | 'error' | 'critical';
   message: string;
+  frame_range?: { start: number; end: number };  // telemetry frames perturbed by a scheduled fault
   data?: Record<string, any>;
 }
 
-// Quadcopter rotors
+// Quadcopter rotors, in quad_x airframe order
 export const QUADCOPTER_ROTORS = ['rotor_fl', 'rotor_fr', 'rotor_bl', 'rotor_br'];
 
 // Drone simulation metrics
 export interface DroneSimulationMetrics {
-  hover_accuracy: number;           // % time within position threshold
+  hover_accuracy: number;           // % of hover and cruise time within 0.5m of the altitude setpoint
   altitude_stability: number;       // %
-  battery_efficiency: number;       // % vs theoretical
+  battery_efficiency: number;       // %, charge hovering as long would draw vs charge drawn
   wind_compensation_events: number;
-  max_altitude_deviation: number;   // meters
-  avg_rotor_rpm: number;
+  max_altitude_deviation: number;   // meters from the altitude setpoint during hover and cruise
+  avg_rotor_rpm: number;            // mean over every rotor on the airframe
   gps_quality_avg: number;
+  gps_error_rms: number;            // m, RMS horizontal distance from each GPS fix to the true position
+  attitude_error_rms: number;       // degrees, RMS of measured minus true pitch and roll
+  min_obstacle_clearance: number | null;  // m, closest the rotor tips came to an obstacle, null if none reached the drone's altitude
 }
 
 // Drone flight path data
@@ -245,6 +854,58 @@ export interface DroneFlightPath {
   total_distance: number;           // meters
   max_speed: number;                // m/s
   avg_speed: number;
+  waypoints: WaypointReport[];      // per mission waypoint, in order
+  landing_error: number | null;     // meters from the landing point at touchdown, null if not landed
+}
+
+// How the flight tracked one mission leg
+export interface WaypointReport {
+  index: number;
+  arrival_time: number | null;      // seconds, null if never reached
+  max_cross_track_error: number;    // meters from the leg's straight line
+  mean_cross_track_error: number;   // meters
+}
+
+// How the failsafe behaved and how the flight ended
+export interface FailsafeReport {
+  triggered: boolean;
+  trigger: FailsafeTrigger | null;
+  action: 'rth' | 'land' | null;
+  triggered_at: number | null;          // seconds
+  landed: boolean;
+  landed_safely: boolean;               // gentle touchdown inside the geofence with charge left
+  crashed: boolean;                     // hit the ground too fast or flipped
+  touchdown_speed: number | null;       // m/s vertical
+  distance_from_home: number | null;    // meters at touchdown
+  battery_at_landing: number | null;    // %
+  max_geofence_excursion: number;       // meters outside the fence, 0 if it stayed inside
+}
+
+// Stored drone flight, kept per session like ground runs
+export interface DroneSimulationRun {
+  run_id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  started_at: number;
+  completed_at?: number;
+  duration_requested: number;
+  duration_actual?: number;
+  seed: number;
+  replay_of?: string;        // run_id this flight was regenerated from
+  physics_config: DronePhysicsConfig;
+  flight_controller: FlightControllerConfig;
+  airframe: AirframeConfig;
+  mission: DroneMission;
+  failsafe: FailsafeConfig;
+  sensor_config: SensorConfig;
+  obstacles: Obstacle[];
+  range_sensors: RangeSensorConfig[];
+  fault_schedule: FaultSchedule;
+  telemetry: DroneTelemetryFrame[];
+  events: DroneSimulationEvent[];
+  metrics?: DroneSimulationMetrics;
+  flight_path?: DroneFlightPath;
+  failsafe_report?: FailsafeReport;
+  video_url?: string;
 }
 
 // Drone run simulation result
@@ -252,13 +913,20 @@ export interface DroneRunSimulationResult {
   run_id: string;
   status: 'completed' | 'failed' | 'interrupted';
   telemetry_summary: string;
-  video_url: string;
+  video_url?: string;        // rendered animation, omitted when the run recorded no telemetry
   duration_actual: number;
+  seed: number;
   metrics: DroneSimulationMetrics;
   flight_path: DroneFlightPath;
+  failsafe: FailsafeReport;
   events_summary?: string[];
 }
 
+export interface DroneReplayRunResult extends DroneRunSimulationResult {
+  replay_of: string;
+  identical: boolean;        // telemetry, events and metrics match the original bit-for-bit
+}
+
 // Enhanced autonomous research result
 export interface EnhancedAutonomousResearchResult {
   status: 'initiated' | 'failed';
@@ -0,0 +1,200 @@
+// Wind Field - Mean wind, discrete gusts and Dryden turbulence for drone flights
+
+import {
+  AirframeConfig,
+  AirspaceCondition,
+  DronePhysicsConfig,
+  WindSample
+} from './types';
+import { SeededRandom } from './random';
+
+// ============================================
+// Airspace Conditions
+// ============================================
+
+/**
+ * Wind statistics for each airspace condition. Turbulence scales the
+ * low-altitude Dryden intensities; gusts arrive at the given rate per second
+ * with an amplitude relative to the mean wind.
+ */
+const AIRSPACE_WIND: Record<AirspaceCondition, { turbulenceScale: number; gustRate: number; gustFactor: number }> = {
+  calm: { turbulenceScale: 0.5, gustRate: 0.02, gustFactor: 0.3 },
+  light_wind: { turbulenceScale: 1, gustRate: 0.08, gustFactor: 0.5 },
+  gusty: { turbulenceScale: 1.5, gustRate: 0.2, gustFactor: 0.8 },
+  turbulent: { turbulenceScale: 2.5, gustRate: 0.4, gustFactor: 1 }
+};
+
+// Wind model constants
+const REFERENCE_HEIGHT = 10;            // m, height the configured wind speed applies at
+const WIND_SHEAR_EXPONENT = 1 / 7;      // power-law wind profile over open ground
+const W20_HEIGHT = 6.1;                 // m (20 ft), height of the Dryden reference wind
+const FEET_PER_METER = 3.2808;
+const TURBULENCE_FLOOR_FT = 10;         // the low-altitude model starts at 10 ft
+const TURBULENCE_CEILING_FT = 1000;     // and ends at 1000 ft
+const MIN_ADVECTION_SPEED = 0.5;        // m/s, turbulence still evolves around a drone drifting with the air
+const GUST_MIN_DURATION = 1;            // s
+const GUST_MAX_DURATION = 4;            // s
+const GUST_REFERENCE_SPEED = 2;         // m/s, gust amplitude floor for light mean winds
+const GUST_DIRECTION_SPREAD = 0.5;      // rad, standard deviation of gust direction about the mean wind
+
+// Airframe response constants
+const GRAVITY = 9.81;                   // m/s^2
+const BODY_DRAG = 0.3;                  // 1/s, horizontal drag relative to the air mass
+const VERTICAL_DRAG = 0.5;              // 1/s, vertical drag relative to the air mass
+const BLADE_FLAP_COEFFICIENT = 0.006;   // flapping moment per m/s of relative wind, as a fraction of weight x arm length
+
+// ============================================
+// Wind Field
+// ============================================
+
+interface Gust {
+  start: number;        // s
+  duration: number;     // s
+  amplitude: number;    // m/s peak
+  direction: number;    // rad, direction the gust blows toward
+}
+
+/**
+ * Air velocity along a drone's flight. The mean wind follows a power-law
+ * profile with height; discrete gusts ramp in and out with a 1-cosine
+ * profile; Dryden turbulence is shaped by first-order filters whose length
+ * scales and intensities follow the MIL-F-8785C low-altitude model, with
+ * turbulence growing calmer and longer-wavelength with height. One field is
+ * created per run and sampled once per step from the run's seeded source.
+ */
+export class WindField {
+  private readonly rng: SeededRandom;
+  private readonly dt: number;
+  private readonly referenceSpeed: number;
+  private readonly direction: number;   // rad, direction the mean wind blows toward
+  private readonly condition: typeof AIRSPACE_WIND[AirspaceCondition];
+  private turbulence = { u: 0, v: 0, w: 0 };   // along, across and up the mean wind, m/s
+  private gust: Gust | null = null;
+  private time = 0;
+
+  constructor(physics: DronePhysicsConfig, rng: SeededRandom, dt: number) {
+    this.rng = rng;
+    this.dt = dt;
+    this.referenceSpeed = physics.wind_speed;
+    this.direction = physics.wind_direction * Math.PI / 180;
+    this.condition = AIRSPACE_WIND[physics.airspace_condition] ?? AIRSPACE_WIND.calm;
+  }
+
+  /**
+   * Advance one step and sample the wind at an altitude above home for a drone
+   * at the given ground velocity. An injected wind fault of the given severity
+   * raises turbulence and gust rate.
+   */
+  sample(altitude: number, velocity: { north: number; east: number }, severity: number = 0): WindSample {
+    this.time += this.dt;
+    const height = Math.max(altitude, 1);
+    const mean = this.meanSpeed(height);
+    const cosDir = Math.cos(this.direction);
+    const sinDir = Math.sin(this.direction);
+
+    // Dryden turbulence, advected past the drone at its airspeed
+    const heightFt = clamp(height * FEET_PER_METER, TURBULENCE_FLOOR_FT, TURBULENCE_CEILING_FT);
+    const profile = 0.177 + 0.000823 * heightFt;
+    const sigmaW = 0.1 * Math.max(this.meanSpeed(W20_HEIGHT), 1) * this.condition.turbulenceScale * (1 + 2 * severity);
+    const sigmaU = sigmaW / profile ** 0.4;
+    const lengthU = heightFt / profile ** 1.2 / FEET_PER_METER;
+    const lengthW = heightFt / FEET_PER_METER;
+    const airspeed = Math.max(
+      Math.hypot(mean * cosDir - velocity.north, mean * sinDir - velocity.east),
+      MIN_ADVECTION_SPEED
+    );
+    const filter = (value: number, sigma: number, length: number) => {
+      const decay = Math.exp(-airspeed * this.dt / length);
+      return decay * value + sigma * Math.sqrt(1 - decay * decay) * this.rng.gaussian();
+    };
+    this.turbulence = {
+      u: filter(this.turbulence.u, sigmaU, lengthU),
+      v: filter(this.turbulence.v, sigmaU, lengthU),
+      w: filter(this.turbulence.w, sigmaW, lengthW)
+    };
+
+    // Discrete gusts, one at a time
+    if (this.gust === null && this.rng.next() < this.condition.gustRate * (1 + 2 * severity) * this.dt) {
+      this.gust = {
+        start: this.time,
+        duration: GUST_MIN_DURATION + this.rng.next() * (GUST_MAX_DURATION - GUST_MIN_DURATION),
+        amplitude: this.condition.gustFactor * Math.max(mean, GUST_REFERENCE_SPEED) * (0.5 + this.rng.next()),
+        direction: this.direction + this.rng.gaussian(0, GUST_DIRECTION_SPREAD)
+      };
+    }
+    let gustSpeed = 0;
+    let gustDirection = 0;
+    if (this.gust) {
+      const elapsed = this.time - this.gust.start;
+      if (elapsed >= this.gust.duration) {
+        this.gust = null;
+      } else {
+        gustSpeed = this.gust.amplitude / 2 * (1 - Math.cos(2 * Math.PI * elapsed / this.gust.duration));
+        gustDirection = this.gust.direction;
+      }
+    }
+
+    const along = mean + this.turbulence.u;
+    return {
+      north: along * cosDir - this.turbulence.v * sinDir + gustSpeed * Math.cos(gustDirection),
+      east: along * sinDir + this.turbulence.v * cosDir + gustSpeed * Math.sin(gustDirection),
+      up: this.turbulence.w,
+      gust: gustSpeed
+    };
+  }
+
+  /**
+   * Mean wind speed at a height, from the configured speed at the reference height
+   */
+  private meanSpeed(height: number): number {
+    return this.referenceSpeed * (height / REFERENCE_HEIGHT) ** WIND_SHEAR_EXPONENT;
+  }
+}
+
+// ============================================
+// Airframe Response
+// ============================================
+
+export interface WindDisturbance {
+  force: { x: number; y: number; z: number };   // N, body frame: forward, right, up
+  torque: { roll: number; pitch: number };       // N·m, body frame
+}
+
+/**
+ * Disturbance on a multirotor from the air moving past it, in the body frame
+ * at the given heading (degrees). Drag pushes the airframe along with the
+ * relative wind, and blade flapping tilts the rotor disks away from it, which
+ * rolls and pitches the airframe away from the wind: a gust from ahead
+ * pitches the nose up.
+ */
+export function windDisturbance(
+  wind: WindSample,
+  velocity: { north: number; east: number; up: number },
+  heading: number,
+  airframe: AirframeConfig
+): WindDisturbance {
+  const headingRad = heading * Math.PI / 180;
+  const cosYaw = Math.cos(headingRad);
+  const sinYaw = Math.sin(headingRad);
+  const relNorth = wind.north - velocity.north;
+  const relEast = wind.east - velocity.east;
+  const forward = relNorth * cosYaw + relEast * sinYaw;
+  const right = -relNorth * sinYaw + relEast * cosYaw;
+  const flapMoment = BLADE_FLAP_COEFFICIENT * airframe.mass * GRAVITY * airframe.arm_length;
+
+  return {
+    force: {
+      x: airframe.mass * BODY_DRAG * forward,
+      y: airframe.mass * BODY_DRAG * right,
+      z: airframe.mass * VERTICAL_DRAG * (wind.up - velocity.up)
+    },
+    torque: {
+      roll: flapMoment * right,
+      pitch: -flapMoment * forward
+    }
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}